@@ -1,28 +1,107 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { BatteryStats, BatteryInsight, UsageData } from './types';
-import { getBatteryInsights } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  AppSettings, BatteryHealth, BatteryReading, BatteryStats, BatteryInsight, BatterySession, BatterySource, InsightError, InsightOrigin, InsightReport, InsightResult,
+  QueuedAnalysis, SmartChargeConfig
+} from './types';
+import { getBatteryInsights, getDefaultProvider, isAiConfigured } from './services/geminiService';
+import { getLocalInsights } from './services/localInsights';
+import { findCachedReport, queryReports, saveReport } from './services/reportStore';
+import { computeSmartChargeStats, loadSmartCharge, saveSmartCharge, smartChargeRules } from './services/smartCharge';
+import { predictBattery, projectLevels } from './services/predictor';
+import { HOUR_MS, compactHistory, queryHistory } from './services/historyStore';
+import { createDefaultSource } from './services/batterySource';
+import { UNKNOWN_HEALTH, estimateHealth } from './services/healthModel';
+import { detectSessions, querySessions, syncSessions } from './services/sessionTracker';
+import { loadSettings, saveSettings } from './services/settingsStore';
+import { TEMPERATURE_SYMBOLS, toDisplayTemperature } from './services/units';
+import { MessageKey, createI18n } from './services/i18n';
 import BatteryGauge from './components/BatteryGauge';
 import StatCard from './components/StatCard';
+import SourceSelector from './components/SourceSelector';
+import SessionsPanel from './components/SessionsPanel';
+import InsightCard from './components/InsightCard';
+import ReportHistory from './components/ReportHistory';
+import AlertToasts from './components/AlertToasts';
+import AlertsPanel from './components/AlertsPanel';
+import SmartChargeControl from './components/SmartChargeControl';
+import DataTransferPanel from './components/DataTransferPanel';
+import HistoryChart from './components/HistoryChart';
+import SettingsPanel from './components/SettingsPanel';
+import FleetDashboard from './components/FleetDashboard';
+import EventTimeline from './components/EventTimeline';
+import EnergyPanel from './components/EnergyPanel';
+import CalibrationControl from './components/CalibrationControl';
+import AssistantPanel from './components/AssistantPanel';
+import AnomalyCard from './components/AnomalyCard';
+import { useAlerts } from './hooks/useAlerts';
+import { useAnalysisQueue } from './hooks/useAnalysisQueue';
+import { useServiceWorker } from './hooks/useServiceWorker';
+import { useFleetSync } from './hooks/useFleetSync';
+import { useSampler } from './hooks/useSampler';
+import { useEventLog } from './hooks/useEventLog';
+import { useAnomalies } from './hooks/useAnomalies';
+import { useCalibration } from './hooks/useCalibration';
+import { useAssistant } from './hooks/useAssistant';
+import { I18nContext } from './hooks/useI18n';
+
+const CHART_WINDOW_MS = HOUR_MS;
+const HEALTH_WINDOW_MS = 90 * 24 * HOUR_MS;
+const HEALTH_REFRESH_MS = 10 * 60 * 1000;
+const SESSION_REFRESH_MS = 60 * 1000;
+const SESSION_WINDOW_MS = 30 * 24 * HOUR_MS;
+
+type View = 'dashboard' | 'fleet';
+
+// Shown until the source delivers its first reading
+const INITIAL_READING: BatteryReading = {
+  level: 100,
+  charging: false,
+  chargingTime: 0,
+  dischargingTime: 0,
+  temperature: null,
+  voltage: null
+};
+
+const GRADE_COLORS: Record<BatteryStats['health']['grade'], string> = {
+  Good: 'text-emerald-400',
+  Fair: 'text-amber-400',
+  Poor: 'text-rose-400',
+  Unknown: 'text-gray-500'
+};
 
 const App: React.FC = () => {
-  const [stats, setStats] = useState<BatteryStats>({
-    level: 100,
-    charging: false,
-    chargingTime: 0,
-    dischargingTime: 0,
-    temperature: 32.4,
-    voltage: 3.8,
-    health: 'Good'
-  });
+  const [source, setSource] = useState<BatterySource>(createDefaultSource);
+  const [settings, setSettingsState] = useState<AppSettings>(loadSettings);
+  const { sampler, reading, history: usageHistory, intervalMs } = useSampler(source, settings.sampleIntervalMs, CHART_WINDOW_MS);
+  const [health, setHealth] = useState<BatteryHealth>(UNKNOWN_HEALTH);
+  const stats = useMemo<BatteryStats>(() => ({ ...(reading ?? INITIAL_READING), health }), [reading, health]);
+  const [showSettings, setShowSettings] = useState(false);
+  const [view, setView] = useState<View>('dashboard');
+  const i18n = useMemo(() => createI18n(settings.locale), [settings.locale]);
+  const { t } = i18n;
 
   const [insight, setInsight] = useState<BatteryInsight | null>(null);
+  const [insightOrigin, setInsightOrigin] = useState<InsightOrigin>('ai');
+  const [insightError, setInsightError] = useState<InsightError | null>(null);
+  const insightRequest = useRef<AbortController | null>(null);
+  const [reports, setReports] = useState<InsightReport[]>([]);
   const [loadingInsight, setLoadingInsight] = useState(false);
-  const [usageHistory, setUsageHistory] = useState<UsageData[]>([]);
+  const [sessions, setSessions] = useState<BatterySession[]>([]);
+  const [dataVersion, setDataVersion] = useState(0); // Bumped when persisted data changes outside the sampler
   const lastFetchedLevel = useRef<number | null>(null);
+  const [smartCharge, setSmartChargeState] = useState<SmartChargeConfig>(loadSmartCharge);
+  const smartChargeAlertRules = useMemo(() => smartChargeRules(smartCharge), [smartCharge]);
+  const alerts = useAlerts(stats, usageHistory, sampler.clock, t, smartChargeAlertRules);
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const eventLog = useEventLog(sampler, isOnline, t);
+  const recordEvent = eventLog.record;
+  const [wakeLockHeld, setWakeLockHeld] = useState(false);
+  const calibration = useCalibration(sampler, wakeLockHeld, recordEvent);
+  const anomalyDetection = useAnomalies(sampler, usageHistory, dataVersion);
+  const serviceWorker = useServiceWorker();
+  const fleet = useFleetSync(stats, usageHistory, sessions, source.kind, isOnline, t);
 
   // Wake Lock Implementation (Keep screen on)
   useEffect(() => {
@@ -33,6 +112,13 @@ const App: React.FC = () => {
         if ('wakeLock' in navigator) {
           wakeLock = await (navigator as any).wakeLock.request('screen');
           console.log('Screen Wake Lock active');
+          recordEvent('wakeLockAcquired');
+          setWakeLockHeld(true);
+          // The browser drops the lock whenever the page is hidden
+          wakeLock.addEventListener('release', () => {
+            recordEvent('wakeLockLost');
+            setWakeLockHeld(false);
+          });
         }
       } catch (err) {
         console.warn('Wake Lock request failed:', err);
@@ -54,7 +140,7 @@ const App: React.FC = () => {
       if (wakeLock) wakeLock.release();
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, []);
+  }, [recordEvent]);
 
   // Network Status Listener
   useEffect(() => {
@@ -70,78 +156,214 @@ const App: React.FC = () => {
     };
   }, []);
 
-  // Initialize Battery API and simulate additional stats
+  // Downsample old persisted data periodically, capturing sessions before raw samples go away
   useEffect(() => {
-    let batteryInstance: any = null;
-
-    const updateBatteryInfo = (battery: any) => {
-      setStats(prev => ({
-        ...prev,
-        level: Math.round(battery.level * 100),
-        charging: battery.charging,
-        chargingTime: battery.chargingTime,
-        dischargingTime: battery.dischargingTime,
-        // Simulate minor temperature/voltage variations for realism
-        temperature: parseFloat((30 + Math.random() * 8).toFixed(1)),
-        voltage: parseFloat((3.6 + Math.random() * 0.6).toFixed(2))
-      }));
-    };
+    const compact = () => syncSessions()
+      .then(() => compactHistory())
+      .catch(err => console.warn('History compaction failed:', err));
+    compact();
+    const compactionInterval = setInterval(compact, HOUR_MS);
 
-    if ('getBattery' in navigator) {
-      (navigator as any).getBattery().then((battery: any) => {
-        batteryInstance = battery;
-        updateBatteryInfo(battery);
-        
-        battery.addEventListener('levelchange', () => updateBatteryInfo(battery));
-        battery.addEventListener('chargingchange', () => updateBatteryInfo(battery));
-        battery.addEventListener('chargingtimechange', () => updateBatteryInfo(battery));
-        battery.addEventListener('dischargingtimechange', () => updateBatteryInfo(battery));
-      });
-    }
+    return () => clearInterval(compactionInterval);
+  }, []);
 
-    // Interval to record history for the chart
-    const historyInterval = setInterval(() => {
-      const now = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-      setUsageHistory(prev => {
-        const newData = [...prev, { time: now, level: stats.level }];
-        if (newData.length > 20) return newData.slice(1);
-        return newData;
-      });
-    }, 5000);
+  // Load persisted history for real measurements; simulated and replayed sources
+  // run on their own timeline, so their chart starts fresh
+  useEffect(() => {
+    if (sampler.source.kind !== 'system') return;
+    queryHistory({ from: Date.now() - CHART_WINDOW_MS })
+      .then(sampler.seedHistory)
+      .catch(err => console.warn('Failed to load battery history:', err));
+  }, [sampler, dataVersion]);
 
-    // Install prompt handler
+  // Install prompt handler
+  useEffect(() => {
     const handleBeforeInstallPrompt = (e: any) => {
       e.preventDefault();
       setDeferredPrompt(e);
     };
     window.addEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
+    return () => window.removeEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
+  }, []);
 
-    return () => {
-      clearInterval(historyInterval);
-      window.removeEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
-      if (batteryInstance) {
-        batteryInstance.removeEventListener('levelchange', updateBatteryInfo);
-        batteryInstance.removeEventListener('chargingchange', updateBatteryInfo);
-      }
-    };
-  }, [stats.level]);
+  // Re-estimate health from persisted history, or from the in-memory timeline for non-system sources
+  useEffect(() => {
+    if (source.kind !== 'system') return;
+    const refresh = () => queryHistory({ from: Date.now() - HEALTH_WINDOW_MS })
+      .then(history => setHealth(estimateHealth(history)))
+      .catch(err => console.warn('Health estimation failed:', err));
+
+    refresh();
+    const healthInterval = setInterval(refresh, HEALTH_REFRESH_MS);
+    return () => clearInterval(healthInterval);
+  }, [source, dataVersion]);
+
+  useEffect(() => {
+    if (source.kind === 'system') return;
+    setHealth(estimateHealth(usageHistory));
+  }, [source, usageHistory]);
+
+  // Charge/discharge sessions, same split between persisted and in-memory sources
+  useEffect(() => {
+    if (source.kind !== 'system') return;
+    const refresh = () => syncSessions()
+      .then(() => querySessions(Date.now() - SESSION_WINDOW_MS))
+      .then(setSessions)
+      .catch(err => console.warn('Session detection failed:', err));
+
+    refresh();
+    const sessionInterval = setInterval(refresh, SESSION_REFRESH_MS);
+    return () => clearInterval(sessionInterval);
+  }, [source, dataVersion]);
+
+  useEffect(() => {
+    if (source.kind === 'system') return;
+    setSessions(detectSessions(usageHistory));
+  }, [source, usageHistory]);
+
+  const setSmartCharge = (config: SmartChargeConfig) => {
+    setSmartChargeState(config);
+    saveSmartCharge(config);
+  };
+
+  const setSettings = (next: AppSettings) => {
+    setSettingsState(next);
+    saveSettings(next);
+  };
+
+  useEffect(() => {
+    queryReports()
+      .then(setReports)
+      .catch(err => console.warn('Failed to load insight reports:', err));
+  }, []);
+
+  // After an import, re-read everything that is backed by IndexedDB
+  const reloadPersistedData = () => {
+    queryReports().then(setReports).catch(err => console.warn('Failed to load insight reports:', err));
+    setDataVersion(v => v + 1);
+  };
+
+  const showReport = (report: InsightReport) => {
+    setInsight(report.insight);
+    setInsightOrigin(report.origin);
+  };
+
+  const publishReport = (report: InsightReport) => {
+    showReport(report);
+    recordEvent('analysis', { origin: report.origin, detail: report.insight.status });
+    setReports(prev => [report, ...prev]);
+    saveReport(report).catch(err => console.warn('Failed to save insight report:', err));
+  };
+
+  // Deep Analyze requests made offline come back here once replayed
+  const analysisQueue = useAnalysisQueue(isOnline, t, (entry: QueuedAnalysis, result: InsightResult) => {
+    if (result.status === 'ok') {
+      publishReport({
+        createdAt: Date.now(), stats: entry.stats, insight: result.insight, origin: 'ai', provider: result.provider, locale: entry.locale
+      });
+      setInsightError(null);
+    } else {
+      console.warn(`Queued insight request failed (${result.error.kind}):`, result.error.message);
+      setInsightError(result.error);
+    }
+  });
+
+  const assistant = useAssistant({
+    sampler,
+    stats,
+    sessions,
+    reports,
+    events: eventLog.events,
+    calibration: calibration.latest?.report ?? undefined,
+    locale: settings.locale,
+    model: settings.insightModel
+  });
+
+  const prediction = useMemo(
+    () => predictBattery(stats, usageHistory, sessions, sampler.clock.now()),
+    [stats, usageHistory, sessions, sampler]
+  );
+
+  // Dashed projection towards empty/full, continuing from the latest sample
+  const projection = useMemo(() => {
+    if (!prediction || usageHistory.length === 0) return [];
+    const now = usageHistory[usageHistory.length - 1].timestamp;
+    return projectLevels(stats, prediction, now, CHART_WINDOW_MS / 2);
+  }, [usageHistory, prediction, stats]);
 
-  // Fetch AI Insights whenever battery level changes significantly or on demand
+  // Fetch AI Insights whenever battery level changes significantly or on demand.
+  // Offline, unconfigured or failed model calls fall back to the local rule engine.
   const fetchInsights = useCallback(async () => {
-    if (!isOnline) return;
+    const context = {
+      history: usageHistory,
+      sessions,
+      smartCharge,
+      habitWindowDays: settings.habitWindowDays,
+      locale: settings.locale,
+      events: eventLog.events,
+      calibration: calibration.latest?.report ?? undefined,
+      now: sampler.clock.now()
+    };
+    const provider = getDefaultProvider(settings.insightModel);
+    const applyLocalInsights = () => publishReport({
+      createdAt: Date.now(),
+      stats,
+      insight: getLocalInsights(stats, context),
+      origin: 'local',
+      locale: settings.locale
+    });
+
+    // Identical stats were analysed moments ago; don't pay for another model call
+    const cached = findCachedReport(reports, stats, settings.locale);
+    if (cached && isOnline) {
+      setInsightError(null);
+      showReport(cached);
+      return;
+    }
+
+    if (!isOnline || !isAiConfigured(provider)) {
+      setInsightError(null);
+      applyLocalInsights();
+      // Offline: show local rules now and let the model answer once connectivity returns
+      if (!isOnline && isAiConfigured(provider)) {
+        analysisQueue.enqueue(stats, context, provider)
+          .catch(err => console.warn('Failed to queue insight request:', err));
+      }
+      return;
+    }
+
+    // Only the latest request may update the card
+    insightRequest.current?.abort();
+    const controller = new AbortController();
+    insightRequest.current = controller;
+
     setLoadingInsight(true);
-    const data = await getBatteryInsights(stats);
-    if (data) setInsight(data);
+    const result = await getBatteryInsights(stats, context, { provider, signal: controller.signal });
+    if (controller.signal.aborted) return;
+
+    if (result.status === 'ok') {
+      publishReport({
+        createdAt: Date.now(), stats, insight: result.insight, origin: 'ai', provider: result.provider, locale: settings.locale
+      });
+      setInsightError(null);
+    } else {
+      console.warn(`Insight request failed (${result.error.kind}):`, result.error.message);
+      setInsightError(result.error);
+      applyLocalInsights();
+    }
     setLoadingInsight(false);
-  }, [stats, isOnline]);
+  }, [stats, usageHistory, sessions, smartCharge, reports, isOnline, settings, eventLog.events, calibration.latest, analysisQueue.enqueue, sampler.clock]);
+
+  useEffect(() => () => insightRequest.current?.abort(), []);
 
   useEffect(() => {
-    if (isOnline && (lastFetchedLevel.current === null || Math.abs(lastFetchedLevel.current - stats.level) >= 5)) {
+    if (!settings.autoAnalyze) return;
+    if (lastFetchedLevel.current === null || Math.abs(lastFetchedLevel.current - stats.level) >= settings.insightDelta) {
       fetchInsights();
       lastFetchedLevel.current = stats.level;
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [stats.level, isOnline]);
+  }, [stats.level, isOnline, settings.autoAnalyze, settings.insightDelta]);
 
   const handleInstallClick = async () => {
     if (deferredPrompt) {
@@ -154,15 +376,32 @@ const App: React.FC = () => {
   };
 
   return (
+    <I18nContext.Provider value={i18n}>
     <div className="min-h-screen pb-20 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 select-none safe-area-pt safe-area-pb">
       
       {/* Offline Banner */}
       {!isOnline && (
         <div className="fixed top-0 left-0 right-0 bg-rose-600 text-white text-center py-1 text-xs font-bold tracking-widest uppercase z-50 animate-slide-down">
-          Offline Mode - Data Local Only
+          {t('app.offlineBanner')}
         </div>
       )}
 
+      {serviceWorker.updateAvailable && (
+        <div className="fixed top-4 left-4 right-4 sm:left-auto sm:w-96 z-50 border border-indigo-500/40 bg-indigo-950/90 rounded-2xl p-4 shadow-xl backdrop-blur-xl flex items-center justify-between gap-4 safe-area-pt">
+          <p className="text-sm text-gray-200">{t('app.update.ready')}</p>
+          <div className="flex gap-3 shrink-0">
+            <button onClick={serviceWorker.dismissUpdate} className="text-xs font-bold uppercase tracking-widest text-gray-400 hover:text-white">{t('app.update.later')}</button>
+            <button onClick={serviceWorker.applyUpdate} className="text-xs font-bold uppercase tracking-widest text-indigo-300 hover:text-white">{t('app.update.reload')}</button>
+          </div>
+        </div>
+      )}
+
+      <AlertToasts toasts={alerts.toasts} onDismiss={alerts.dismissToast} onSnooze={alerts.snooze} />
+
+      {showSettings && (
+        <SettingsPanel settings={settings} activeIntervalMs={intervalMs} onChange={setSettings} onClose={() => setShowSettings(false)} />
+      )}
+
       {/* Header */}
       <header className="py-8 flex justify-between items-center border-b border-gray-800 mb-8 mt-4">
         <div>
@@ -174,10 +413,20 @@ const App: React.FC = () => {
             </span>
             BatteryCore <span className="text-emerald-500">Pro</span>
           </h1>
-          <p className="text-gray-400 text-sm mt-1">AI-Powered Monitoring System</p>
+          <p className="text-gray-400 text-sm mt-1">{t('app.subtitle')}</p>
         </div>
         
         <div className="flex gap-2">
+            <button
+                onClick={() => setShowSettings(true)}
+                className="bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white px-3 py-2.5 rounded-xl transition-all border border-gray-700"
+                aria-label={t('app.settings')}
+            >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+            </button>
             {deferredPrompt && (
                 <button
                     onClick={handleInstallClick}
@@ -186,15 +435,15 @@ const App: React.FC = () => {
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                     </svg>
-                    Install
+                    {t('app.install')}
                 </button>
             )}
             <button 
             onClick={fetchInsights}
-            disabled={loadingInsight || !isOnline}
+            disabled={loadingInsight}
             className={`
               px-5 py-2.5 rounded-xl font-semibold transition-all flex items-center gap-2 shadow-lg active:scale-95
-              ${loadingInsight || !isOnline 
+              ${loadingInsight
                 ? 'bg-gray-800 text-gray-500 cursor-not-allowed border border-gray-700' 
                 : 'bg-emerald-600 hover:bg-emerald-500 text-white shadow-emerald-900/20'}
             `}
@@ -206,190 +455,197 @@ const App: React.FC = () => {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
                 </svg>
             )}
-            Deep Analyze
+            {t('app.deepAnalyze')}
             </button>
         </div>
       </header>
 
+      <nav className="flex gap-1 mb-8">
+        {(['dashboard', 'fleet'] as View[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
+            className={`px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest transition-colors ${view === option ? 'bg-gray-800 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {t(option === 'fleet' ? 'app.view.fleet' : 'app.view.dashboard')}
+            {option === 'fleet' && fleet.paired && <span className={`inline-block ml-2 w-1.5 h-1.5 rounded-full ${fleet.error ? 'bg-rose-500' : 'bg-emerald-500'}`} />}
+          </button>
+        ))}
+      </nav>
+
+      {view === 'fleet' ? (
+        <FleetDashboard fleet={fleet} />
+      ) : (
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
         {/* Left Column - Real-time Visualization */}
         <div className="lg:col-span-4 space-y-8">
           <div className="bg-gray-900/40 border border-gray-800 rounded-3xl p-6 backdrop-blur-sm shadow-xl">
-            <BatteryGauge level={stats.level} charging={stats.charging} />
+            <SourceSelector source={source} onChange={setSource} />
+            <BatteryGauge
+              level={stats.level}
+              charging={stats.charging}
+              targetBand={smartCharge.enabled ? { floor: smartCharge.floor, ceiling: smartCharge.ceiling } : undefined}
+              thresholds={settings.gaugeThresholds}
+            />
             
             <div className="grid grid-cols-2 gap-4 mt-8">
               <StatCard 
-                label="Temperature" 
-                value={stats.temperature} 
-                unit="°C" 
+                label={t('stats.temperature')} 
+                value={toDisplayTemperature(stats.temperature, settings.temperatureUnit)} 
+                unit={TEMPERATURE_SYMBOLS[settings.temperatureUnit]} 
                 color="text-orange-400"
+                badge={source.kind === 'simulated' ? t('stats.simulatedBadge') : undefined}
                 icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>}
               />
               <StatCard 
-                label="Voltage" 
+                label={t('stats.voltage')} 
                 value={stats.voltage} 
                 unit="V" 
                 color="text-yellow-400"
+                badge={source.kind === 'simulated' ? t('stats.simulatedBadge') : undefined}
                 icon={<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>}
               />
             </div>
           </div>
 
-          <div className="bg-gray-900/40 border border-gray-800 rounded-3xl p-6">
-            <h3 className="text-white font-bold mb-4 flex items-center gap-2 uppercase tracking-widest text-xs opacity-60">
-              Usage History
-            </h3>
-            <div className="h-48 w-full">
-              <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={usageHistory}>
-                  <defs>
-                    <linearGradient id="colorLevel" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
-                      <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
-                    </linearGradient>
-                  </defs>
-                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1f2937" />
-                  <XAxis dataKey="time" hide />
-                  <YAxis domain={[0, 100]} hide />
-                  <Tooltip 
-                    contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: '8px' }}
-                    itemStyle={{ color: '#10b981' }}
-                  />
-                  <Area type="monotone" dataKey="level" stroke="#10b981" fillOpacity={1} fill="url(#colorLevel)" strokeWidth={3} isAnimationActive={false} />
-                </AreaChart>
-              </ResponsiveContainer>
-            </div>
-          </div>
+          <HistoryChart
+            liveHistory={usageHistory}
+            projection={projection}
+            persisted={source.kind === 'system'}
+            dataVersion={dataVersion}
+            temperatureUnit={settings.temperatureUnit}
+            events={eventLog.events}
+            anomalies={anomalyDetection.anomalies}
+          />
         </div>
 
         {/* Right Column - AI Insights & Deep Stats */}
         <div className="lg:col-span-8 space-y-8">
-          {/* AI Insight Box */}
-          <div className="bg-gradient-to-br from-indigo-900/20 to-emerald-900/20 border border-indigo-500/20 rounded-3xl p-8 backdrop-blur-xl relative overflow-hidden">
-             {/* Decorative Background Elements */}
-            <div className="absolute top-0 right-0 p-4 opacity-5">
-              <svg className="w-64 h-64" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2L4.5 20.29l.71.71L12 18l6.79 3 .71-.71z"/></svg>
-            </div>
-
-            <div className="flex flex-col md:flex-row gap-8 relative z-10">
-              <div className="flex-1">
-                <div className="flex items-center gap-2 text-indigo-400 font-bold text-xs uppercase tracking-widest mb-4">
-                  <span className="animate-pulse w-2 h-2 bg-indigo-500 rounded-full" />
-                  AI Analysis Active
-                </div>
-                
-                {loadingInsight ? (
-                  <div className="space-y-4 animate-pulse">
-                    <div className="h-8 bg-gray-800 rounded w-3/4"></div>
-                    <div className="h-24 bg-gray-800 rounded w-full"></div>
-                    <div className="space-y-2">
-                      <div className="h-4 bg-gray-800 rounded w-full"></div>
-                      <div className="h-4 bg-gray-800 rounded w-5/6"></div>
-                    </div>
-                  </div>
-                ) : insight ? (
-                  <>
-                    <h2 className="text-3xl font-bold text-white mb-2 leading-tight">
-                      {insight.status}
-                    </h2>
-                    <p className="text-lg text-indigo-100/80 mb-6 italic">
-                      "{insight.recommendation}"
-                    </p>
-                    <div className="p-4 bg-white/5 rounded-2xl border border-white/5 mb-6">
-                      <p className="text-white font-medium flex items-center gap-2">
-                        <svg className="w-5 h-5 text-emerald-400" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l5-5z" clipRule="evenodd" />
-                        </svg>
-                        {insight.estimatedLifeRemaining}
-                      </p>
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      {insight.optimizationTips.map((tip, idx) => (
-                        <div key={idx} className="bg-gray-900/60 p-4 rounded-xl border border-gray-700/50 hover:bg-gray-900/80 transition-all cursor-default group">
-                          <div className="text-emerald-400 font-bold mb-2 text-xs">TIP #{idx+1}</div>
-                          <p className="text-sm text-gray-300 group-hover:text-white transition-colors">{tip}</p>
-                        </div>
-                      ))}
-                    </div>
-                  </>
-                ) : (
-                  <div className="py-12 text-center">
-                    {!isOnline ? (
-                         <div className="flex flex-col items-center gap-2">
-                             <svg className="w-8 h-8 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" /></svg>
-                             <p className="text-gray-500">Connect to internet for AI analysis</p>
-                         </div>
-                    ) : (
-                        <p className="text-gray-500">Run Deep Analysis for core insights</p>
-                    )}
-                  </div>
-                )}
-              </div>
+          {/* AI Insight Box, with anomalies against the learned baseline beside it */}
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+            <div className="xl:col-span-2">
+              <InsightCard insight={insight} origin={insightOrigin} error={insightError} loading={loadingInsight} isOnline={isOnline} queued={analysisQueue.pending} />
             </div>
+            <AnomalyCard anomalies={anomalyDetection.anomalies} baseline={anomalyDetection.baseline} temperatureUnit={settings.temperatureUnit} />
           </div>
 
+          <ReportHistory reports={reports} onSelect={showReport} />
+
+          <AssistantPanel
+            messages={assistant.messages}
+            busy={assistant.busy}
+            configured={assistant.configured}
+            isOnline={isOnline}
+            onAsk={assistant.ask}
+            onStop={assistant.stop}
+            onClear={assistant.clear}
+          />
+
           {/* Detailed Hardware Stats */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
               <h4 className="text-white font-bold mb-6 flex items-center gap-2 text-sm uppercase tracking-widest opacity-60">
-                Charging Metrics
+                {t('metrics.title')}
               </h4>
               <ul className="space-y-4">
                 <li className="flex justify-between items-center py-2 border-b border-gray-800">
-                  <span className="text-gray-400 text-sm">Charge State</span>
+                  <span className="text-gray-400 text-sm">{t('metrics.chargeState')}</span>
                   <span className={`px-2 py-1 rounded-md text-xs font-bold uppercase ${stats.charging ? 'bg-emerald-500/10 text-emerald-400' : 'bg-gray-800 text-gray-400'}`}>
-                    {stats.charging ? 'Active' : 'Idle'}
+                    {t(stats.charging ? 'metrics.active' : 'metrics.idle')}
                   </span>
                 </li>
                 <li className="flex justify-between items-center py-2 border-b border-gray-800">
-                  <span className="text-gray-400 text-sm">Full Charge ETA</span>
-                  <span className="text-white mono">
-                    {stats.charging && stats.chargingTime !== Infinity 
-                      ? `${Math.round(stats.chargingTime / 60)} min` 
-                      : 'N/A'}
-                  </span>
+                  <span className="text-gray-400 text-sm">{t(stats.charging ? 'metrics.fullChargeEta' : 'metrics.timeToEmpty')}</span>
+                  {prediction ? (
+                    <span className="text-right">
+                      <span className="text-white mono block">{i18n.formatDuration(prediction.etaMs)}</span>
+                      <span className="text-gray-500 text-xs mono" title={t('metrics.predictionBasis', { basis: t(`metrics.basis.${prediction.basis}`), rate: prediction.ratePerHour })}>
+                        {i18n.formatDuration(prediction.lowMs)} – {i18n.formatDuration(prediction.highMs)}
+                      </span>
+                    </span>
+                  ) : (
+                    <span className="text-white mono">{t('metrics.notAvailable')}</span>
+                  )}
                 </li>
                 <li className="flex justify-between items-center py-2">
-                  <span className="text-gray-400 text-sm">Battery Health</span>
-                  <span className="text-emerald-400 font-bold">EXCELLENT</span>
+                  <span className="text-gray-400 text-sm">{t('metrics.batteryHealth')}</span>
+                  <span className={`font-bold uppercase ${GRADE_COLORS[stats.health.grade]}`}>
+                    {t(`health.grade.${stats.health.grade}`)}
+                    {stats.health.grade !== 'Unknown' && <span className="mono text-xs text-gray-500 ml-2">{stats.health.score}/100</span>}
+                  </span>
                 </li>
               </ul>
+              {stats.health.factors.length > 0 && (
+                <ul className="mt-4 space-y-2">
+                  {stats.health.factors.map(factor => (
+                    <li key={factor.id} className="text-xs flex justify-between gap-4" title={t(`health.detail.${factor.id}` as MessageKey, factor.values)}>
+                      <span className="text-gray-500">{t(`health.factor.${factor.id}` as MessageKey)}</span>
+                      <span className="text-rose-400 mono">-{factor.impact}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="mt-4 text-[10px] text-gray-600 uppercase tracking-widest">
+                {t('metrics.cyclesConfidence', {
+                  cycles: stats.health.equivalentCycles,
+                  confidence: t(`health.confidence.${stats.health.confidence}`)
+                })}
+              </p>
             </div>
 
+            <SessionsPanel sessions={sessions} />
+
+            <EnergyPanel
+              sessions={sessions}
+              config={settings.energy}
+              ratePerHour={prediction?.ratePerHour ?? null}
+              charging={stats.charging}
+              now={sampler.clock.now()}
+              onConfigure={() => setShowSettings(true)}
+            />
+
+            <EventTimeline events={eventLog.events} onClear={eventLog.clear} temperatureUnit={settings.temperatureUnit} />
+
             <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
               <h4 className="text-white font-bold mb-6 flex items-center gap-2 text-sm uppercase tracking-widest opacity-60">
-                Optimization Settings
+                {t('optimization.title')}
               </h4>
               <div className="space-y-4">
-                <div className="flex items-center justify-between p-3 bg-gray-800/30 rounded-xl border border-gray-800">
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 bg-blue-500/10 text-blue-400 rounded-full flex items-center justify-center">
-                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" /><path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" clipRule="evenodd" /></svg>
-                    </div>
-                    <span className="text-gray-200 text-sm font-medium">Smart Charge Mode</span>
-                  </div>
-                  <div className="w-10 h-5 bg-emerald-500 rounded-full relative">
-                    <div className="absolute right-1 top-1 w-3 h-3 bg-white rounded-full"></div>
-                  </div>
-                </div>
-                <div className="flex items-center justify-between p-3 bg-gray-800/30 rounded-xl border border-gray-800">
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 bg-purple-500/10 text-purple-400 rounded-full flex items-center justify-center">
-                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M3 5a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM3 10a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM3 15a1 1 0 011-1h6a1 1 0 110 2H4a1 1 0 01-1-1z" clipRule="evenodd" /></svg>
-                    </div>
-                    <span className="text-gray-200 text-sm font-medium">Deep Cycle Analysis</span>
-                  </div>
-                  <div className="w-10 h-5 bg-gray-700 rounded-full relative">
-                    <div className="absolute left-1 top-1 w-3 h-3 bg-white rounded-full"></div>
-                  </div>
-                </div>
+                <SmartChargeControl
+                  config={smartCharge}
+                  stats={computeSmartChargeStats(sessions, smartCharge)}
+                  onChange={setSmartCharge}
+                />
+                <CalibrationControl
+                  active={calibration.active}
+                  latest={calibration.latest}
+                  level={stats.level}
+                  charging={stats.charging}
+                  wakeLockHeld={wakeLockHeld}
+                  onStart={calibration.start}
+                  onAbort={calibration.abort}
+                  onAnalyze={fetchInsights}
+                />
               </div>
             </div>
+
+            <AlertsPanel
+              config={alerts.config}
+              onConfigChange={alerts.setConfig}
+              log={alerts.log}
+              onClearLog={alerts.clearLog}
+              permission={alerts.permission}
+              onRequestPermission={alerts.requestPermission}
+              temperatureUnit={settings.temperatureUnit}
+            />
+
+            <DataTransferPanel onMerged={reloadPersistedData} />
           </div>
         </div>
       </div>
+      )}
     </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,47 @@
+
+import React from 'react';
+import { AlertRuleId, BatteryAlert } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface AlertToastsProps {
+  toasts: BatteryAlert[];
+  onDismiss: (alert: BatteryAlert) => void;
+  onSnooze: (rule: AlertRuleId) => void;
+}
+
+const SEVERITY_STYLES: Record<BatteryAlert['severity'], string> = {
+  info: 'border-emerald-500/40 bg-emerald-950/90',
+  warning: 'border-amber-500/40 bg-amber-950/90',
+  critical: 'border-rose-500/40 bg-rose-950/90'
+};
+
+const AlertToasts: React.FC<AlertToastsProps> = ({ toasts, onDismiss, onSnooze }) => {
+  const { t } = useI18n();
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 left-4 sm:left-auto sm:w-96 z-50 space-y-3 safe-area-pb">
+      {toasts.map(alert => (
+        <div key={alert.createdAt} className={`border rounded-2xl p-4 shadow-xl backdrop-blur-xl ${SEVERITY_STYLES[alert.severity]}`} role="alert">
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <p className="text-white font-bold text-sm">{alert.title}</p>
+              <p className="text-gray-300 text-sm mt-1">{alert.message}</p>
+            </div>
+            <button onClick={() => onDismiss(alert)} className="text-gray-400 hover:text-white" aria-label={t('common.dismiss')}>
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+          <button
+            onClick={() => { onSnooze(alert.rule); onDismiss(alert); }}
+            className="mt-3 text-xs font-bold uppercase tracking-widest text-gray-400 hover:text-white"
+          >
+            {t('alerts.snooze')}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AlertToasts;
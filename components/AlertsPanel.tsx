@@ -0,0 +1,164 @@
+
+import React from 'react';
+import { AlertConfig, AlertRule, AlertRuleId, BatteryAlert, TemperatureUnit } from '../types';
+import { TEMPERATURE_SYMBOLS, fromDisplayTemperature, toDisplayTemperature } from '../services/units';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface AlertsPanelProps {
+  config: AlertConfig;
+  onConfigChange: (config: AlertConfig) => void;
+  log: BatteryAlert[];
+  onClearLog: () => void;
+  permission: NotificationPermission | 'unsupported';
+  onRequestPermission: () => void;
+  temperatureUnit: TemperatureUnit;
+}
+
+const RULE_LABELS: Record<AlertRuleId, { label: MessageKey; unit: string; min: number; max: number }> = {
+  lowBattery: { label: 'alerts.rule.lowBattery', unit: '%', min: 5, max: 50 },
+  chargeTarget: { label: 'alerts.rule.chargeTarget', unit: '%', min: 50, max: 100 },
+  highTemperature: { label: 'alerts.rule.highTemperature', unit: '°C', min: 30, max: 60 },
+  fastDrain: { label: 'alerts.rule.fastDrain', unit: '%/h', min: 5, max: 100 },
+  smartChargeCeiling: { label: 'alerts.rule.smartChargeCeiling', unit: '%', min: 50, max: 100 },
+  smartChargeFloor: { label: 'alerts.rule.smartChargeFloor', unit: '%', min: 5, max: 50 }
+};
+
+const SEVERITY_DOTS: Record<BatteryAlert['severity'], string> = {
+  info: 'bg-emerald-500',
+  warning: 'bg-amber-500',
+  critical: 'bg-rose-500'
+};
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({
+  config, onConfigChange, log, onClearLog, permission, onRequestPermission, temperatureUnit
+}) => {
+  const { t, formatDateTime } = useI18n();
+  const updateRule = (id: AlertRuleId, changes: Partial<AlertRule>) =>
+    onConfigChange({ ...config, rules: config.rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule) });
+
+  const updateQuietHours = (changes: Partial<AlertConfig['quietHours']>) =>
+    onConfigChange({ ...config, quietHours: { ...config.quietHours, ...changes } });
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
+      <h4 className="text-white font-bold mb-6 flex items-center gap-2 text-sm uppercase tracking-widest opacity-60">
+        {t('alerts.title')}
+      </h4>
+
+      <ul className="space-y-3">
+        {config.rules.map(rule => {
+          const meta = RULE_LABELS[rule.id];
+          // Temperature thresholds are stored in Celsius and edited in the display unit
+          const isTemperature = rule.id === 'highTemperature';
+          const toDisplay = (value: number) => isTemperature ? toDisplayTemperature(value, temperatureUnit) : value;
+          return (
+            <li key={rule.id} className="flex items-center justify-between gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="accent-emerald-500"
+                />
+                {t(meta.label)}
+              </label>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={toDisplay(meta.min)}
+                  max={toDisplay(meta.max)}
+                  value={toDisplay(rule.threshold)}
+                  disabled={!rule.enabled}
+                  onChange={(e) => updateRule(rule.id, {
+                    threshold: isTemperature ? fromDisplayTemperature(Number(e.target.value), temperatureUnit) : Number(e.target.value)
+                  })}
+                  className="w-16 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white mono disabled:opacity-40"
+                />
+                <span className="text-gray-500 text-xs w-8">{isTemperature ? TEMPERATURE_SYMBOLS[temperatureUnit] : meta.unit}</span>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="mt-6 pt-4 border-t border-gray-800 space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={config.systemNotifications && permission === 'granted'}
+              disabled={permission !== 'granted'}
+              onChange={(e) => onConfigChange({ ...config, systemNotifications: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            {t('alerts.systemNotifications')}
+          </label>
+          {permission === 'default' && (
+            <button onClick={onRequestPermission} className="text-xs font-bold uppercase tracking-widest text-emerald-400 hover:text-emerald-300">
+              {t('alerts.allow')}
+            </button>
+          )}
+          {(permission === 'denied' || permission === 'unsupported') && (
+            <span className="text-xs text-gray-500">{t(permission === 'denied' ? 'alerts.blocked' : 'alerts.unsupported')}</span>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={config.quietHours.enabled}
+              onChange={(e) => updateQuietHours({ enabled: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            {t('alerts.quietHours')}
+          </label>
+          <div className="flex items-center gap-1 text-xs text-gray-400">
+            <input
+              type="number" min={0} max={23}
+              value={config.quietHours.start}
+              onChange={(e) => updateQuietHours({ start: Number(e.target.value) })}
+              className="w-12 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white mono"
+            />
+            –
+            <input
+              type="number" min={0} max={23}
+              value={config.quietHours.end}
+              onChange={(e) => updateQuietHours({ end: Number(e.target.value) })}
+              className="w-12 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white mono"
+            />
+            h
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-gray-800">
+        <div className="flex justify-between items-center mb-3">
+          <span className="text-xs uppercase tracking-widest text-gray-500">{t('alerts.log')}</span>
+          {log.length > 0 && (
+            <button onClick={onClearLog} className="text-xs text-gray-500 hover:text-white">{t('alerts.clear')}</button>
+          )}
+        </div>
+        {log.length === 0 ? (
+          <p className="text-gray-600 text-sm">{t('alerts.empty')}</p>
+        ) : (
+          <ul className="space-y-2 max-h-48 overflow-y-auto">
+            {log.map(alert => (
+              <li key={alert.createdAt} className="flex items-start gap-2 text-xs">
+                <span className={`mt-1 w-2 h-2 rounded-full shrink-0 ${SEVERITY_DOTS[alert.severity]}`} />
+                <div>
+                  <span className="text-gray-300">{alert.title}</span>
+                  <span className="text-gray-600 mono ml-2">{formatDateTime(alert.createdAt)}</span>
+                  <p className="text-gray-500">{alert.message}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
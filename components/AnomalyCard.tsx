@@ -0,0 +1,119 @@
+
+import React from 'react';
+import { AnomalyKind, BatteryAnomaly, TemperatureUnit } from '../types';
+import { AnomalyBaseline, baselineObservations, isBaselineReady } from '../services/anomalyDetector';
+import { MessageKey, Translator } from '../services/i18n';
+import { TEMPERATURE_SYMBOLS, toDisplayTemperature } from '../services/units';
+import { useI18n } from '../hooks/useI18n';
+
+interface AnomalyCardProps {
+  anomalies: BatteryAnomaly[];
+  baseline: AnomalyBaseline;
+  temperatureUnit: TemperatureUnit;
+}
+
+const MAX_LISTED = 5;
+
+export const ANOMALY_COLORS: Record<AnomalyKind, string> = {
+  fastDrain: '#f43f5e',
+  levelJump: '#a855f7',
+  chargeStall: '#f59e0b',
+  temperature: '#fb923c'
+};
+
+const KIND_LABELS: Record<AnomalyKind, MessageKey> = {
+  fastDrain: 'anomalies.kind.fastDrain',
+  levelJump: 'anomalies.kind.levelJump',
+  chargeStall: 'anomalies.kind.chargeStall',
+  temperature: 'anomalies.kind.temperature'
+};
+
+// Which baseline slot the drain was compared against, e.g. "in the evening, screen on"
+const describeSlot = (anomaly: BatteryAnomaly, t: Translator) => {
+  const parts = [
+    anomaly.timeBlock ? t(`anomalies.block.${anomaly.timeBlock}` as MessageKey) : null,
+    anomaly.screen && anomaly.screen !== 'unknown' ? t(`anomalies.screen.${anomaly.screen}` as MessageKey) : null
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : t('anomalies.overall');
+};
+
+export const describeAnomaly = (anomaly: BatteryAnomaly, t: Translator, temperatureUnit: TemperatureUnit): string => {
+  const { observed, expected, deviation } = anomaly;
+  switch (anomaly.kind) {
+    case 'fastDrain':
+      return t('anomalies.fastDrain', {
+        observed,
+        expected: expected ?? '—',
+        ratio: expected ? (observed / expected).toFixed(1) : '—',
+        slot: describeSlot(anomaly, t),
+        deviation: deviation ?? '—'
+      });
+    case 'levelJump':
+      return t('anomalies.levelJump', {
+        from: anomaly.fromLevel ?? '—',
+        to: anomaly.level,
+        minutes: Math.max(1, Math.round((anomaly.end - anomaly.start) / 60000))
+      });
+    case 'chargeStall':
+      return expected === null
+        ? t('anomalies.chargeStallPlain', { level: anomaly.level, observed })
+        : t('anomalies.chargeStall', { level: anomaly.level, observed, expected, deviation: deviation ?? '—' });
+    case 'temperature': {
+      const format = (celsius: number) => `${toDisplayTemperature(celsius, temperatureUnit)} ${TEMPERATURE_SYMBOLS[temperatureUnit]}`;
+      return expected === null
+        ? t('anomalies.temperaturePlain', { temperature: format(observed) })
+        : t('anomalies.temperature', { temperature: format(observed), expected: format(expected), deviation: deviation ?? '—' });
+    }
+  }
+};
+
+// Recent departures from this device's own normal behaviour, newest first
+const AnomalyCard: React.FC<AnomalyCardProps> = ({ anomalies, baseline, temperatureUnit }) => {
+  const { t, formatDateTime, formatTime } = useI18n();
+  const recent = [...anomalies].sort((a, b) => b.start - a.start).slice(0, MAX_LISTED);
+  const ready = isBaselineReady(baseline);
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h4 className="text-white font-bold flex items-center gap-2 text-sm uppercase tracking-widest opacity-60">
+          {t('anomalies.title')}
+        </h4>
+        {anomalies.length > 0 && (
+          <span className="px-2 py-0.5 rounded-md bg-rose-500/10 border border-rose-500/20 text-rose-400 text-[10px] font-bold">
+            {anomalies.length}
+          </span>
+        )}
+      </div>
+
+      {!ready && (
+        <p className="text-xs text-gray-500 mb-4">
+          {t('anomalies.learning', { count: baselineObservations(baseline), needed: baseline.scale.minObservations })}
+        </p>
+      )}
+
+      {recent.length === 0 ? (
+        <p className="text-gray-500 text-sm py-4 text-center">{t(ready ? 'anomalies.empty' : 'anomalies.emptyLearning')}</p>
+      ) : (
+        <ul className="space-y-3">
+          {recent.map(anomaly => (
+            <li key={`${anomaly.kind}-${anomaly.start}`} className="flex gap-3">
+              <span className="mt-1.5 w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: ANOMALY_COLORS[anomaly.kind] }} />
+              <div>
+                <p className="text-xs font-bold uppercase tracking-wide" style={{ color: ANOMALY_COLORS[anomaly.kind] }}>
+                  {t(KIND_LABELS[anomaly.kind])}
+                </p>
+                <p className="text-sm text-gray-300">{describeAnomaly(anomaly, t, temperatureUnit)}</p>
+                <p className="text-xs text-gray-600 mono">
+                  {formatDateTime(anomaly.start)}{anomaly.end > anomaly.start ? ` – ${formatTime(anomaly.end)}` : ''}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AnomalyCard;
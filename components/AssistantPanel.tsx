@@ -0,0 +1,142 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AssistantCitation, AssistantMessage, AssistantRangeReason } from '../types';
+import { MessageKey } from '../services/i18n';
+import { describeInsightError } from '../services/insightProvider';
+import { useI18n } from '../hooks/useI18n';
+
+interface AssistantPanelProps {
+  messages: AssistantMessage[];
+  busy: boolean;
+  configured: boolean;
+  isOnline: boolean;
+  onAsk: (question: string) => void;
+  onStop: () => void;
+  onClear: () => void;
+}
+
+const SUGGESTIONS: MessageKey[] = ['assistant.suggestion.drain', 'assistant.suggestion.habits', 'assistant.suggestion.yesterday'];
+
+const REASON_LABELS: Record<AssistantRangeReason, MessageKey> = {
+  asked: 'assistant.reason.asked',
+  recent: 'assistant.reason.recent',
+  habits: 'assistant.reason.habits'
+};
+
+// Citation markers such as [R2] are highlighted where the reply uses them
+const ReplyText: React.FC<{ content: string }> = ({ content }) => (
+  <p className="text-sm text-gray-200 whitespace-pre-wrap leading-relaxed">
+    {content.split(/(\[R\d+\])/).map((part, index) => /^\[R\d+\]$/.test(part)
+      ? <span key={index} className="mono text-[10px] text-indigo-300 bg-indigo-500/10 rounded px-1">{part.slice(1, -1)}</span>
+      : <React.Fragment key={index}>{part}</React.Fragment>)}
+  </p>
+);
+
+const Citation: React.FC<{ citation: AssistantCitation }> = ({ citation }) => {
+  const { t, formatDateTime } = useI18n();
+  return (
+    <li className="text-[10px] text-gray-500 mono" title={t(REASON_LABELS[citation.reason])}>
+      <span className="text-indigo-300">{citation.id}</span> {formatDateTime(citation.from)} – {formatDateTime(citation.to)}
+    </li>
+  );
+};
+
+const AssistantPanel: React.FC<AssistantPanelProps> = ({ messages, busy, configured, isOnline, onAsk, onStop, onClear }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+  const available = configured && isOnline;
+
+  // Follow the streaming reply
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages]);
+
+  const submit = (question: string) => {
+    if (!question.trim() || busy || !available) return;
+    onAsk(question);
+    setDraft('');
+  };
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h4 className="text-white font-bold flex items-center gap-2 text-sm uppercase tracking-widest opacity-60">
+          {t('assistant.title')}
+        </h4>
+        {messages.length > 0 && (
+          <button onClick={onClear} className="text-xs text-gray-500 hover:text-white">{t('assistant.clear')}</button>
+        )}
+      </div>
+
+      {!available && (
+        <p className="text-xs text-amber-400/80 mb-4">{t(configured ? 'assistant.offline' : 'assistant.notConfigured')}</p>
+      )}
+
+      <div ref={listRef} className="max-h-96 overflow-y-auto space-y-4 mb-4">
+        {messages.length === 0 ? (
+          <div className="space-y-2">
+            <p className="text-gray-500 text-sm">{t('assistant.empty')}</p>
+            <div className="flex flex-wrap gap-2">
+              {SUGGESTIONS.map(key => (
+                <button
+                  key={key}
+                  onClick={() => submit(t(key))}
+                  disabled={!available}
+                  className="px-2 py-1 rounded-md text-xs bg-gray-800/50 text-gray-400 hover:text-white disabled:opacity-50"
+                >
+                  {t(key)}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : messages.map(message => message.role === 'user' ? (
+          <div key={message.id} className="flex justify-end">
+            <p className="max-w-[80%] text-sm text-white bg-indigo-600/30 border border-indigo-500/20 rounded-xl px-3 py-2">{message.content}</p>
+          </div>
+        ) : (
+          <div key={message.id} className="max-w-[90%]">
+            {message.content && <ReplyText content={message.content} />}
+            {message.status === 'streaming' && (
+              <span className="inline-block w-2 h-4 bg-indigo-400 animate-pulse align-middle" aria-label={t('assistant.thinking')} />
+            )}
+            {message.status === 'error' && (
+              <p className="text-xs text-rose-400/80" title={message.error && describeInsightError(message.error, t)}>
+                {t('assistant.error', { kind: message.error?.kind ?? 'provider' })}
+              </p>
+            )}
+            {message.citations.length > 0 && (
+              <ul className="mt-2 space-y-0.5">
+                {message.citations.map(citation => <Citation key={citation.id} citation={citation} />)}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); submit(draft); }}
+        className="flex gap-2"
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={t('assistant.placeholder')}
+          disabled={!available}
+          className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white disabled:opacity-50"
+        />
+        {busy ? (
+          <button type="button" onClick={onStop} className="px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-xs font-bold border border-gray-700">
+            {t('assistant.stop')}
+          </button>
+        ) : (
+          <button type="submit" disabled={!available || !draft.trim()} className="px-3 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold disabled:opacity-50">
+            {t('assistant.send')}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default AssistantPanel;
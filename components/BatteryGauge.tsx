@@ -1,21 +1,25 @@
 
 import React from 'react';
+import { useI18n } from '../hooks/useI18n';
 
 interface BatteryGaugeProps {
   level: number;
   charging: boolean;
+  targetBand?: { floor: number; ceiling: number };
+  thresholds?: { low: number; high: number };
 }
 
-const BatteryGauge: React.FC<BatteryGaugeProps> = ({ level, charging }) => {
+const BatteryGauge: React.FC<BatteryGaugeProps> = ({ level, charging, targetBand, thresholds = { low: 20, high: 60 } }) => {
+  const { t } = useI18n();
   const getColor = (lvl: number) => {
-    if (lvl > 60) return 'bg-emerald-500';
-    if (lvl > 20) return 'bg-amber-500';
+    if (lvl > thresholds.high) return 'bg-emerald-500';
+    if (lvl > thresholds.low) return 'bg-amber-500';
     return 'bg-rose-500';
   };
 
   const getShadow = (lvl: number) => {
-    if (lvl > 60) return 'shadow-[0_0_20px_rgba(16,185,129,0.4)]';
-    if (lvl > 20) return 'shadow-[0_0_20px_rgba(245,158,11,0.4)]';
+    if (lvl > thresholds.high) return 'shadow-[0_0_20px_rgba(16,185,129,0.4)]';
+    if (lvl > thresholds.low) return 'shadow-[0_0_20px_rgba(245,158,11,0.4)]';
     return 'shadow-[0_0_20px_rgba(244,63,94,0.4)]';
   };
 
@@ -25,6 +29,14 @@ const BatteryGauge: React.FC<BatteryGaugeProps> = ({ level, charging }) => {
         {/* Battery Tip */}
         <div className="absolute -top-3 left-1/2 -translate-x-1/2 w-10 h-3 bg-gray-700 rounded-t-lg"></div>
         
+        {/* Smart charge target band */}
+        {targetBand && (
+          <div
+            className="absolute left-0 right-0 border-y border-dashed border-sky-400/60 bg-sky-400/5 pointer-events-none z-10"
+            style={{ bottom: `${targetBand.floor}%`, height: `${targetBand.ceiling - targetBand.floor}%` }}
+          />
+        )}
+
         {/* Liquid Fill */}
         <div 
           className={`w-full rounded-xl transition-all duration-1000 ease-in-out ${getColor(level)} ${getShadow(level)}`}
@@ -42,8 +54,11 @@ const BatteryGauge: React.FC<BatteryGaugeProps> = ({ level, charging }) => {
       <div className="mt-6 text-center">
         <span className="text-6xl font-bold tracking-tighter mono">{level}%</span>
         <p className="text-gray-400 font-medium uppercase text-sm tracking-widest mt-1">
-          {charging ? 'Charging' : 'Discharging'}
+          {t(charging ? 'gauge.charging' : 'gauge.discharging')}
         </p>
+        {targetBand && (
+          <p className="text-sky-400/80 text-xs mono mt-1">{t('gauge.target', targetBand)}</p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,162 @@
+
+import React, { useState } from 'react';
+import { Line, LineChart, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { CalibrationRun, CalibrationStep } from '../types';
+import { CALIBRATION_FLOORS, DEFAULT_CALIBRATION_FLOOR, stepProgress } from '../services/calibration';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface CalibrationControlProps {
+  active: CalibrationRun | null;
+  latest: CalibrationRun | null; // Most recent completed run
+  level: number;
+  charging: boolean;
+  wakeLockHeld: boolean;
+  onStart: (floor: number) => void;
+  onAbort: () => void;
+  onAnalyze: () => void;
+}
+
+const STEPS: CalibrationStep[] = ['charge', 'discharge', 'recharge'];
+
+// What the user has to do next, given where the run is
+const instructionKey = (run: CalibrationRun, level: number, charging: boolean): MessageKey => {
+  switch (run.step) {
+    case 'charge':
+      if (level < 100) return 'calibration.todo.charge';
+      return charging ? 'calibration.todo.unplug' : 'calibration.todo.starting';
+    case 'discharge':
+      return charging ? 'calibration.todo.keepUnplugged' : 'calibration.todo.discharge';
+    default:
+      return charging ? 'calibration.todo.recharge' : 'calibration.todo.plugIn';
+  }
+};
+
+const Curve: React.FC<{ run: CalibrationRun }> = ({ run }) => {
+  const data = [...run.discharge, ...run.recharge].map(({ timestamp, level }) => ({ timestamp, level }));
+  if (data.length < 2) return null;
+  return (
+    <div className="h-24">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <XAxis dataKey="timestamp" type="number" domain={['dataMin', 'dataMax']} hide />
+          <YAxis domain={[0, 100]} hide />
+          <Line type="monotone" dataKey="level" stroke="#a78bfa" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+const CalibrationReportView: React.FC<{ run: CalibrationRun; onAnalyze: () => void }> = ({ run, onAnalyze }) => {
+  const { t, formatDateTime, formatDuration } = useI18n();
+  const report = run.report!;
+  const rows: Array<[string, string]> = [
+    [
+      t('calibration.capacity'),
+      report.relativeCapacity === null ? t('calibration.baseline') : t('calibration.capacityValue', {
+        percent: Math.round(report.relativeCapacity * 100), runs: report.previousRuns
+      })
+    ],
+    [t('calibration.discharge'), `${formatDuration(report.dischargeDurationMs)} · ${report.dischargeRatePerHour}%/h`],
+    [t('calibration.linearity'), `R² ${report.linearity}`],
+    [t('calibration.taper'), report.taperStartLevel === null ? '—' : `${report.taperStartLevel}%`],
+    [t('calibration.recharge'), formatDuration(report.rechargeDurationMs)]
+  ];
+
+  return (
+    <div className="mt-4 space-y-2 pt-3 border-t border-gray-800">
+      <p className="text-[10px] uppercase tracking-widest text-gray-500">{t('calibration.lastRun', { date: formatDateTime(run.startedAt) })}</p>
+      <Curve run={run} />
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between text-xs">
+          <span className="text-gray-500">{label}</span>
+          <span className="mono text-gray-300">{value}</span>
+        </div>
+      ))}
+      {report.anomalies.length === 0 ? (
+        <p className="text-xs text-emerald-400">{t('calibration.noAnomalies')}</p>
+      ) : (
+        <ul className="space-y-1">
+          {report.anomalies.map(anomaly => (
+            <li key={`${anomaly.kind}-${anomaly.timestamp}`} className="text-xs text-amber-400">
+              {t(`calibration.anomaly.${anomaly.kind}` as MessageKey, { level: anomaly.level })}
+            </li>
+          ))}
+        </ul>
+      )}
+      <button onClick={onAnalyze} className="w-full mt-2 px-3 py-2 rounded-lg bg-purple-600/80 hover:bg-purple-500 text-white text-xs font-bold">
+        {t('calibration.analyze')}
+      </button>
+    </div>
+  );
+};
+
+const CalibrationControl: React.FC<CalibrationControlProps> = ({
+  active, latest, level, charging, wakeLockHeld, onStart, onAbort, onAnalyze
+}) => {
+  const { t } = useI18n();
+  const [floor, setFloor] = useState(DEFAULT_CALIBRATION_FLOOR);
+
+  return (
+    <div className="p-3 bg-gray-800/30 rounded-xl border border-gray-800">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 bg-purple-500/10 text-purple-400 rounded-full flex items-center justify-center">
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M3 5a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM3 10a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM3 15a1 1 0 011-1h6a1 1 0 110 2H4a1 1 0 01-1-1z" clipRule="evenodd" /></svg>
+          </div>
+          <span className="text-gray-200 text-sm font-medium">{t('optimization.deepCycle')}</span>
+        </div>
+        {active ? (
+          <button onClick={onAbort} className="text-xs font-bold text-gray-500 hover:text-rose-400">{t('calibration.abort')}</button>
+        ) : (
+          <div className="flex items-center gap-2">
+            <select
+              value={floor}
+              onChange={(e) => setFloor(Number(e.target.value))}
+              title={t('calibration.floor')}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white mono text-xs"
+            >
+              {CALIBRATION_FLOORS.map(value => <option key={value} value={value}>{value}%</option>)}
+            </select>
+            <button onClick={() => onStart(floor)} className="px-3 py-1 rounded-lg bg-purple-600/80 hover:bg-purple-500 text-white text-xs font-bold">
+              {t('calibration.start')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {active ? (
+        <div className="mt-4 space-y-3">
+          <ol className="flex gap-2">
+            {STEPS.map((step, index) => {
+              const current = STEPS.indexOf(active.step);
+              return (
+                <li
+                  key={step}
+                  className={`flex-1 text-center text-[10px] uppercase tracking-widest py-1 rounded-md ${index < current ? 'bg-purple-500/20 text-purple-300' : index === current ? 'bg-gray-700 text-white' : 'bg-gray-800/50 text-gray-600'}`}
+                >
+                  {t(`calibration.step.${step}` as MessageKey)}
+                </li>
+              );
+            })}
+          </ol>
+          <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+            <div className="h-full bg-purple-500 transition-all" style={{ width: `${Math.round(stepProgress(active, level) * 100)}%` }} />
+          </div>
+          <p className="text-xs text-gray-300">{t(instructionKey(active, level, charging), { floor: active.floor })}</p>
+          {active.step === 'discharge' && !wakeLockHeld && (
+            <p className="text-xs text-amber-400">{t('calibration.wakeLockMissing')}</p>
+          )}
+          <Curve run={active} />
+        </div>
+      ) : (
+        <p className="mt-3 text-xs text-gray-500">{t('calibration.intro')}</p>
+      )}
+
+      {!active && latest?.report && <CalibrationReportView run={latest} onAnalyze={onAnalyze} />}
+    </div>
+  );
+};
+
+export default CalibrationControl;
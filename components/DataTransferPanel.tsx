@@ -0,0 +1,166 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { DataBundle } from '../types';
+import {
+  CsvKind, DataTransferError, DatasetSummary, createBundle, createCsv, downloadFile, mergeBundle, parseBundle, summarizeBundle
+} from '../services/dataTransfer';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface DataTransferPanelProps {
+  onMerged: () => void;
+}
+
+type ImportMode = 'merge' | 'compare';
+
+const CSV_LABELS: Record<CsvKind, MessageKey> = {
+  history: 'data.csv.history',
+  sessions: 'data.csv.sessions',
+  reports: 'data.csv.reports'
+};
+
+const dateStamp = () => new Date().toISOString().slice(0, 10);
+
+const formatMetric = (value: number | null, unit = '') => value === null ? '—' : `${value}${unit}`;
+
+const ComparisonTable: React.FC<{ local: DatasetSummary; imported: DatasetSummary }> = ({ local, imported }) => {
+  const { t } = useI18n();
+  const rows: Array<[string, string, string]> = [
+    [t('data.row.days'), String(local.spanDays), String(imported.spanDays)],
+    [t('data.row.health'), formatMetric(local.healthScore), formatMetric(imported.healthScore)],
+    [t('data.row.cycles'), String(local.sessions.equivalentCycles), String(imported.sessions.equivalentCycles)],
+    [t('data.row.dischargeRate'), formatMetric(local.sessions.averageDischargeRate, '%/h'), formatMetric(imported.sessions.averageDischargeRate, '%/h')],
+    [t('data.row.chargeRate'), formatMetric(local.sessions.averageChargeRate, '%/h'), formatMetric(imported.sessions.averageChargeRate, '%/h')],
+    [t('data.row.depth'), formatMetric(local.sessions.averageDepthOfDischarge, '%'), formatMetric(imported.sessions.averageDepthOfDischarge, '%')],
+    [t('data.row.chargesToFull'), String(local.sessions.chargesToFull), String(imported.sessions.chargesToFull)],
+    [t('data.row.overnight'), String(local.sessions.overnightCharges), String(imported.sessions.overnightCharges)]
+  ];
+
+  return (
+    <table className="w-full text-xs mt-4">
+      <thead>
+        <tr className="text-gray-500 uppercase tracking-widest">
+          <th className="text-left font-medium py-2"></th>
+          <th className="text-right font-medium py-2">{t('data.thisDevice')}</th>
+          <th className="text-right font-medium py-2 truncate max-w-[8rem]" title={imported.label}>{t('data.importedColumn')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([label, a, b]) => (
+          <tr key={label} className="border-t border-gray-800">
+            <td className="py-2 text-gray-400">{label}</td>
+            <td className="py-2 text-right mono text-white">{a}</td>
+            <td className={`py-2 text-right mono ${a === b ? 'text-white' : 'text-sky-300'}`}>{b}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const DataTransferPanel: React.FC<DataTransferPanelProps> = ({ onMerged }) => {
+  const { t } = useI18n();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<DataBundle | null>(null);
+  const [summaries, setSummaries] = useState<{ local: DatasetSummary; imported: DatasetSummary } | null>(null);
+
+  useEffect(() => {
+    if (!comparison) {
+      setSummaries(null);
+      return;
+    }
+    createBundle()
+      .then(local => setSummaries({ local: summarizeBundle(local), imported: summarizeBundle(comparison) }))
+      .catch(err => setMessage(t('data.localLoadError', { message: err instanceof Error ? err.message : String(err) })));
+  }, [comparison, t]);
+
+  const run = async (task: () => Promise<string | void>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await task();
+      if (result) setMessage(result);
+    } catch (err) {
+      if (err instanceof DataTransferError) setMessage(t(`data.error.${err.code}` as MessageKey, err.params));
+      else setMessage(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportJson = () => run(async () => {
+    const bundle = await createBundle();
+    downloadFile(`batterycore-${dateStamp()}.json`, JSON.stringify(bundle), 'application/json');
+  });
+
+  const exportCsv = (kind: CsvKind) => run(async () => {
+    downloadFile(`batterycore-${kind}-${dateStamp()}.csv`, await createCsv(kind), 'text/csv');
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      const bundle = parseBundle(await file.text());
+      if (mode === 'compare') {
+        setComparison({ ...bundle, deviceLabel: bundle.deviceLabel || file.name });
+        return;
+      }
+      await mergeBundle(bundle);
+      onMerged();
+      return t('data.imported', { samples: bundle.samples.length, sessions: bundle.sessions.length, reports: bundle.reports.length });
+    });
+  };
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
+      <h4 className="text-white font-bold mb-6 flex items-center gap-2 text-sm uppercase tracking-widest opacity-60">
+        {t('data.title')}
+      </h4>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={exportJson} disabled={busy} className="px-3 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-white text-xs font-bold disabled:opacity-50">
+          {t('data.exportJson')}
+        </button>
+        {(['history', 'sessions', 'reports'] as CsvKind[]).map(kind => (
+          <button key={kind} onClick={() => exportCsv(kind)} disabled={busy} className="px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-xs font-bold border border-gray-700 disabled:opacity-50">
+            {t('data.exportCsv', { kind: t(CSV_LABELS[kind]) })}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-gray-800 flex items-center justify-between gap-2">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as ImportMode)}
+          className="bg-gray-800 border border-gray-700 text-gray-200 text-xs rounded-lg px-2 py-2"
+        >
+          <option value="merge">{t('data.mode.merge')}</option>
+          <option value="compare">{t('data.mode.compare')}</option>
+        </select>
+        <button onClick={() => fileInput.current?.click()} disabled={busy} className="px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-xs font-bold border border-gray-700 disabled:opacity-50">
+          {t('data.import')}
+        </button>
+        <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+
+      {message && <p className="mt-3 text-xs text-gray-400">{message}</p>}
+
+      {comparison && (
+        <div className="mt-4">
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-sky-300 truncate">{t('data.comparing', { label: comparison.deviceLabel })}</span>
+            <button onClick={() => setComparison(null)} className="text-xs text-gray-500 hover:text-white">{t('common.close')}</button>
+          </div>
+          {summaries && <ComparisonTable local={summaries.local} imported={summaries.imported} />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataTransferPanel;
@@ -0,0 +1,137 @@
+
+import React from 'react';
+import { BatterySession, EnergyConfig } from '../types';
+import { EnergyFigures, isEnergyConfigured, ratePerHourToWatts, sessionEnergy, summarizeEnergy } from '../services/energy';
+import { createEnergyCsv, downloadFile } from '../services/dataTransfer';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface EnergyPanelProps {
+  sessions: BatterySession[];
+  config: EnergyConfig;
+  ratePerHour: number | null; // Current charge or drain rate from the prediction, in %/h
+  charging: boolean;
+  now: number;
+  onConfigure: () => void;
+}
+
+const RECENT_SESSIONS = 5;
+
+type Period = 'lastHour' | 'lastDay' | 'dailyAverage';
+
+const PERIOD_LABELS: Record<Period, MessageKey> = {
+  lastHour: 'energy.lastHour',
+  lastDay: 'energy.lastDay',
+  dailyAverage: 'energy.dailyAverage'
+};
+
+const EnergyPanel: React.FC<EnergyPanelProps> = ({ sessions, config, ratePerHour, charging, now, onConfigure }) => {
+  const { t, formatNumber, formatWeekdayTime } = useI18n();
+
+  const header = (
+    <h4 className="text-white font-bold flex items-center gap-2 text-sm uppercase tracking-widest opacity-60">
+      {t('energy.title')}
+    </h4>
+  );
+
+  if (!isEnergyConfigured(config)) {
+    return (
+      <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
+        <div className="mb-4">{header}</div>
+        <p className="text-gray-500 text-sm mb-4">{t('energy.unconfigured')}</p>
+        <button onClick={onConfigure} className="px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-xs font-bold border border-gray-700">
+          {t('energy.configure')}
+        </button>
+      </div>
+    );
+  }
+
+  const summary = summarizeEnergy(sessions, config, now);
+  const recent = [...sessions].sort((a, b) => b.start - a.start).slice(0, RECENT_SESSIONS);
+
+  const wh = (value: number) => `${formatNumber(value, { maximumFractionDigits: value < 10 ? 2 : 1 })} Wh`;
+  const cost = (value: number | null) =>
+    value === null ? '—' : formatNumber(value, { style: 'currency', currency: config.currency, maximumFractionDigits: 3 });
+  const co2 = (value: number | null) => value === null ? '—' : `${formatNumber(value, { maximumFractionDigits: 1 })} g`;
+
+  const rows: Array<[string, (figures: EnergyFigures) => string]> = [
+    [t('energy.consumed'), figures => wh(figures.consumedWh)],
+    [t('energy.charged'), figures => wh(figures.chargedWh)],
+    [t('energy.fromWall'), figures => wh(figures.wallWh)],
+    [t('energy.cost'), figures => cost(figures.cost)],
+    [t('energy.co2'), figures => co2(figures.co2Grams)]
+  ];
+
+  const exportCsv = () => downloadFile(
+    `batterycore-energy-${new Date(now).toISOString().slice(0, 10)}.csv`,
+    createEnergyCsv(sessions, config),
+    'text/csv'
+  );
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
+      <div className="flex justify-between items-center mb-6">
+        {header}
+        {ratePerHour !== null && (
+          <span className="text-xs text-gray-500 mono">
+            {t(charging ? 'energy.powerIn' : 'energy.powerOut', {
+              watts: formatNumber(ratePerHourToWatts(ratePerHour, config), { maximumFractionDigits: 2 })
+            })}
+          </span>
+        )}
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500 uppercase tracking-widest">
+            <th className="text-left font-normal pb-2"></th>
+            {(Object.keys(PERIOD_LABELS) as Period[]).map(period => (
+              <th key={period} className="text-right font-normal pb-2">{t(PERIOD_LABELS[period])}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(([label, format]) => (
+            <tr key={label} className="border-t border-gray-800">
+              <td className="py-2 text-gray-400">{label}</td>
+              {(Object.keys(PERIOD_LABELS) as Period[]).map(period => (
+                <td key={period} className="py-2 text-right text-white mono">{format(summary[period])}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-[10px] text-gray-600 mt-2">{t('energy.averageBasis', { days: summary.averageDays })}</p>
+
+      {recent.length > 0 && (
+        <ul className="mt-6 space-y-2">
+          {recent.map(session => {
+            const energy = sessionEnergy(session, config);
+            return (
+              <li key={session.start} className="flex justify-between items-center text-xs">
+                <span className="flex items-center gap-2 text-gray-400">
+                  <span className={`w-2 h-2 rounded-full ${session.kind === 'charge' ? 'bg-emerald-500' : 'bg-amber-500'}`} />
+                  {formatWeekdayTime(session.start)}
+                </span>
+                <span className="text-white mono">
+                  {wh(energy.energyWh)} · {formatNumber(Math.round(energy.chargeMAh))} mAh
+                  {energy.cost !== null && <span className="text-gray-500"> · {cost(energy.cost)}</span>}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <button
+        onClick={exportCsv}
+        disabled={sessions.length === 0}
+        className="mt-6 px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-xs font-bold border border-gray-700 disabled:opacity-50"
+      >
+        {t('energy.export')}
+      </button>
+    </div>
+  );
+};
+
+export default EnergyPanel;
@@ -0,0 +1,126 @@
+
+import React, { useState } from 'react';
+import { BatteryEvent, TemperatureUnit } from '../types';
+import { EVENT_CATEGORIES, EventCategory } from '../services/eventLog';
+import { MessageKey, Translator } from '../services/i18n';
+import { TEMPERATURE_SYMBOLS, toDisplayTemperature } from '../services/units';
+import { useI18n } from '../hooks/useI18n';
+
+interface EventTimelineProps {
+  events: BatteryEvent[];
+  onClear: () => void;
+  temperatureUnit: TemperatureUnit;
+}
+
+type EventFilter = 'all' | EventCategory;
+
+const PAGE_SIZE = 8;
+
+const FILTER_LABELS: Record<EventFilter, MessageKey> = {
+  all: 'events.filter.all',
+  power: 'events.filter.power',
+  level: 'events.filter.level',
+  temperature: 'events.filter.temperature',
+  app: 'events.filter.app',
+  analysis: 'events.filter.analysis'
+};
+
+export const CATEGORY_COLORS: Record<EventCategory, string> = {
+  power: '#10b981',
+  level: '#38bdf8',
+  temperature: '#fb923c',
+  app: '#9ca3af',
+  analysis: '#818cf8'
+};
+
+export const describeEvent = (event: BatteryEvent, t: Translator, temperatureUnit: TemperatureUnit): string => {
+  switch (event.kind) {
+    case 'plugged':
+      return t('events.plugged', { level: event.level ?? '—' });
+    case 'unplugged':
+      return t('events.unplugged', { level: event.level ?? '—' });
+    case 'levelCrossed':
+      return t(event.direction === 'down' ? 'events.levelDown' : 'events.levelUp', { mark: event.value ?? '—' });
+    case 'temperatureSpike':
+      return t('events.temperatureSpike', {
+        temperature: `${toDisplayTemperature(event.value ?? null, temperatureUnit)} ${TEMPERATURE_SYMBOLS[temperatureUnit]}`
+      });
+    case 'sourceChanged':
+      return t('events.sourceChanged', { label: event.detail ?? '' });
+    case 'offline':
+      return t('events.offline');
+    case 'online':
+      return t('events.online');
+    case 'wakeLockAcquired':
+      return t('events.wakeLockAcquired');
+    case 'wakeLockLost':
+      return t('events.wakeLockLost');
+    case 'analysis':
+      return t(event.origin === 'local' ? 'events.analysisLocal' : 'events.analysisAi', { status: event.detail ?? '' });
+    case 'calibration':
+      return t('events.calibration', { step: t(`calibration.step.${event.detail}` as MessageKey) });
+  }
+};
+
+const EventTimeline: React.FC<EventTimelineProps> = ({ events, onClear, temperatureUnit }) => {
+  const { t, formatDateTime } = useI18n();
+  const [filter, setFilter] = useState<EventFilter>('all');
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  const filtered = events
+    .filter(event => filter === 'all' || EVENT_CATEGORIES[event.kind] === filter)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h4 className="text-white font-bold flex items-center gap-2 text-sm uppercase tracking-widest opacity-60">
+          {t('events.title')}
+        </h4>
+        {events.length > 0 && (
+          <button onClick={onClear} className="text-xs text-gray-500 hover:text-white">{t('alerts.clear')}</button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(Object.keys(FILTER_LABELS) as EventFilter[]).map(option => (
+          <button
+            key={option}
+            onClick={() => { setFilter(option); setVisible(PAGE_SIZE); }}
+            className={`px-2 py-1 rounded-md text-xs font-bold uppercase transition-colors ${filter === option ? 'bg-gray-700 text-white' : 'bg-gray-800/50 text-gray-500 hover:text-gray-300'}`}
+          >
+            {t(FILTER_LABELS[option])}
+          </button>
+        ))}
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="text-gray-500 text-sm py-4 text-center">{t('events.empty')}</p>
+      ) : (
+        <ol className="relative border-l border-gray-800 ml-2 space-y-3">
+          {filtered.slice(0, visible).map(event => (
+            <li key={event.timestamp} className="ml-4">
+              <span
+                className="absolute -left-1 mt-1.5 w-2 h-2 rounded-full"
+                style={{ backgroundColor: CATEGORY_COLORS[EVENT_CATEGORIES[event.kind]] }}
+              />
+              <p className="text-sm text-gray-300">{describeEvent(event, t, temperatureUnit)}</p>
+              <p className="text-xs text-gray-600 mono">{formatDateTime(event.timestamp)}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {filtered.length > visible && (
+        <button
+          onClick={() => setVisible(v => v + PAGE_SIZE)}
+          className="mt-4 w-full text-xs text-gray-400 hover:text-white uppercase tracking-widest"
+        >
+          {t('common.showMore')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default EventTimeline;
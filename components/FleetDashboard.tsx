@@ -0,0 +1,176 @@
+
+import React, { useEffect, useState } from 'react';
+import { FleetDevice } from '../types';
+import { fetchFleet } from '../services/relayClient';
+import { I18n, MessageKey } from '../services/i18n';
+import { useFleetSync } from '../hooks/useFleetSync';
+import { useI18n } from '../hooks/useI18n';
+import FleetDeviceDetail from './FleetDeviceDetail';
+
+interface FleetDashboardProps {
+  fleet: ReturnType<typeof useFleetSync>;
+}
+
+const REFRESH_MS = 30 * 1000;
+const STALE_MS = 5 * 60 * 1000; // Devices silent for longer are shown as offline
+
+const formatLastSeen = ({ t, formatDate }: I18n, timestamp: number | null, now: number) => {
+  if (timestamp === null) return t('fleet.lastSeen.never');
+  const minutes = Math.round((now - timestamp) / 60000);
+  if (minutes < 1) return t('fleet.lastSeen.now');
+  if (minutes < 60) return t('fleet.lastSeen.minutes', { count: minutes });
+  if (minutes < 24 * 60) return t('fleet.lastSeen.hours', { count: Math.round(minutes / 60) });
+  return formatDate(timestamp);
+};
+
+const levelColor = (level: number) =>
+  level > 60 ? 'bg-emerald-500' : level > 20 ? 'bg-amber-500' : 'bg-rose-500';
+
+const PairingForm: React.FC<FleetDashboardProps> = ({ fleet }) => {
+  const { t } = useI18n();
+  const [url, setUrl] = useState(fleet.config.url);
+  const [deviceName, setDeviceName] = useState(fleet.config.deviceName);
+  const [pairingCode, setPairingCode] = useState('');
+  const [pairing, setPairing] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPairing(true);
+    await fleet.pair(url.trim(), deviceName.trim(), pairingCode.trim());
+    setPairing(false);
+  };
+
+  const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white';
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <input value={url} onChange={(e) => setUrl(e.target.value)} placeholder={t('fleet.relayUrl')} className={`${inputClass} mono`} required />
+      <input value={deviceName} onChange={(e) => setDeviceName(e.target.value)} placeholder={t('fleet.deviceName')} className={inputClass} required />
+      <input value={pairingCode} onChange={(e) => setPairingCode(e.target.value)} placeholder={t('fleet.pairingCode')} className={`${inputClass} mono`} required />
+      <button
+        type="submit"
+        disabled={pairing}
+        className="w-full bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-800 disabled:text-gray-500 text-white rounded-xl py-2 text-sm font-semibold transition-colors"
+      >
+        {t(pairing ? 'fleet.pairing' : 'fleet.pair')}
+      </button>
+    </form>
+  );
+};
+
+const FleetDashboard: React.FC<FleetDashboardProps> = ({ fleet }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [devices, setDevices] = useState<FleetDevice[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const { config, paired } = fleet;
+
+  useEffect(() => {
+    if (!paired) {
+      setDevices([]);
+      return;
+    }
+    const refresh = () => fetchFleet(config)
+      .then(list => {
+        setDevices(list.sort((a, b) => a.name.localeCompare(b.name)));
+        setLoadError(null);
+        setNow(Date.now());
+      })
+      .catch(err => setLoadError(err.message));
+
+    refresh();
+    const refreshInterval = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(refreshInterval);
+  }, [config, paired]);
+
+  const selected = devices.find(device => device.id === selectedId) ?? null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      <div className="lg:col-span-4">
+        <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
+          <h4 className="text-white font-bold mb-6 text-sm uppercase tracking-widest opacity-60">{t('fleet.thisDevice')}</h4>
+          {paired ? (
+            <div className="space-y-3 text-sm">
+              <div className="flex justify-between"><span className="text-gray-400">{t('fleet.name')}</span><span className="text-white">{config.deviceName}</span></div>
+              <div className="flex justify-between gap-4"><span className="text-gray-400">{t('fleet.relay')}</span><span className="text-white mono truncate">{config.url}</span></div>
+              <div className="flex justify-between"><span className="text-gray-400">{t('fleet.lastPush')}</span><span className="text-white mono">{formatLastSeen(i18n, fleet.lastPush, Date.now())}</span></div>
+              <button onClick={fleet.unpair} className="mt-2 text-xs font-bold uppercase tracking-widest text-gray-500 hover:text-rose-400">
+                {t('fleet.unpair')}
+              </button>
+            </div>
+          ) : (
+            <PairingForm fleet={fleet} />
+          )}
+          {paired && !fleet.syncing && <p className="mt-4 text-xs text-amber-400/80">{t('fleet.paused')}</p>}
+          {fleet.error && <p className="mt-4 text-xs text-rose-400/80">{fleet.error}</p>}
+        </div>
+      </div>
+
+      <div className="lg:col-span-8 space-y-8">
+        <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h4 className="text-white font-bold text-sm uppercase tracking-widest opacity-60">{t('fleet.title')}</h4>
+            <span className="text-xs text-gray-500 mono">{t('fleet.deviceCount', { count: devices.length })}</span>
+          </div>
+
+          {!paired ? (
+            <p className="text-gray-500 text-sm py-4 text-center">{t('fleet.notPaired')}</p>
+          ) : loadError ? (
+            <p className="text-rose-400/80 text-sm py-4 text-center">{loadError}</p>
+          ) : devices.length === 0 ? (
+            <p className="text-gray-500 text-sm py-4 text-center">{t('fleet.noDevices')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-800">
+              {devices.map(device => {
+                const online = device.lastSeen !== null && now - device.lastSeen < STALE_MS;
+                return (
+                  <li key={device.id}>
+                    <button
+                      onClick={() => setSelectedId(device.id === selectedId ? null : device.id)}
+                      className={`w-full grid grid-cols-12 items-center gap-3 py-3 px-2 rounded-lg text-left transition-colors ${device.id === selectedId ? 'bg-gray-800/50' : 'hover:bg-gray-800/30'}`}
+                    >
+                      <span className="col-span-4 flex items-center gap-2 text-sm text-white truncate">
+                        <span className={`w-2 h-2 rounded-full shrink-0 ${online ? 'bg-emerald-500' : 'bg-gray-600'}`} />
+                        {device.name}
+                        {device.id === config.deviceId && <span className="text-[10px] text-indigo-400 uppercase">{t('fleet.you')}</span>}
+                        {device.sourceKind && device.sourceKind !== 'system' && (
+                          <span className="text-[10px] text-amber-400 uppercase">{device.sourceKind}</span>
+                        )}
+                      </span>
+                      {device.stats ? (
+                        <>
+                          <span className="col-span-3 flex items-center gap-2">
+                            <span className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                              <span className={`block h-full ${levelColor(device.stats.level)}`} style={{ width: `${device.stats.level}%` }} />
+                            </span>
+                            <span className="text-xs text-white mono w-10 text-right">{device.stats.level}%</span>
+                          </span>
+                          <span className={`col-span-2 text-xs font-bold uppercase ${device.stats.charging ? 'text-emerald-400' : 'text-gray-500'}`}>
+                            {t(device.stats.charging ? 'fleet.charging' : 'fleet.onBattery')}
+                          </span>
+                          <span className="col-span-1 text-xs text-gray-300 mono" title={t('fleet.health', { grade: t(`health.grade.${device.stats.health.grade}` as MessageKey) })}>
+                            {device.stats.health.grade === 'Unknown' ? '—' : device.stats.health.score}
+                          </span>
+                        </>
+                      ) : (
+                        <span className="col-span-6 text-xs text-gray-600">{t('fleet.waiting')}</span>
+                      )}
+                      <span className="col-span-2 text-xs text-gray-500 mono text-right">{formatLastSeen(i18n, device.lastSeen, now)}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {selected && <FleetDeviceDetail config={config} device={selected} onClose={() => setSelectedId(null)} />}
+      </div>
+    </div>
+  );
+};
+
+export default FleetDashboard;
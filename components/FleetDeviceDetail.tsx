@@ -0,0 +1,87 @@
+
+import React, { useEffect, useState } from 'react';
+import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { FleetDevice, RelayConfig, UsageData } from '../types';
+import { fetchDeviceHistory } from '../services/relayClient';
+import { DAY_MS } from '../services/historyStore';
+import { useI18n } from '../hooks/useI18n';
+
+interface FleetDeviceDetailProps {
+  config: RelayConfig;
+  device: FleetDevice;
+  onClose: () => void;
+}
+
+const FleetDeviceDetail: React.FC<FleetDeviceDetailProps> = ({ config, device, onClose }) => {
+  const { t, formatTime } = useI18n();
+  const [history, setHistory] = useState<UsageData[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setHistory([]);
+    setError(null);
+    fetchDeviceHistory(config, device.id, Date.now() - DAY_MS)
+      .then(setHistory)
+      .catch(err => setError(err.message));
+  }, [config, device.id, device.lastSeen]);
+
+  const summary = device.summary;
+  const facts: Array<[string, string]> = summary ? [
+    [t('fleet.detail.cycles'), String(summary.equivalentCycles)],
+    [t('fleet.detail.chargesToFull'), String(summary.chargesToFull)],
+    [t('fleet.detail.drain'), summary.averageDischargeRate === null ? '—' : `${summary.averageDischargeRate}%/h`],
+    [t('fleet.detail.depth'), summary.averageDepthOfDischarge === null ? '—' : `${summary.averageDepthOfDischarge}%`]
+  ] : [];
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-800 rounded-3xl p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h4 className="text-white font-bold text-sm uppercase tracking-widest opacity-60">{t('fleet.detail.title', { name: device.name })}</h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('common.close')}>
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      {facts.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+          {facts.map(([label, value]) => (
+            <div key={label} className="bg-gray-800/30 rounded-xl p-3">
+              <div className="text-[10px] uppercase tracking-widest text-gray-500">{label}</div>
+              <div className="text-white mono">{value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="h-56 w-full">
+        {error ? (
+          <div className="h-full flex items-center justify-center text-rose-400/80 text-sm">{error}</div>
+        ) : history.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-gray-600 text-sm">{t('fleet.detail.empty')}</div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={history}>
+              <defs>
+                <linearGradient id="colorFleetLevel" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#6366f1" stopOpacity={0.3}/>
+                  <stop offset="95%" stopColor="#6366f1" stopOpacity={0}/>
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1f2937" />
+              <XAxis dataKey="timestamp" type="number" domain={['dataMin', 'dataMax']} scale="time" tickFormatter={formatTime} stroke="#4b5563" tick={{ fontSize: 10 }} minTickGap={32} />
+              <YAxis domain={[0, 100]} stroke="#4b5563" tick={{ fontSize: 10 }} width={32} unit="%" />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: '8px' }}
+                itemStyle={{ color: '#818cf8' }}
+                labelFormatter={(label) => formatTime(Number(label))}
+              />
+              <Area type="monotone" dataKey="level" name={t('history.level')} stroke="#6366f1" fillOpacity={1} fill="url(#colorFleetLevel)" strokeWidth={2} isAnimationActive={false} />
+            </AreaChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FleetDeviceDetail;
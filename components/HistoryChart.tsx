@@ -0,0 +1,240 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Area, Brush, CartesianGrid, ComposedChart, Line, ReferenceArea, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import { BatteryAnomaly, BatteryEvent, TemperatureUnit, UsageData } from '../types';
+import { HOUR_MS, DAY_MS, downsampleHistory, queryHistory } from '../services/historyStore';
+import { TEMPERATURE_SYMBOLS, toDisplayTemperature } from '../services/units';
+import { EVENT_CATEGORIES } from '../services/eventLog';
+import { I18n } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { CATEGORY_COLORS } from './EventTimeline';
+import { ANOMALY_COLORS } from './AnomalyCard';
+
+export type HistoryRange = '1h' | '24h' | '7d' | '30d';
+
+interface HistoryChartProps {
+  liveHistory: UsageData[];                                  // In-memory window kept by the sampler
+  projection?: Array<{ timestamp: number; projected: number }>;
+  persisted: boolean;                                        // Whether longer ranges can be read from IndexedDB
+  dataVersion: number;
+  temperatureUnit: TemperatureUnit;
+  events?: BatteryEvent[];                                   // Drawn as vertical markers
+  anomalies?: BatteryAnomaly[];                              // Drawn as highlighted regions
+}
+
+const RANGES: Record<HistoryRange, { spanMs: number; bucketMs: number | null }> = {
+  '1h': { spanMs: HOUR_MS, bucketMs: null },
+  '24h': { spanMs: DAY_MS, bucketMs: 5 * 60 * 1000 },
+  '7d': { spanMs: 7 * DAY_MS, bucketMs: HOUR_MS },
+  '30d': { spanMs: 30 * DAY_MS, bucketMs: 4 * HOUR_MS }
+};
+
+const REFRESH_MS = 60 * 1000;
+const CHARGING_BAND_STYLE = { fill: '#10b981', fillOpacity: 0.08 };
+const MIN_REGION_FRACTION = 0.01; // Instantaneous anomalies still get a visible sliver of the range
+
+type ChartPoint = UsageData & { projected?: number };
+
+const formatTick = (range: HistoryRange, i18n: I18n) => (timestamp: number) =>
+  range === '1h' || range === '24h' ? i18n.formatTime(timestamp) : i18n.formatDate(timestamp);
+
+// Contiguous runs of charging points, drawn as shaded bands
+const chargingBands = (points: UsageData[]) => {
+  const bands: Array<{ start: number; end: number }> = [];
+  let start: number | null = null;
+  points.forEach((point, index) => {
+    if (point.charging && start === null) start = point.timestamp;
+    const isLast = index === points.length - 1;
+    if (start !== null && (!point.charging || isLast)) {
+      bands.push({ start, end: point.timestamp });
+      start = null;
+    }
+  });
+  return bands;
+};
+
+const HistoryChart: React.FC<HistoryChartProps> = ({ liveHistory, projection = [], persisted, dataVersion, temperatureUnit, events = [], anomalies = [] }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [range, setRange] = useState<HistoryRange>('1h');
+  const [showTemperature, setShowTemperature] = useState(false);
+  const [showVoltage, setShowVoltage] = useState(false);
+  const [showEvents, setShowEvents] = useState(true);
+  const [showAnomalies, setShowAnomalies] = useState(true);
+  const [stored, setStored] = useState<UsageData[]>([]);
+
+  const { spanMs, bucketMs } = RANGES[range];
+  const readsStore = persisted && range !== '1h';
+
+  useEffect(() => {
+    if (!readsStore) return;
+    const load = () => queryHistory({ from: Date.now() - spanMs, bucketMs: bucketMs ?? undefined })
+      .then(setStored)
+      .catch(err => console.warn('Failed to load history range:', err));
+
+    load();
+    const refreshInterval = setInterval(load, REFRESH_MS);
+    return () => clearInterval(refreshInterval);
+  }, [readsStore, spanMs, bucketMs, dataVersion]);
+
+  const points = useMemo<UsageData[]>(() => {
+    if (readsStore) return stored;
+    const latest = liveHistory[liveHistory.length - 1]?.timestamp ?? 0;
+    const inRange = liveHistory.filter(point => point.timestamp >= latest - spanMs);
+    return bucketMs ? downsampleHistory(inRange, bucketMs) : inRange;
+  }, [readsStore, stored, liveHistory, spanMs, bucketMs]);
+
+  const data = useMemo<ChartPoint[]>(
+    () => range === '1h' && points.length ? [...points, ...projection] : points,
+    [range, points, projection]
+  );
+
+  const bands = useMemo(() => chargingBands(points), [points]);
+  // Only events inside the plotted range, so markers never stretch the axis
+  const markers = useMemo(() => {
+    if (points.length === 0) return [];
+    const first = points[0].timestamp;
+    const last = points[points.length - 1].timestamp;
+    return events.filter(event => event.timestamp >= first && event.timestamp <= last);
+  }, [events, points]);
+  // Anomalies overlapping the plotted range, clipped to it
+  const regions = useMemo(() => {
+    if (points.length === 0) return [];
+    const first = points[0].timestamp;
+    const last = points[points.length - 1].timestamp;
+    const minWidth = (last - first) * MIN_REGION_FRACTION;
+    return anomalies
+      .filter(anomaly => anomaly.end >= first && anomaly.start <= last)
+      .map(anomaly => {
+        const pad = Math.max(0, minWidth - (anomaly.end - anomaly.start)) / 2;
+        return { ...anomaly, x1: Math.max(first, anomaly.start - pad), x2: Math.min(last, anomaly.end + pad) };
+      });
+  }, [anomalies, points]);
+  const hasTemperature = points.some(point => typeof point.temperature === 'number');
+  const hasVoltage = points.some(point => typeof point.voltage === 'number');
+  const displayTemperature = (point: ChartPoint) => toDisplayTemperature(point.temperature ?? null, temperatureUnit);
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-800 rounded-3xl p-6">
+      <div className="flex justify-between items-center mb-4 gap-2">
+        <h3 className="text-white font-bold flex items-center gap-2 uppercase tracking-widest text-xs opacity-60">
+          {t('history.title')}
+        </h3>
+        <div className="flex gap-1">
+          {(Object.keys(RANGES) as HistoryRange[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`px-2 py-1 rounded-md text-xs font-bold transition-colors ${range === option ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-3 mb-3 text-xs">
+        <label className={`flex items-center gap-1 ${hasTemperature ? 'text-orange-400' : 'text-gray-600'}`}>
+          <input type="checkbox" checked={showTemperature} disabled={!hasTemperature} onChange={(e) => setShowTemperature(e.target.checked)} className="accent-orange-500" />
+          {t('history.temperature')}
+        </label>
+        <label className={`flex items-center gap-1 ${hasVoltage ? 'text-yellow-400' : 'text-gray-600'}`}>
+          <input type="checkbox" checked={showVoltage} disabled={!hasVoltage} onChange={(e) => setShowVoltage(e.target.checked)} className="accent-yellow-500" />
+          {t('history.voltage')}
+        </label>
+        <label className={`flex items-center gap-1 ${markers.length ? 'text-sky-400' : 'text-gray-600'}`}>
+          <input type="checkbox" checked={showEvents} disabled={!markers.length} onChange={(e) => setShowEvents(e.target.checked)} className="accent-sky-500" />
+          {t('history.events')}
+        </label>
+        <label className={`flex items-center gap-1 ${regions.length ? 'text-rose-400' : 'text-gray-600'}`}>
+          <input type="checkbox" checked={showAnomalies} disabled={!regions.length} onChange={(e) => setShowAnomalies(e.target.checked)} className="accent-rose-500" />
+          {t('history.anomalies')}
+        </label>
+        <span className="ml-auto flex items-center gap-1 text-gray-500">
+          <span className="w-3 h-3 rounded-sm bg-emerald-500/20 border border-emerald-500/30" /> {t('history.charging')}
+        </span>
+      </div>
+
+      <div className="h-64 w-full">
+        {data.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-gray-600 text-sm">{t('history.empty')}</div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data}>
+              <defs>
+                <linearGradient id="colorLevel" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
+                  <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1f2937" />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                scale="time"
+                tickFormatter={formatTick(range, i18n)}
+                stroke="#4b5563"
+                tick={{ fontSize: 10 }}
+                minTickGap={32}
+              />
+              <YAxis yAxisId="level" domain={[0, 100]} stroke="#4b5563" tick={{ fontSize: 10 }} width={32} unit="%" />
+              {showTemperature && (
+                <YAxis yAxisId="temperature" orientation="right" domain={['auto', 'auto']} stroke="#fb923c" tick={{ fontSize: 10 }} width={36} unit={TEMPERATURE_SYMBOLS[temperatureUnit]} />
+              )}
+              {showVoltage && (
+                <YAxis yAxisId="voltage" orientation="right" domain={['auto', 'auto']} stroke="#facc15" tick={{ fontSize: 10 }} width={36} unit="V" />
+              )}
+
+              {bands.map(band => (
+                <React.Fragment key={band.start}>
+                  <ReferenceArea yAxisId="level" x1={band.start} x2={band.end} ifOverflow="extendDomain" {...CHARGING_BAND_STYLE} />
+                </React.Fragment>
+              ))}
+
+              {showAnomalies && regions.map(region => (
+                <React.Fragment key={`${region.kind}-${region.start}`}>
+                  <ReferenceArea
+                    yAxisId="level"
+                    x1={region.x1}
+                    x2={region.x2}
+                    {...{ fill: ANOMALY_COLORS[region.kind], fillOpacity: 0.15, stroke: ANOMALY_COLORS[region.kind], strokeOpacity: 0.4 }}
+                  />
+                </React.Fragment>
+              ))}
+
+              {showEvents && markers.map(event => (
+                <React.Fragment key={event.timestamp}>
+                  <ReferenceLine
+                    yAxisId="level"
+                    x={event.timestamp}
+                    {...{ stroke: CATEGORY_COLORS[EVENT_CATEGORIES[event.kind]], strokeDasharray: '2 3', strokeOpacity: 0.7 }}
+                  />
+                </React.Fragment>
+              ))}
+
+              <Tooltip
+                contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: '8px' }}
+                itemStyle={{ color: '#10b981' }}
+                labelFormatter={(label) => i18n.formatDateTime(Number(label))}
+              />
+              <Area yAxisId="level" type="monotone" dataKey="level" name={t('history.level')} stroke="#10b981" fillOpacity={1} fill="url(#colorLevel)" strokeWidth={3} isAnimationActive={false} />
+              <Area yAxisId="level" type="linear" dataKey="projected" name={t('history.projected')} stroke="#6b7280" strokeDasharray="4 4" fill="none" strokeWidth={2} dot={false} isAnimationActive={false} connectNulls />
+              {showTemperature && (
+                <Line yAxisId="temperature" type="monotone" dataKey={displayTemperature} name={t('history.temperature')} stroke="#fb923c" strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls />
+              )}
+              {showVoltage && (
+                <Line yAxisId="voltage" type="monotone" dataKey="voltage" name={t('history.voltage')} stroke="#facc15" strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls />
+              )}
+              <Brush dataKey="timestamp" height={18} stroke="#374151" fill="#030712" travellerWidth={8} tickFormatter={formatTick(range, i18n)} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryChart;
@@ -0,0 +1,105 @@
+
+import React from 'react';
+import { BatteryInsight, InsightError, InsightOrigin } from '../types';
+import { describeInsightError } from '../services/insightProvider';
+import { useI18n } from '../hooks/useI18n';
+
+interface InsightCardProps {
+  insight: BatteryInsight | null;
+  origin: InsightOrigin;
+  error: InsightError | null;
+  loading: boolean;
+  isOnline: boolean;
+  queued?: number; // Offline requests waiting for Background Sync
+}
+
+const InsightCard: React.FC<InsightCardProps> = ({ insight, origin, error, loading, isOnline, queued = 0 }) => {
+  const { t } = useI18n();
+  return (
+    <div className="bg-gradient-to-br from-indigo-900/20 to-emerald-900/20 border border-indigo-500/20 rounded-3xl p-8 backdrop-blur-xl relative overflow-hidden">
+       {/* Decorative Background Elements */}
+      <div className="absolute top-0 right-0 p-4 opacity-5">
+        <svg className="w-64 h-64" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2L4.5 20.29l.71.71L12 18l6.79 3 .71-.71z"/></svg>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-8 relative z-10">
+        <div className="flex-1">
+          {origin === 'local' && insight && !loading ? (
+            <div className="flex items-center gap-2 text-amber-400 font-bold text-xs uppercase tracking-widest mb-4">
+              <span className="w-2 h-2 bg-amber-500 rounded-full" />
+              {t('insight.localTitle')}
+              <span className="px-2 py-0.5 rounded-md bg-amber-500/10 border border-amber-500/20 text-[10px]">{t('insight.localBadge')}</span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-indigo-400 font-bold text-xs uppercase tracking-widest mb-4">
+              <span className="animate-pulse w-2 h-2 bg-indigo-500 rounded-full" />
+              {t('insight.aiTitle')}
+            </div>
+          )}
+
+          {queued > 0 && !loading && (
+            <p className="text-xs text-indigo-300/80 mb-4">
+              {t('insight.queued')}
+            </p>
+          )}
+
+          {error && !loading && (
+            <p className="text-xs text-rose-400/80 mb-4" title={describeInsightError(error, t)}>
+              {t('insight.unavailable', { kind: error.kind })}
+            </p>
+          )}
+          
+          {loading ? (
+            <div className="space-y-4 animate-pulse">
+              <div className="h-8 bg-gray-800 rounded w-3/4"></div>
+              <div className="h-24 bg-gray-800 rounded w-full"></div>
+              <div className="space-y-2">
+                <div className="h-4 bg-gray-800 rounded w-full"></div>
+                <div className="h-4 bg-gray-800 rounded w-5/6"></div>
+              </div>
+            </div>
+          ) : insight ? (
+            <>
+              <h2 className="text-3xl font-bold text-white mb-2 leading-tight">
+                {insight.status}
+              </h2>
+              <p className="text-lg text-indigo-100/80 mb-6 italic">
+                "{insight.recommendation}"
+              </p>
+              <div className="p-4 bg-white/5 rounded-2xl border border-white/5 mb-6">
+                <p className="text-white font-medium flex items-center gap-2">
+                  <svg className="w-5 h-5 text-emerald-400" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l5-5z" clipRule="evenodd" />
+                  </svg>
+                  {insight.estimatedLifeRemaining}
+                </p>
+              </div>
+              
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {insight.optimizationTips.map((tip, idx) => (
+                  <div key={idx} className="bg-gray-900/60 p-4 rounded-xl border border-gray-700/50 hover:bg-gray-900/80 transition-all cursor-default group">
+                    <div className="text-emerald-400 font-bold mb-2 text-xs">{t('insight.tip', { index: idx + 1 })}</div>
+                    <p className="text-sm text-gray-300 group-hover:text-white transition-colors">{tip}</p>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="py-12 text-center">
+              {!isOnline ? (
+                   <div className="flex flex-col items-center gap-2">
+                       <svg className="w-8 h-8 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" /></svg>
+                       <p className="text-gray-500">{t('insight.offlineEmpty')}</p>
+                   </div>
+              ) : (
+                  <p className="text-gray-500">{t('insight.empty')}</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InsightCard;
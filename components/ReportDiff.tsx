@@ -0,0 +1,78 @@
+
+import React from 'react';
+import { InsightReport } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface ReportDiffProps {
+  before: InsightReport;
+  after: InsightReport;
+}
+
+const formatDelta = (before: number | null, after: number | null, unit: string) => {
+  if (before === null || after === null) return null;
+  const delta = parseFloat((after - before).toFixed(2));
+  if (delta === 0) return null;
+  return `${delta > 0 ? '+' : ''}${delta}${unit}`;
+};
+
+const Field: React.FC<{ label: string; before: string; after: string }> = ({ label, before, after }) => {
+  const { t } = useI18n();
+  const changed = before !== after;
+  return (
+    <div className="grid grid-cols-2 gap-4 py-3 border-b border-gray-800">
+      <div className="col-span-2 text-[10px] uppercase tracking-widest text-gray-500 flex items-center gap-2">
+        {label}
+        {changed && <span className="text-amber-400">{t('reports.diff.changed')}</span>}
+      </div>
+      <p className={`text-sm ${changed ? 'text-rose-300/80 line-through decoration-rose-500/40' : 'text-gray-400'}`}>{before}</p>
+      <p className={`text-sm ${changed ? 'text-emerald-300' : 'text-gray-400'}`}>{after}</p>
+    </div>
+  );
+};
+
+const ReportDiff: React.FC<ReportDiffProps> = ({ before, after }) => {
+  const { t, formatDateTime } = useI18n();
+  const removedTips = before.insight.optimizationTips.filter(tip => !after.insight.optimizationTips.includes(tip));
+  const addedTips = after.insight.optimizationTips.filter(tip => !before.insight.optimizationTips.includes(tip));
+  const statDeltas = [
+    [t('reports.diff.level'), formatDelta(before.stats.level, after.stats.level, '%')],
+    [t('reports.diff.temperature'), formatDelta(before.stats.temperature, after.stats.temperature, '°C')],
+    [t('reports.diff.voltage'), formatDelta(before.stats.voltage, after.stats.voltage, 'V')],
+    [t('reports.diff.healthScore'), formatDelta(before.stats.health.score, after.stats.health.score, '')]
+  ].filter(([, delta]) => delta !== null);
+
+  return (
+    <div className="mt-6">
+      <div className="grid grid-cols-2 gap-4 text-xs text-gray-400 mono mb-2">
+        <span>{formatDateTime(before.createdAt)} · {t(before.origin === 'ai' ? 'reports.origin.ai' : 'reports.origin.local')}</span>
+        <span>{formatDateTime(after.createdAt)} · {t(after.origin === 'ai' ? 'reports.origin.ai' : 'reports.origin.local')}</span>
+      </div>
+
+      <Field label={t('reports.diff.status')} before={before.insight.status} after={after.insight.status} />
+      <Field label={t('reports.diff.estimatedLife')} before={before.insight.estimatedLifeRemaining} after={after.insight.estimatedLifeRemaining} />
+      <Field label={t('reports.diff.recommendation')} before={before.insight.recommendation} after={after.insight.recommendation} />
+
+      <div className="py-3 border-b border-gray-800">
+        <div className="text-[10px] uppercase tracking-widest text-gray-500 mb-2">{t('reports.diff.tips')}</div>
+        {removedTips.length === 0 && addedTips.length === 0 ? (
+          <p className="text-sm text-gray-400">{t('reports.diff.unchanged')}</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {removedTips.map(tip => <li key={`-${tip}`} className="text-rose-300/80">− {tip}</li>)}
+            {addedTips.map(tip => <li key={`+${tip}`} className="text-emerald-300">+ {tip}</li>)}
+          </ul>
+        )}
+      </div>
+
+      {statDeltas.length > 0 && (
+        <div className="py-3 flex flex-wrap gap-3">
+          {statDeltas.map(([label, delta]) => (
+            <span key={label} className="px-2 py-1 rounded-md bg-gray-800 text-xs text-gray-300 mono">{label} {delta}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportDiff;
@@ -0,0 +1,80 @@
+
+import React, { useState } from 'react';
+import { InsightReport } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import ReportDiff from './ReportDiff';
+
+interface ReportHistoryProps {
+  reports: InsightReport[];
+  onSelect: (report: InsightReport) => void;
+}
+
+const PAGE_SIZE = 8;
+
+const ReportHistory: React.FC<ReportHistoryProps> = ({ reports, onSelect }) => {
+  const { t, formatDateTime } = useI18n();
+  const [compared, setCompared] = useState<number[]>([]);
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  const toggleCompare = (createdAt: number) => {
+    setCompared(prev => prev.includes(createdAt)
+      ? prev.filter(id => id !== createdAt)
+      : [...prev, createdAt].slice(-2));
+  };
+
+  const pair = compared
+    .map(id => reports.find(report => report.createdAt === id))
+    .filter((report): report is InsightReport => Boolean(report))
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h4 className="text-white font-bold flex items-center gap-2 text-sm uppercase tracking-widest opacity-60">
+          {t('reports.title')}
+        </h4>
+        <span className="text-xs text-gray-500">{t('reports.compareHint')}</span>
+      </div>
+
+      {reports.length === 0 ? (
+        <p className="text-gray-500 text-sm py-4 text-center">{t('reports.empty')}</p>
+      ) : (
+        <ol className="relative border-l border-gray-800 ml-2 space-y-4">
+          {reports.slice(0, visible).map(report => (
+            <li key={report.createdAt} className="ml-4">
+              <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-gray-900 ${report.origin === 'ai' ? 'bg-indigo-500' : 'bg-amber-500'}`} />
+              <div className="flex items-start justify-between gap-4">
+                <button onClick={() => onSelect(report)} className="text-left group">
+                  <p className="text-xs text-gray-500 mono">
+                    {formatDateTime(report.createdAt)} · {report.stats.level}% · {t(report.origin === 'ai' ? 'reports.origin.ai' : 'reports.origin.local')}
+                  </p>
+                  <p className="text-sm text-gray-300 group-hover:text-white transition-colors">{report.insight.status}</p>
+                </button>
+                <input
+                  type="checkbox"
+                  checked={compared.includes(report.createdAt)}
+                  onChange={() => toggleCompare(report.createdAt)}
+                  className="mt-1 accent-emerald-500"
+                  aria-label={t('reports.compare')}
+                />
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {reports.length > visible && (
+        <button
+          onClick={() => setVisible(v => v + PAGE_SIZE)}
+          className="mt-4 w-full text-xs text-gray-400 hover:text-white uppercase tracking-widest"
+        >
+          {t('common.showMore')}
+        </button>
+      )}
+
+      {pair.length === 2 && <ReportDiff before={pair[0]} after={pair[1]} />}
+    </div>
+  );
+};
+
+export default ReportHistory;
@@ -0,0 +1,83 @@
+
+import React, { useState } from 'react';
+import { BatterySession } from '../types';
+import { countEquivalentCycles } from '../services/sessionTracker';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface SessionsPanelProps {
+  sessions: BatterySession[];
+}
+
+type SessionFilter = 'all' | BatterySession['kind'];
+
+const PAGE_SIZE = 5;
+
+const FILTER_LABELS: Record<SessionFilter, MessageKey> = {
+  all: 'sessions.filter.all',
+  charge: 'sessions.filter.charge',
+  discharge: 'sessions.filter.discharge'
+};
+
+const SessionsPanel: React.FC<SessionsPanelProps> = ({ sessions }) => {
+  const { t, formatWeekdayTime, formatDuration } = useI18n();
+  const [filter, setFilter] = useState<SessionFilter>('all');
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  const filtered = sessions
+    .filter(session => filter === 'all' || session.kind === filter)
+    .sort((a, b) => b.start - a.start);
+
+  return (
+    <div className="bg-gray-900/40 border border-gray-800 rounded-2xl p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h4 className="text-white font-bold flex items-center gap-2 text-sm uppercase tracking-widest opacity-60">
+          {t('sessions.title')}
+        </h4>
+        <span className="text-xs text-gray-500 mono">{t('sessions.cycles', { count: countEquivalentCycles(sessions) })}</span>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {(['all', 'charge', 'discharge'] as SessionFilter[]).map(option => (
+          <button
+            key={option}
+            onClick={() => { setFilter(option); setVisible(PAGE_SIZE); }}
+            className={`px-2 py-1 rounded-md text-xs font-bold uppercase transition-colors ${filter === option ? 'bg-gray-700 text-white' : 'bg-gray-800/50 text-gray-500 hover:text-gray-300'}`}
+          >
+            {t(FILTER_LABELS[option])}
+          </button>
+        ))}
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="text-gray-500 text-sm py-4 text-center">{t('sessions.empty')}</p>
+      ) : (
+        <ul className="space-y-3">
+          {filtered.slice(0, visible).map(session => (
+            <li key={session.start} className="flex justify-between items-center py-2 border-b border-gray-800 last:border-0">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className={`w-2 h-2 rounded-full ${session.kind === 'charge' ? 'bg-emerald-500' : 'bg-amber-500'} ${session.ongoing ? 'animate-pulse' : ''}`} />
+                  <span className="text-white text-sm mono">{session.startLevel}% → {session.endLevel}%</span>
+                </div>
+                <span className="text-gray-500 text-xs">{formatWeekdayTime(session.start)} · {formatDuration(session.durationMs)}</span>
+              </div>
+              <span className="text-gray-400 text-xs mono">{session.ratePerHour}%/h</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {filtered.length > visible && (
+        <button
+          onClick={() => setVisible(v => v + PAGE_SIZE)}
+          className="mt-4 w-full text-xs text-gray-400 hover:text-white uppercase tracking-widest"
+        >
+          {t('common.showMore')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SessionsPanel;
@@ -0,0 +1,265 @@
+
+import React from 'react';
+import { AppSettings, EnergyConfig, HabitWindowDays, Locale, TemperatureUnit } from '../types';
+import { DEFAULT_SETTINGS, HABIT_WINDOW_OPTIONS, SAMPLE_INTERVAL_OPTIONS } from '../services/settingsStore';
+import { providerConfigFromEnv } from '../services/insightProvider';
+import { GEMINI_MODELS } from '../services/geminiProvider';
+import { TEMPERATURE_SYMBOLS } from '../services/units';
+import { LOCALES } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  activeIntervalMs: number; // Interval the sampler is using right now
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="py-4 border-b border-gray-800 last:border-0 space-y-3">
+    <h5 className="text-[10px] uppercase tracking-widest text-gray-500">{title}</h5>
+    {children}
+  </section>
+);
+
+const Toggle: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ label, checked, onChange }) => (
+  <div className="flex items-center justify-between">
+    <span className="text-sm text-gray-300">{label}</span>
+    <button
+      role="switch"
+      aria-checked={checked}
+      onClick={() => onChange(!checked)}
+      className={`w-10 h-5 rounded-full relative transition-colors ${checked ? 'bg-emerald-500' : 'bg-gray-700'}`}
+    >
+      <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${checked ? 'right-1' : 'left-1'}`}></div>
+    </button>
+  </div>
+);
+
+// Empty input clears an optional value; anything that is not a positive number is ignored
+const NumberField: React.FC<{
+  label: string;
+  unit: string;
+  value: number | null;
+  step: number;
+  placeholder: string;
+  onChange: (value: number | null) => void;
+}> = ({ label, unit, value, step, placeholder, onChange }) => (
+  <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+    {label}
+    <span className="flex items-center gap-2">
+      <input
+        type="number" min={0} step={step}
+        value={value ?? ''}
+        placeholder={placeholder}
+        onChange={(e) => {
+          if (e.target.value === '') return onChange(null);
+          const parsed = Number(e.target.value);
+          if (Number.isFinite(parsed) && parsed > 0) onChange(parsed);
+        }}
+        className="w-28 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white mono text-xs text-right"
+      />
+      <span className="w-16 text-xs text-gray-500">{unit}</span>
+    </span>
+  </label>
+);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, activeIntervalMs, onChange, onClose }) => {
+  const { t, formatDuration } = useI18n();
+  const update = (changes: Partial<AppSettings>) => onChange({ ...settings, ...changes });
+  const updateThresholds = (changes: Partial<AppSettings['gaugeThresholds']>) =>
+    update({ gaugeThresholds: { ...settings.gaugeThresholds, ...changes } });
+  const updateEnergy = (changes: Partial<EnergyConfig>) => update({ energy: { ...settings.energy, ...changes } });
+  const { energy } = settings;
+
+  const buildConfig = providerConfigFromEnv();
+  const modelSuggestions = buildConfig.kind === 'gemini' ? GEMINI_MODELS : [];
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/60 backdrop-blur-sm flex items-start sm:items-center justify-center p-4 overflow-y-auto" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label={t('settings.title')}
+        className="w-full max-w-lg bg-gray-900 border border-gray-800 rounded-3xl p-6 shadow-2xl safe-area-pt"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="text-white font-bold text-sm uppercase tracking-widest opacity-60">{t('settings.title')}</h4>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('common.close')}>
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <Section title={t('settings.sampling')}>
+          <label className="flex items-center justify-between text-sm text-gray-300">
+            {t('settings.sampleEvery')}
+            <select
+              value={settings.sampleIntervalMs}
+              onChange={(e) => update({ sampleIntervalMs: Number(e.target.value) })}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white mono"
+            >
+              {SAMPLE_INTERVAL_OPTIONS.map(ms => <option key={ms} value={ms}>{formatDuration(ms)}</option>)}
+            </select>
+          </label>
+          <p className="text-xs text-gray-500">{t('settings.sampleAdaptive', { interval: formatDuration(activeIntervalMs) })}</p>
+        </Section>
+
+        <Section title={t('settings.insights')}>
+          <Toggle label={t('settings.autoAnalyze')} checked={settings.autoAnalyze} onChange={(autoAnalyze) => update({ autoAnalyze })} />
+          <label className={`block text-xs text-gray-400 ${settings.autoAnalyze ? '' : 'opacity-40'}`}>
+            <div className="flex justify-between mb-1">
+              <span>{t('settings.insightDelta')}</span>
+              <span className="mono text-white">{settings.insightDelta}%</span>
+            </div>
+            <input
+              type="range" min={1} max={20}
+              value={settings.insightDelta}
+              disabled={!settings.autoAnalyze}
+              onChange={(e) => update({ insightDelta: Number(e.target.value) })}
+              className="w-full accent-emerald-500"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+            {t('settings.model')}
+            {/* Committed on blur: every distinct model name gets its own cached provider */}
+            <input
+              list="insight-models"
+              key={settings.insightModel}
+              defaultValue={settings.insightModel}
+              placeholder={buildConfig.model || t('settings.modelDefault')}
+              onBlur={(e) => {
+                const insightModel = e.target.value.trim();
+                if (insightModel !== settings.insightModel) update({ insightModel });
+              }}
+              className="flex-1 max-w-[14rem] bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white mono text-xs"
+            />
+            <datalist id="insight-models">
+              {modelSuggestions.map(model => <option key={model} value={model} />)}
+            </datalist>
+          </label>
+          <label className="flex items-center justify-between text-sm text-gray-300">
+            {t('settings.habitWindow')}
+            <select
+              value={settings.habitWindowDays}
+              onChange={(e) => update({ habitWindowDays: Number(e.target.value) as HabitWindowDays })}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white mono"
+            >
+              {HABIT_WINDOW_OPTIONS.map(days => <option key={days} value={days}>{t('settings.habitWindowDays', { count: days })}</option>)}
+            </select>
+          </label>
+        </Section>
+
+        <Section title={t('settings.energy')}>
+          <p className="text-xs text-gray-500">{t('settings.energyHint')}</p>
+          <NumberField
+            label={t('settings.designCapacity')} unit="mWh" step={100}
+            value={energy.designCapacityMWh} placeholder={t('settings.notSet')}
+            onChange={(designCapacityMWh) => updateEnergy({ designCapacityMWh })}
+          />
+          <NumberField
+            label={t('settings.nominalVoltage')} unit="V" step={0.01}
+            value={energy.nominalVoltage} placeholder={String(DEFAULT_SETTINGS.energy.nominalVoltage)}
+            onChange={(nominalVoltage) => nominalVoltage !== null && updateEnergy({ nominalVoltage })}
+          />
+          <label className="block text-xs text-gray-400">
+            <div className="flex justify-between mb-1">
+              <span>{t('settings.chargerEfficiency')}</span>
+              <span className="mono text-white">{Math.round(energy.chargerEfficiency * 100)}%</span>
+            </div>
+            <input
+              type="range" min={50} max={100}
+              value={Math.round(energy.chargerEfficiency * 100)}
+              onChange={(e) => updateEnergy({ chargerEfficiency: Number(e.target.value) / 100 })}
+              className="w-full accent-emerald-500"
+            />
+          </label>
+          <NumberField
+            label={t('settings.tariff')} unit={`${energy.currency}/kWh`} step={0.01}
+            value={energy.tariffPerKWh} placeholder={t('settings.notSet')}
+            onChange={(tariffPerKWh) => updateEnergy({ tariffPerKWh })}
+          />
+          <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+            {t('settings.currency')}
+            {/* Committed on blur so partially typed codes are not rejected keystroke by keystroke */}
+            <input
+              key={energy.currency}
+              defaultValue={energy.currency}
+              maxLength={3}
+              onBlur={(e) => {
+                const currency = e.target.value.toUpperCase();
+                if (/^[A-Z]{3}$/.test(currency)) updateEnergy({ currency });
+                else e.target.value = energy.currency;
+              }}
+              className="w-16 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white mono text-xs text-center uppercase"
+            />
+          </label>
+          <NumberField
+            label={t('settings.gridIntensity')} unit="gCO₂/kWh" step={1}
+            value={energy.gridIntensity} placeholder={t('settings.notSet')}
+            onChange={(gridIntensity) => updateEnergy({ gridIntensity })}
+          />
+        </Section>
+
+        <Section title={t('settings.display')}>
+          <label className="flex items-center justify-between text-sm text-gray-300">
+            {t('settings.language')}
+            <select
+              value={settings.locale}
+              onChange={(e) => update({ locale: e.target.value as Locale })}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white text-xs"
+            >
+              {(Object.keys(LOCALES) as Locale[]).map(locale => <option key={locale} value={locale}>{LOCALES[locale].label}</option>)}
+            </select>
+          </label>
+          <label className="block text-xs text-gray-400">
+            <div className="flex justify-between mb-1">
+              <span>{t('settings.gaugeLow')}</span>
+              <span className="mono text-white">{settings.gaugeThresholds.low}%</span>
+            </div>
+            <input
+              type="range" min={5} max={50} step={5}
+              value={settings.gaugeThresholds.low}
+              onChange={(e) => updateThresholds({ low: Math.min(Number(e.target.value), settings.gaugeThresholds.high - 5) })}
+              className="w-full accent-rose-500"
+            />
+          </label>
+          <label className="block text-xs text-gray-400">
+            <div className="flex justify-between mb-1">
+              <span>{t('settings.gaugeHigh')}</span>
+              <span className="mono text-white">{settings.gaugeThresholds.high}%</span>
+            </div>
+            <input
+              type="range" min={10} max={95} step={5}
+              value={settings.gaugeThresholds.high}
+              onChange={(e) => updateThresholds({ high: Math.max(Number(e.target.value), settings.gaugeThresholds.low + 5) })}
+              className="w-full accent-emerald-500"
+            />
+          </label>
+          <div className="flex items-center justify-between text-sm text-gray-300">
+            {t('settings.temperatureUnit')}
+            <div className="flex gap-1">
+              {(['celsius', 'fahrenheit'] as TemperatureUnit[]).map(unit => (
+                <button
+                  key={unit}
+                  onClick={() => update({ temperatureUnit: unit })}
+                  className={`px-2 py-1 rounded-md text-xs font-bold transition-colors ${settings.temperatureUnit === unit ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {TEMPERATURE_SYMBOLS[unit]}
+                </button>
+              ))}
+            </div>
+          </div>
+        </Section>
+
+        <button
+          onClick={() => onChange(DEFAULT_SETTINGS)}
+          className="mt-4 text-xs font-bold uppercase tracking-widest text-gray-500 hover:text-white"
+        >
+          {t('settings.reset')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
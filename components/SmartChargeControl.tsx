@@ -0,0 +1,86 @@
+
+import React from 'react';
+import { SmartChargeConfig, SmartChargeStats } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface SmartChargeControlProps {
+  config: SmartChargeConfig;
+  stats: SmartChargeStats;
+  onChange: (config: SmartChargeConfig) => void;
+}
+
+const SmartChargeControl: React.FC<SmartChargeControlProps> = ({ config, stats, onChange }) => {
+  const { t } = useI18n();
+  const toggle = () => onChange({
+    ...config,
+    enabled: !config.enabled,
+    enabledAt: !config.enabled ? config.enabledAt ?? Date.now() : config.enabledAt
+  });
+
+  return (
+    <div className="p-3 bg-gray-800/30 rounded-xl border border-gray-800">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 bg-blue-500/10 text-blue-400 rounded-full flex items-center justify-center">
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" /><path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" clipRule="evenodd" /></svg>
+          </div>
+          <span className="text-gray-200 text-sm font-medium">{t('smartCharge.title')}</span>
+        </div>
+        <button
+          role="switch"
+          aria-checked={config.enabled}
+          onClick={toggle}
+          className={`w-10 h-5 rounded-full relative transition-colors ${config.enabled ? 'bg-emerald-500' : 'bg-gray-700'}`}
+        >
+          <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${config.enabled ? 'right-1' : 'left-1'}`}></div>
+        </button>
+      </div>
+
+      {config.enabled && (
+        <div className="mt-4 space-y-3">
+          <label className="block text-xs text-gray-400">
+            <div className="flex justify-between mb-1">
+              <span>{t('smartCharge.unplugAt')}</span>
+              <span className="mono text-white">{config.ceiling}%</span>
+            </div>
+            <input
+              type="range" min={50} max={100} step={5}
+              value={config.ceiling}
+              onChange={(e) => onChange({ ...config, ceiling: Math.max(Number(e.target.value), config.floor + 10) })}
+              className="w-full accent-emerald-500"
+            />
+          </label>
+          <label className="block text-xs text-gray-400">
+            <div className="flex justify-between mb-1">
+              <span>{t('smartCharge.plugInAt')}</span>
+              <span className="mono text-white">{config.floor}%</span>
+            </div>
+            <input
+              type="range" min={5} max={50} step={5}
+              value={config.floor}
+              onChange={(e) => onChange({ ...config, floor: Math.min(Number(e.target.value), config.ceiling - 10) })}
+              className="w-full accent-emerald-500"
+            />
+          </label>
+
+          <div className="flex justify-between text-xs pt-2 border-t border-gray-800">
+            <span className="text-gray-500">{t('smartCharge.respected')}</span>
+            <span className="mono text-gray-300">
+              {stats.respectRate === null
+                ? t('smartCharge.noCharges')
+                : `${stats.respected}/${stats.chargeSessions} (${Math.round(stats.respectRate * 100)}%)`}
+            </span>
+          </div>
+          {stats.averageOvershoot !== null && (
+            <div className="flex justify-between text-xs">
+              <span className="text-gray-500">{t('smartCharge.overshoot')}</span>
+              <span className="mono text-amber-400">+{stats.averageOvershoot}%</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SmartChargeControl;
@@ -0,0 +1,106 @@
+
+import React, { useRef, useState } from 'react';
+import { BatterySource, BatterySourceKind } from '../types';
+import {
+  SCENARIOS, createReplaySource, createSimulatedSource, createSystemSource, findScenario, isSystemBatterySupported, parseRecordedSession
+} from '../services/batterySource';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface SourceSelectorProps {
+  source: BatterySource;
+  onChange: (source: BatterySource) => void;
+}
+
+const KIND_STYLES: Record<BatterySourceKind, string> = {
+  system: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20',
+  simulated: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  replay: 'bg-sky-500/10 text-sky-400 border-sky-500/20'
+};
+
+const KIND_LABELS: Record<BatterySourceKind, MessageKey> = {
+  system: 'source.kind.system',
+  simulated: 'source.kind.simulated',
+  replay: 'source.kind.replay'
+};
+
+const SPEEDS = [1, 10, 60, 600];
+
+const SourceSelector: React.FC<SourceSelectorProps> = ({ source, onChange }) => {
+  const { t } = useI18n();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scenarioId, setScenarioId] = useState(SCENARIOS[0].id);
+  const [speed, setSpeed] = useState(1);
+
+  const startSimulation = (id: string, multiplier: number) => {
+    setScenarioId(id);
+    setSpeed(multiplier);
+    onChange(createSimulatedSource({ scenario: findScenario(id), speed: multiplier }));
+  };
+
+  const handleSelect = (kind: BatterySourceKind) => {
+    setError(null);
+    if (kind === 'system') onChange(createSystemSource());
+    if (kind === 'simulated') startSimulation(scenarioId, speed);
+    if (kind === 'replay') fileInput.current?.click();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const session = parseRecordedSession(await file.text());
+      onChange(createReplaySource({ ...session, name: session.name ?? file.name }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('source.readError'));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className={`px-2 py-1 rounded-md text-xs font-bold uppercase tracking-widest border ${KIND_STYLES[source.kind]}`}>
+          {t(KIND_LABELS[source.kind])}
+        </span>
+        <select
+          value={source.kind}
+          onChange={(e) => handleSelect(e.target.value as BatterySourceKind)}
+          className="bg-gray-800 border border-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1.5"
+        >
+          <option value="system" disabled={!isSystemBatterySupported()}>{t('source.option.system')}</option>
+          <option value="simulated">{t('source.option.simulated')}</option>
+          <option value="replay">{t('source.option.replay')}</option>
+        </select>
+        <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+      {source.kind === 'simulated' && (
+        <div className="flex gap-2">
+          <select
+            value={scenarioId}
+            onChange={(e) => startSimulation(e.target.value, speed)}
+            className="flex-1 bg-gray-800 border border-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1.5"
+          >
+            {SCENARIOS.map(scenario => (
+              <option key={scenario.id} value={scenario.id} title={t(`scenario.${scenario.id}.description` as MessageKey)}>
+                {t(`scenario.${scenario.id}.name` as MessageKey)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={speed}
+            onChange={(e) => startSimulation(scenarioId, Number(e.target.value))}
+            className="bg-gray-800 border border-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1.5"
+          >
+            {SPEEDS.map(value => <option key={value} value={value}>{value}×</option>)}
+          </select>
+        </div>
+      )}
+      <p className="text-gray-500 text-xs truncate">{t('source.current', { label: source.describe(t) })}</p>
+      {error && <p className="text-rose-400 text-xs">{error}</p>}
+    </div>
+  );
+};
+
+export default SourceSelector;
@@ -1,15 +1,18 @@
 
 import React from 'react';
+import { useI18n } from '../hooks/useI18n';
 
 interface StatCardProps {
   label: string;
-  value: string | number;
+  value: string | number | null; // null renders as "not measured"
   unit?: string;
   icon: React.ReactNode;
   color?: string;
+  badge?: string;
 }
 
-const StatCard: React.FC<StatCardProps> = ({ label, value, unit, icon, color = "text-blue-400" }) => {
+const StatCard: React.FC<StatCardProps> = ({ label, value, unit, icon, color = "text-blue-400", badge }) => {
+  const { t } = useI18n();
   return (
     <div className="bg-gray-900/40 border border-gray-800 rounded-xl p-5 hover:border-gray-700 transition-colors">
       <div className="flex items-center gap-3 mb-3">
@@ -17,11 +20,21 @@ const StatCard: React.FC<StatCardProps> = ({ label, value, unit, icon, color = "
           {icon}
         </div>
         <span className="text-gray-400 text-sm font-semibold uppercase tracking-tight">{label}</span>
+        {badge && value !== null && (
+          <span className="ml-auto text-[10px] font-bold uppercase tracking-widest text-amber-400">{badge}</span>
+        )}
       </div>
-      <div className="flex items-baseline gap-1">
-        <span className="text-2xl font-bold tracking-tight mono">{value}</span>
-        {unit && <span className="text-gray-500 text-sm font-medium">{unit}</span>}
-      </div>
+      {value === null ? (
+        <div className="flex items-baseline gap-1">
+          <span className="text-2xl font-bold tracking-tight mono text-gray-600">—</span>
+          <span className="text-gray-600 text-xs font-medium">{t('stats.notMeasured')}</span>
+        </div>
+      ) : (
+        <div className="flex items-baseline gap-1">
+          <span className="text-2xl font-bold tracking-tight mono">{value}</span>
+          {unit && <span className="text-gray-500 text-sm font-medium">{unit}</span>}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,99 @@
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertConfig, AlertRule, AlertRuleId, BatteryAlert, BatteryStats, UsageData } from '../types';
+import { Clock } from '../services/clock';
+import { Translator } from '../services/i18n';
+import {
+  INITIAL_ALERT_STATE, evaluateAlerts, loadAlertConfig, recentDrainRate, saveAlertConfig, snoozeRule
+} from '../services/alertEngine';
+import { clearAlertLog, logAlert, queryAlertLog } from '../services/alertLog';
+import { isNotificationSupported, requestNotificationPermission, showSystemNotification } from '../services/notifier';
+
+const TOAST_DURATION_MS = 8000;
+const NO_EXTRA_RULES: AlertRule[] = [];
+
+// Evaluates alert rules on every stats update and delivers the results as
+// toasts, system notifications and log entries. `extraRules` come from features
+// such as smart charge that reuse the alert pipeline; keep them memoized, since
+// a new array re-evaluates the rules.
+export const useAlerts = (
+  stats: BatteryStats,
+  history: UsageData[],
+  clock: Clock,
+  t: Translator,
+  extraRules: AlertRule[] = NO_EXTRA_RULES
+) => {
+  const [config, setConfigState] = useState<AlertConfig>(loadAlertConfig);
+  const [toasts, setToasts] = useState<BatteryAlert[]>([]);
+  const [log, setLog] = useState<BatteryAlert[]>([]);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    isNotificationSupported() ? Notification.permission : 'unsupported'
+  );
+  const state = useRef(INITIAL_ALERT_STATE);
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const translatorRef = useRef(t);
+  translatorRef.current = t;
+
+  useEffect(() => {
+    queryAlertLog()
+      .then(setLog)
+      .catch(err => console.warn('Failed to load alert log:', err));
+  }, []);
+
+  const dismissToast = useCallback((alert: BatteryAlert) => {
+    setToasts(prev => prev.filter(toast => toast.createdAt !== alert.createdAt));
+  }, []);
+
+  const deliver = useCallback((alert: BatteryAlert) => {
+    setToasts(prev => [...prev, alert]);
+    setTimeout(() => dismissToast(alert), TOAST_DURATION_MS);
+    setLog(prev => [alert, ...prev]);
+    logAlert(alert).catch(err => console.warn('Failed to log alert:', err));
+    if (alert.notified) {
+      showSystemNotification(alert, translatorRef.current('alerts.snooze')).catch(err => console.warn('Notification failed:', err));
+    }
+  }, [dismissToast]);
+
+
+  useEffect(() => {
+    const now = clock.now();
+    const effective = { ...config, rules: [...config.rules, ...extraRules] };
+    const result = evaluateAlerts(stats, recentDrainRate(historyRef.current, now), effective, state.current, now, translatorRef.current);
+    state.current = result.state;
+    // Log entries are keyed by wall-clock time, even when the source runs accelerated
+    result.alerts.forEach((alert, index) => deliver({ ...alert, createdAt: Date.now() + index }));
+  }, [stats, config, extraRules, clock, deliver]);
+
+  const snooze = useCallback((rule: AlertRuleId) => {
+    state.current = snoozeRule(state.current, rule, config.snoozeMinutes, clock.now());
+  }, [config.snoozeMinutes, clock]);
+
+  // Snooze actions tapped on a system notification arrive from sw.js
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'alert-snooze' && event.data.rule) snooze(event.data.rule);
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [snooze]);
+
+  const setConfig = useCallback((next: AlertConfig) => {
+    setConfigState(next);
+    saveAlertConfig(next);
+  }, []);
+
+  const requestPermission = useCallback(async () => {
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result === 'granted') setConfig({ ...config, systemNotifications: true });
+  }, [config, setConfig]);
+
+  const clearLog = useCallback(() => {
+    setLog([]);
+    clearAlertLog().catch(err => console.warn('Failed to clear alert log:', err));
+  }, []);
+
+  return { config, setConfig, toasts, dismissToast, snooze, log, clearLog, permission, requestPermission };
+};
@@ -0,0 +1,61 @@
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BatteryStats, InsightContext, InsightProvider, InsightResult, QueuedAnalysis } from '../types';
+import {
+  collectReplayedAnalyses, countPendingAnalyses, isBackgroundSyncSupported, queueAnalysis, replayPendingAnalyses, resumeBackgroundSync
+} from '../services/analysisQueue';
+import { getDefaultProvider } from '../services/geminiService';
+import { Translator } from '../services/i18n';
+
+type ReplayHandler = (entry: QueuedAnalysis, result: InsightResult) => void;
+
+// Offline Deep Analyze requests: queued in IndexedDB, replayed by sw.js through
+// Background Sync (or by the page itself where that API is missing) and handed
+// back through `onResult` once the reply is in.
+export const useAnalysisQueue = (isOnline: boolean, t: Translator, onResult: ReplayHandler) => {
+  const [pending, setPending] = useState(0);
+  const handler = useRef(onResult);
+  handler.current = onResult;
+  const translatorRef = useRef(t);
+  translatorRef.current = t;
+
+  const collect = useCallback(async () => {
+    const finished = await collectReplayedAnalyses();
+    finished.forEach(({ entry, result }) => handler.current(entry, result));
+    setPending(await countPendingAnalyses());
+  }, []);
+
+  // Replies that arrived while the app was closed; anything still pending is
+  // handed back to the service worker together with the key it needs
+  useEffect(() => {
+    collect()
+      .then(() => resumeBackgroundSync(getDefaultProvider(), translatorRef.current))
+      .catch(err => console.warn('Failed to read the analysis queue:', err));
+  }, [collect]);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'analysis-synced') {
+        collect().catch(err => console.warn('Failed to read the analysis queue:', err));
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [collect]);
+
+  useEffect(() => {
+    if (!isOnline || pending === 0 || isBackgroundSyncSupported()) return;
+    // Credentials only depend on the build-time provider, not on the chosen model
+    replayPendingAnalyses(getDefaultProvider())
+      .then(collect)
+      .catch(err => console.warn('Failed to replay queued analyses:', err));
+  }, [isOnline, pending, collect]);
+
+  const enqueue = useCallback(async (stats: BatteryStats, context: InsightContext, provider: InsightProvider) => {
+    await queueAnalysis(stats, context, provider);
+    setPending(await countPendingAnalyses());
+  }, []);
+
+  return { pending, enqueue };
+};
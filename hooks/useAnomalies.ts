@@ -0,0 +1,64 @@
+
+import { useEffect, useMemo, useState } from 'react';
+import { UsageData } from '../types';
+import { Sampler } from '../services/sampler';
+import { DAY_MS, queryHistory } from '../services/historyStore';
+import { AnomalyBaseline, EMPTY_BASELINE, IN_MEMORY_SCALE, detectAnomalies, learnBaseline } from '../services/anomalyDetector';
+
+const BASELINE_WINDOW_MS = 30 * DAY_MS;
+const DETECTION_WINDOW_MS = DAY_MS;
+const LIVE_DETECTION_WINDOW_MS = 30 * 60 * 1000; // Newest half of the sampler's in-memory hour
+const REFRESH_MS = 10 * 60 * 1000;
+
+// Baseline and detection follow the same split as health and sessions: persisted
+// history for the real battery, the sampler's in-memory window otherwise. The
+// baseline only learns from samples before the detection window, so an anomaly
+// never becomes part of the normal it is compared against.
+export const useAnomalies = (sampler: Sampler, liveHistory: UsageData[], dataVersion: number) => {
+  const persisted = sampler.source.kind === 'system';
+  const [storedBaseline, setStoredBaseline] = useState<AnomalyBaseline>(EMPTY_BASELINE);
+  const [recent, setRecent] = useState<UsageData[]>([]);
+
+  useEffect(() => {
+    setStoredBaseline(EMPTY_BASELINE);
+    setRecent([]);
+    if (!persisted) return;
+
+    const refresh = () => {
+      const now = Date.now();
+      queryHistory({ from: now - BASELINE_WINDOW_MS })
+        .then(history => {
+          const cutoff = now - DETECTION_WINDOW_MS;
+          setStoredBaseline(learnBaseline(history.filter(point => point.timestamp < cutoff)));
+          setRecent(history.filter(point => point.timestamp >= cutoff));
+        })
+        .catch(err => console.warn('Anomaly baseline failed:', err));
+    };
+    refresh();
+    const refreshInterval = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(refreshInterval);
+  }, [persisted, sampler, dataVersion]);
+
+  // Simulated and replayed sources run on their own clock, so the split follows their latest sample
+  const live = useMemo(() => {
+    if (persisted) return null;
+    const cutoff = (liveHistory[liveHistory.length - 1]?.timestamp ?? 0) - LIVE_DETECTION_WINDOW_MS;
+    return {
+      baseline: learnBaseline(liveHistory.filter(point => point.timestamp < cutoff), IN_MEMORY_SCALE),
+      recent: liveHistory.filter(point => point.timestamp >= cutoff)
+    };
+  }, [persisted, liveHistory]);
+
+  // Stored samples up to the last refresh, then the live window for everything newer
+  const stored = useMemo(() => {
+    if (!persisted) return [];
+    const lastStored = recent[recent.length - 1]?.timestamp ?? 0;
+    return [...recent, ...liveHistory.filter(point => point.timestamp > lastStored)];
+  }, [persisted, recent, liveHistory]);
+
+  const baseline = live?.baseline ?? storedBaseline;
+  const history = live?.recent ?? stored;
+
+  const anomalies = useMemo(() => detectAnomalies(history, baseline), [history, baseline]);
+  return { anomalies, baseline };
+};
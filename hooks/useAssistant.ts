@@ -0,0 +1,139 @@
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  AssistantMessage, BatteryEvent, BatterySession, BatteryStats, CalibrationReport, ChatTurn, InsightReport, Locale, UsageData
+} from '../types';
+import { Sampler } from '../services/sampler';
+import { queryHistory } from '../services/historyStore';
+import { getDefaultProvider } from '../services/geminiService';
+import { toInsightError } from '../services/insightProvider';
+import {
+  RangeData, RetrievalRange, buildAssistantSystemPrompt, extractCitations, planRetrieval, trimTurns
+} from '../services/assistant';
+
+const RETRIEVAL_BUCKETS = 96; // Points read back per range before the prompt downsamples further
+
+interface AssistantInputs {
+  sampler: Sampler;
+  stats: BatteryStats;
+  sessions: BatterySession[];
+  reports: InsightReport[];
+  events: BatteryEvent[];
+  calibration?: CalibrationReport;
+  locale: Locale;
+  model: string;
+}
+
+// Only completed question/answer pairs are replayed to the model
+const toTurns = (messages: AssistantMessage[]): ChatTurn[] =>
+  messages.flatMap((message, index) => {
+    const reply = messages[index + 1];
+    return message.role === 'user' && reply?.role === 'assistant' && reply.status === 'done'
+      ? [{ role: message.role, content: message.content }, { role: reply.role, content: reply.content }]
+      : [];
+  });
+
+// Multi-turn chat about the recorded data. Each question retrieves the time
+// ranges it refers to; ranges keep their R<n> marker for the whole conversation
+// so earlier citations stay valid.
+export const useAssistant = (inputs: AssistantInputs) => {
+  const [messages, setMessages] = useState<AssistantMessage[]>([]);
+  const [busy, setBusy] = useState(false);
+  const messagesRef = useRef(messages);
+  const inputsRef = useRef(inputs);
+  inputsRef.current = inputs;
+  const ranges = useRef<RangeData[]>([]);
+  const nextMessageId = useRef(1);
+  const request = useRef<AbortController | null>(null);
+
+  const commit = useCallback((next: AssistantMessage[]) => {
+    messagesRef.current = next;
+    setMessages(next);
+  }, []);
+
+  const updateMessage = useCallback((id: number, changes: Partial<AssistantMessage>) => {
+    commit(messagesRef.current.map(message => message.id === id ? { ...message, ...changes } : message));
+  }, [commit]);
+
+  // Persisted history for the real battery; simulated sources only have the sampler's window
+  const retrieve = async ({ from, to }: RetrievalRange): Promise<UsageData[]> => {
+    const { sampler } = inputsRef.current;
+    if (sampler.source.kind === 'system') {
+      return queryHistory({ from, to, bucketMs: Math.max(60 * 1000, (to - from) / RETRIEVAL_BUCKETS) });
+    }
+    return sampler.getSnapshot().history.filter(point => point.timestamp >= from && point.timestamp <= to);
+  };
+
+  const ask = useCallback(async (question: string) => {
+    const text = question.trim();
+    if (!text || request.current) return;
+    const { sampler, stats, sessions, reports, events, calibration, locale, model } = inputsRef.current;
+    const provider = getDefaultProvider(model);
+    if (!provider.isConfigured()) return;
+    const now = sampler.clock.now();
+
+    const turns = trimTurns([...toTurns(messagesRef.current), { role: 'user' as const, content: text }]);
+    const replyId = nextMessageId.current + 1;
+    nextMessageId.current += 2;
+    commit([
+      ...messagesRef.current,
+      { id: replyId - 1, role: 'user', content: text, status: 'done', citations: [] },
+      { id: replyId, role: 'assistant', content: '', status: 'streaming', citations: [] }
+    ]);
+
+    const controller = new AbortController();
+    request.current = controller;
+    setBusy(true);
+    let content = '';
+    try {
+      const retrieved = await Promise.all(planRetrieval(text, now).map(async range => ({
+        ...range,
+        history: await retrieve(range)
+      })));
+      ranges.current = [
+        ...ranges.current,
+        ...retrieved.map((range, index) => ({ ...range, id: `R${ranges.current.length + index + 1}` }))
+      ];
+
+      const system = buildAssistantSystemPrompt({
+        stats, ranges: ranges.current, sessions, events, reports, calibration, locale, now
+      });
+      for await (const chunk of provider.chat(system, turns, controller.signal)) {
+        content += chunk;
+        updateMessage(replyId, { content });
+      }
+      updateMessage(replyId, { status: 'done', citations: extractCitations(content, ranges.current) });
+    } catch (err) {
+      // Stopping keeps whatever was streamed so far
+      if (controller.signal.aborted && content) {
+        updateMessage(replyId, { status: 'done', citations: extractCitations(content, ranges.current) });
+      } else {
+        console.warn('Assistant request failed:', err);
+        updateMessage(replyId, { status: 'error', error: toInsightError(err, false) });
+      }
+    } finally {
+      request.current = null;
+      setBusy(false);
+    }
+  }, [commit, updateMessage]);
+
+  const stop = useCallback(() => request.current?.abort(), []);
+
+  const clear = useCallback(() => {
+    request.current?.abort();
+    ranges.current = [];
+    commit([]);
+  }, [commit]);
+
+  // A new source means different data; the old conversation no longer applies
+  useEffect(() => clear, [inputs.sampler, clear]);
+
+  return {
+    messages,
+    busy,
+    configured: getDefaultProvider(inputs.model).isConfigured(),
+    ask,
+    stop,
+    clear
+  };
+};
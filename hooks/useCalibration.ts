@@ -0,0 +1,99 @@
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BatteryEvent, BatteryEventKind, CalibrationRun } from '../types';
+import { Sampler } from '../services/sampler';
+import {
+  advanceCalibration, buildCalibrationReport, createCalibrationRun, queryCalibrations, saveCalibration
+} from '../services/calibration';
+
+type RecordEvent = (kind: BatteryEventKind, fields?: Partial<Omit<BatteryEvent, 'kind' | 'timestamp'>>) => void;
+
+// Drives the guided deep cycle run from the sampler's samples. Like the event
+// log, runs are only persisted while the source is the real battery, so a run
+// survives reloads there and starts fresh for simulated sources.
+export const useCalibration = (sampler: Sampler, wakeLockHeld: boolean, recordEvent: RecordEvent) => {
+  const [runs, setRuns] = useState<CalibrationRun[]>([]);
+  const runsRef = useRef(runs);
+  const samplerRef = useRef(sampler);
+  samplerRef.current = sampler;
+  const recordRef = useRef(recordEvent);
+  recordRef.current = recordEvent;
+
+  const commit = useCallback((run: CalibrationRun) => {
+    const previous = runsRef.current.find(other => other.startedAt === run.startedAt) ?? null;
+    runsRef.current = [...runsRef.current.filter(other => other !== previous), run]
+      .sort((a, b) => a.startedAt - b.startedAt);
+    setRuns(runsRef.current);
+    if (samplerRef.current.source.kind === 'system') {
+      saveCalibration(run, previous).catch(err => console.warn('Failed to save calibration run:', err));
+    }
+  }, []);
+
+  const activeRun = () => runsRef.current.find(run => run.status === 'running') ?? null;
+
+  useEffect(() => {
+    runsRef.current = [];
+    setRuns([]);
+    if (sampler.source.kind !== 'system') return;
+
+    let cancelled = false;
+    queryCalibrations()
+      .then(stored => {
+        if (cancelled) return;
+        runsRef.current = stored;
+        setRuns(stored);
+      })
+      .catch(err => console.warn('Failed to load calibration runs:', err));
+    return () => { cancelled = true; };
+  }, [sampler]);
+
+  useEffect(() => {
+    let lastTimestamp = 0;
+    return sampler.subscribe(() => {
+      const { history } = sampler.getSnapshot();
+      const sample = history[history.length - 1];
+      const run = activeRun();
+      if (!sample || sample.timestamp <= lastTimestamp || !run) return;
+      lastTimestamp = sample.timestamp;
+
+      let next = advanceCalibration(run, sample);
+      if (next === run) return;
+      if (next.step !== run.step) {
+        recordRef.current('calibration', { detail: next.step });
+        if (next.status === 'completed') {
+          next = { ...next, report: buildCalibrationReport(next, runsRef.current.filter(other => other.status === 'completed')) };
+        }
+      }
+      commit(next);
+    });
+  }, [sampler, commit]);
+
+  // Losing the lock lets the screen turn off, which changes the load mid-discharge
+  useEffect(() => {
+    const run = activeRun();
+    if (wakeLockHeld || !run || run.step !== 'discharge') return;
+    commit({ ...run, interruptions: [...run.interruptions, samplerRef.current.clock.now()] });
+  }, [wakeLockHeld, commit]);
+
+  const start = useCallback((floor: number) => {
+    if (activeRun()) return;
+    recordRef.current('calibration', { detail: 'charge' });
+    commit(createCalibrationRun(floor, samplerRef.current.clock.now()));
+  }, [commit]);
+
+  const abort = useCallback(() => {
+    const run = activeRun();
+    if (!run) return;
+    recordRef.current('calibration', { detail: 'aborted' });
+    commit({ ...run, status: 'aborted' });
+  }, [commit]);
+
+  const completed = runs.filter(run => run.status === 'completed');
+  return {
+    runs,
+    active: runs.find(run => run.status === 'running') ?? null,
+    latest: completed[completed.length - 1] ?? null,
+    start,
+    abort
+  };
+};
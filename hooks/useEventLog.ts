@@ -0,0 +1,92 @@
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BatteryEvent, BatteryEventKind } from '../types';
+import { Sampler } from '../services/sampler';
+import { Translator } from '../services/i18n';
+import { DAY_MS } from '../services/historyStore';
+import {
+  INITIAL_READING_EVENT_STATE, clearEvents, detectReadingEvents, logEvents, queryEvents
+} from '../services/eventLog';
+
+const EVENT_WINDOW_MS = 7 * DAY_MS;
+const MAX_EVENTS = 500;
+
+// Chronological event log for the active source. Events are stamped with the
+// sampler's clock so they line up with the chart, and, like samples, are only
+// persisted while the source is the real battery.
+export const useEventLog = (sampler: Sampler, isOnline: boolean, t: Translator) => {
+  const [events, setEvents] = useState<BatteryEvent[]>([]);
+  const samplerRef = useRef(sampler);
+  samplerRef.current = sampler;
+  const translatorRef = useRef(t);
+  translatorRef.current = t;
+  const lastTimestamp = useRef(0);
+  const previousSource = useRef(sampler.source);
+  const previousOnline = useRef(isOnline);
+
+  const append = useCallback((incoming: BatteryEvent[]) => {
+    if (incoming.length === 0) return;
+    // Timestamps are the store key, so events from the same millisecond are nudged apart
+    const stamped = incoming.map(event => {
+      const timestamp = Math.max(event.timestamp, lastTimestamp.current + 1);
+      lastTimestamp.current = timestamp;
+      return { ...event, timestamp };
+    });
+    setEvents(prev => [...prev, ...stamped].slice(-MAX_EVENTS));
+    if (samplerRef.current.source.kind === 'system') {
+      logEvents(stamped).catch(err => console.warn('Failed to log events:', err));
+    }
+  }, []);
+
+  const record = useCallback((kind: BatteryEventKind, fields: Partial<Omit<BatteryEvent, 'kind' | 'timestamp'>> = {}) => {
+    const current = samplerRef.current;
+    append([{ timestamp: current.clock.now(), kind, level: current.getSnapshot().reading?.level ?? null, ...fields }]);
+  }, [append]);
+
+  // Each source starts its own timeline: persisted events for the real battery, nothing otherwise
+  useEffect(() => {
+    setEvents([]);
+    lastTimestamp.current = 0;
+    if (previousSource.current !== sampler.source) {
+      record('sourceChanged', { detail: sampler.source.describe(translatorRef.current) });
+      previousSource.current = sampler.source;
+    }
+    if (sampler.source.kind !== 'system') return;
+
+    let cancelled = false;
+    queryEvents(Date.now() - EVENT_WINDOW_MS)
+      .then(stored => {
+        if (cancelled) return;
+        lastTimestamp.current = Math.max(lastTimestamp.current, ...stored.map(event => event.timestamp));
+        // Events logged while the query ran may already be in the store
+        const storedTimestamps = new Set(stored.map(event => event.timestamp));
+        setEvents(prev => [...stored, ...prev.filter(event => !storedTimestamps.has(event.timestamp))].slice(-MAX_EVENTS));
+      })
+      .catch(err => console.warn('Failed to load events:', err));
+    return () => { cancelled = true; };
+  }, [sampler, record]);
+
+  useEffect(() => {
+    let state = INITIAL_READING_EVENT_STATE;
+    return sampler.subscribe(() => {
+      const { reading } = sampler.getSnapshot();
+      if (!reading || reading === state.previous) return;
+      const result = detectReadingEvents(state, reading, sampler.clock.now());
+      state = result.state;
+      append(result.events);
+    });
+  }, [sampler, append]);
+
+  useEffect(() => {
+    if (previousOnline.current === isOnline) return;
+    previousOnline.current = isOnline;
+    record(isOnline ? 'online' : 'offline');
+  }, [isOnline, record]);
+
+  const clear = useCallback(() => {
+    setEvents([]);
+    clearEvents().catch(err => console.warn('Failed to clear events:', err));
+  }, []);
+
+  return { events, record, clear };
+};
@@ -0,0 +1,86 @@
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BatterySession, BatterySourceKind, BatteryStats, RelayConfig, UsageData } from '../types';
+import {
+  DEFAULT_RELAY_CONFIG, RelayError, isPaired, loadRelayConfig, pairDevice, pushReport, saveRelayConfig, unpairDevice
+} from '../services/relayClient';
+import { summarizeSessions } from '../services/sessionTracker';
+import { Translator } from '../services/i18n';
+
+const PUSH_INTERVAL_MS = 30 * 1000;
+
+// Pushes this device's stats, habit summary and new history points to the
+// paired relay on a fixed interval while online. Only the real battery is
+// pushed: simulated and replayed sources run on their own clocks and would
+// report samples the device never took.
+export const useFleetSync = (
+  stats: BatteryStats,
+  history: UsageData[],
+  sessions: BatterySession[],
+  sourceKind: BatterySourceKind,
+  isOnline: boolean,
+  t: Translator
+) => {
+  const [config, setConfigState] = useState<RelayConfig>(loadRelayConfig);
+  const [lastPush, setLastPush] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const latest = useRef({ stats, history, sessions });
+  latest.current = { stats, history, sessions };
+  const translatorRef = useRef(t);
+  translatorRef.current = t;
+  const pushedUntil = useRef(0); // Timestamp of the newest point the relay already has
+
+  const setConfig = useCallback((next: RelayConfig) => {
+    setConfigState(next);
+    saveRelayConfig(next);
+  }, []);
+
+  const syncing = sourceKind === 'system';
+
+  // A new source has its own history, so start over from its first point
+  useEffect(() => {
+    pushedUntil.current = 0;
+  }, [sourceKind]);
+
+  useEffect(() => {
+    if (!isPaired(config) || !isOnline || !syncing) return;
+
+    const push = () => {
+      const { stats, history, sessions } = latest.current;
+      const fresh = history.filter(point => point.timestamp > pushedUntil.current);
+      pushReport(config, { stats, summary: summarizeSessions(sessions), sourceKind: 'system', history: fresh })
+        .then(() => {
+          if (fresh.length) pushedUntil.current = fresh[fresh.length - 1].timestamp;
+          setLastPush(Date.now());
+          setError(null);
+        })
+        .catch(err => setError(err instanceof RelayError && err.status === 401
+          ? translatorRef.current('fleet.unknownDevice')
+          : err.message));
+    };
+
+    push();
+    const pushInterval = setInterval(push, PUSH_INTERVAL_MS);
+    return () => clearInterval(pushInterval);
+  }, [config, isOnline, syncing]);
+
+  const pair = useCallback(async (url: string, deviceName: string, pairingCode: string) => {
+    setError(null);
+    try {
+      setConfig(await pairDevice({ ...config, url, deviceName }, pairingCode));
+      pushedUntil.current = 0;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [config, setConfig]);
+
+  const unpair = useCallback(async () => {
+    // Forget the credentials even if the relay is unreachable
+    await unpairDevice(config).catch(err => console.warn('Failed to remove device from relay:', err));
+    setConfig({ ...DEFAULT_RELAY_CONFIG, url: config.url, deviceName: config.deviceName });
+    setLastPush(null);
+    setError(null);
+  }, [config, setConfig]);
+
+  return { config, paired: isPaired(config), syncing, lastPush, error, pair, unpair };
+};
@@ -0,0 +1,8 @@
+
+import { createContext, useContext } from 'react';
+import { I18n, createI18n } from '../services/i18n';
+
+// Provided by App from the locale in settings
+export const I18nContext = createContext<I18n>(createI18n('en'));
+
+export const useI18n = (): I18n => useContext(I18nContext);
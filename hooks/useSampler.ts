@@ -0,0 +1,24 @@
+
+import { useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { BatterySource } from '../types';
+import { createSampler } from '../services/sampler';
+import { recordSample } from '../services/historyStore';
+
+// One sampler per source; changing the interval retimes it without restarting
+// the source. Only real measurements are persisted.
+export const useSampler = (source: BatterySource, baseIntervalMs: number, windowMs: number) => {
+  // Read through a ref so a new interval doesn't recreate the sampler; the effect below applies it
+  const intervalRef = useRef(baseIntervalMs);
+  intervalRef.current = baseIntervalMs;
+  const sampler = useMemo(
+    () => createSampler({
+      source, baseIntervalMs: intervalRef.current, windowMs, persist: source.kind === 'system' ? recordSample : undefined
+    }),
+    [source, windowMs]
+  );
+
+  useEffect(() => sampler.setBaseInterval(baseIntervalMs), [sampler, baseIntervalMs]);
+
+  const snapshot = useSyncExternalStore(sampler.subscribe, sampler.getSnapshot);
+  return { sampler, ...snapshot };
+};
@@ -0,0 +1,35 @@
+
+import { useCallback, useEffect, useState } from 'react';
+import { activateUpdate, isServiceWorkerSupported, registerServiceWorker } from '../services/serviceWorker';
+
+export const useServiceWorker = () => {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    if (!isServiceWorkerSupported()) return;
+
+    // The first install also claims the page; only a replaced controller means new code
+    const hadController = Boolean(navigator.serviceWorker.controller);
+    let reloading = false;
+    const handleControllerChange = () => {
+      if (!hadController || reloading) return;
+      reloading = true;
+      window.location.reload();
+    };
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+    const stopUpdateChecks = registerServiceWorker(setWaitingWorker);
+
+    return () => {
+      stopUpdateChecks();
+      navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (waitingWorker) activateUpdate(waitingWorker);
+  }, [waitingWorker]);
+
+  const dismissUpdate = useCallback(() => setWaitingWorker(null), []);
+
+  return { updateAvailable: waitingWorker !== null, applyUpdate, dismissUpdate };
+};
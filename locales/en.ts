@@ -0,0 +1,430 @@
+
+// Source locale: every other locale must provide the same keys (checked by the
+// compiler through MessageKey). Placeholders use {name}.
+const en = {
+  // App shell
+  'app.subtitle': 'AI-Powered Monitoring System',
+  'app.offlineBanner': 'Offline Mode - Data Local Only',
+  'app.settings': 'Settings',
+  'app.install': 'Install',
+  'app.deepAnalyze': 'Deep Analyze',
+  'app.view.dashboard': 'Dashboard',
+  'app.view.fleet': 'Fleet',
+  'app.update.ready': 'A new version of BatteryCore is ready.',
+  'app.update.later': 'Later',
+  'app.update.reload': 'Reload',
+
+  // Dashboard
+  'stats.temperature': 'Temperature',
+  'stats.voltage': 'Voltage',
+  'stats.simulatedBadge': 'Sim',
+  'stats.notMeasured': 'Not measured',
+  'gauge.charging': 'Charging',
+  'gauge.discharging': 'Discharging',
+  'gauge.target': 'Target {floor}–{ceiling}%',
+  'metrics.title': 'Charging Metrics',
+  'metrics.chargeState': 'Charge State',
+  'metrics.active': 'Active',
+  'metrics.idle': 'Idle',
+  'metrics.fullChargeEta': 'Full Charge ETA',
+  'metrics.timeToEmpty': 'Time to Empty',
+  'metrics.notAvailable': 'N/A',
+  'metrics.predictionBasis': 'Based on {basis} · {rate}%/h',
+  'metrics.basis.trend': 'recent trend',
+  'metrics.basis.sessions': 'past sessions',
+  'metrics.basis.trend+sessions': 'recent trend and past sessions',
+  'metrics.basis.browser': 'browser estimate',
+  'metrics.batteryHealth': 'Battery Health',
+  'metrics.cyclesConfidence': '{cycles} cycles · {confidence} confidence',
+  'health.grade.Good': 'Good',
+  'health.grade.Fair': 'Fair',
+  'health.grade.Poor': 'Poor',
+  'health.grade.Unknown': 'Unknown',
+  'health.confidence.low': 'low',
+  'health.confidence.medium': 'medium',
+  'health.confidence.high': 'high',
+  'health.factor.cycles': 'Charge cycles',
+  'health.factor.dischargeRate': 'Faster discharge',
+  'health.factor.chargeRate': 'Slower charging',
+  'health.factor.highTemperature': 'Heat exposure',
+  'health.factor.highCharge': 'Time at high charge',
+  'health.detail.cycles': '{cycles} equivalent full cycles recorded',
+  'health.detail.dischargeRate': '{recent} min per % now vs {baseline} min per % at baseline',
+  'health.detail.chargeRate': '{recent} min per % now vs {baseline} min per % at baseline',
+  'health.detail.highTemperature': '{percent}% of measured time above {threshold} °C',
+  'health.detail.highCharge': '{percent}% of time at or above {threshold}%',
+  'optimization.title': 'Optimization Settings',
+  'optimization.deepCycle': 'Deep Cycle Analysis',
+
+  // Source selector
+  'source.kind.system': 'Live',
+  'source.kind.simulated': 'Simulated',
+  'source.kind.replay': 'Replay',
+  'source.option.system': 'Battery API',
+  'source.option.simulated': 'Simulator',
+  'source.option.replay': 'Replay file…',
+  'source.current': 'Source: {label}',
+  'source.label.system': 'Battery Status API',
+  'source.label.simulated': 'Simulator: {scenario}',
+  'source.label.simulatedFast': 'Simulator: {scenario} ({speed}×)',
+  'source.label.replay': 'Replay',
+  'source.label.replayNamed': 'Replay: {name}',
+  'scenario.steady-discharge.name': 'Steady discharge',
+  'scenario.steady-discharge.description': 'Unplugged office use at roughly 12% per hour.',
+  'scenario.fast-charge.name': 'Fast charge with taper',
+  'scenario.fast-charge.description': 'Plugged in at 15%; fast charging slows down above 80%.',
+  'scenario.overheating.name': 'Overheating event',
+  'scenario.overheating.description': 'Heavy load drives temperature above 45 °C before cooling down.',
+  'scenario.sudden-drop.name': 'Sudden drop',
+  'scenario.sudden-drop.description': 'Gauge miscalibration: the level falls by 25% in one step.',
+  'scenario.plug-cycles.name': 'Plug/unplug cycles',
+  'scenario.plug-cycles.description': 'Short top-ups alternating with discharge, repeating forever.',
+  'scenario.phase.lightUse': 'Light use',
+  'scenario.phase.fastCharge': 'Fast charge',
+  'scenario.phase.normalUse': 'Normal use',
+  'scenario.phase.heavyLoad': 'Heavy load',
+  'scenario.phase.coolDown': 'Cool down',
+  'scenario.phase.gaugeDrop': 'Gauge drop',
+  'scenario.phase.unplugged': 'Unplugged',
+  'scenario.phase.topUp': 'Top-up',
+  'source.readError': 'Could not read recording',
+
+  // History chart
+  'history.title': 'Usage History',
+  'history.temperature': 'Temperature',
+  'history.voltage': 'Voltage',
+  'history.charging': 'Charging',
+  'history.empty': 'No data for this range yet',
+  'history.level': 'Level',
+  'history.projected': 'Projected',
+  'history.events': 'Events',
+  'history.anomalies': 'Anomalies',
+
+  // Event timeline
+  'events.title': 'Event Timeline',
+  'events.empty': 'No events recorded yet',
+  'events.filter.all': 'All',
+  'events.filter.power': 'Power',
+  'events.filter.level': 'Level',
+  'events.filter.temperature': 'Heat',
+  'events.filter.app': 'App',
+  'events.filter.analysis': 'Analysis',
+  'events.plugged': 'Plugged in at {level}%',
+  'events.unplugged': 'Unplugged at {level}%',
+  'events.levelUp': 'Reached {mark}%',
+  'events.levelDown': 'Dropped below {mark}%',
+  'events.temperatureSpike': 'Temperature spiked to {temperature}',
+  'events.sourceChanged': 'Source changed to {label}',
+  'events.offline': 'Went offline',
+  'events.online': 'Back online',
+  'events.wakeLockAcquired': 'Screen wake lock acquired',
+  'events.wakeLockLost': 'Screen wake lock released',
+  'events.analysisAi': 'AI analysis: {status}',
+  'events.calibration': 'Calibration: {step}',
+  'events.analysisLocal': 'Local analysis: {status}',
+
+  // Insight card
+  'insight.localTitle': 'Local Analysis',
+  'insight.localBadge': 'Offline rules',
+  'insight.aiTitle': 'AI Analysis Active',
+  'insight.queued': "AI analysis queued — it will run automatically when you're back online",
+  'insight.syncedTitle': 'Battery analysis ready',
+  'insight.syncedBody': 'Your queued Deep Analyze finished. Open BatteryCore to see the report.',
+  'insight.unavailable': 'AI unavailable ({kind}) — showing local analysis instead',
+  'insight.error.not-configured': '{detail} is not configured',
+  'insight.error.timeout': 'The model did not answer in time',
+  'insight.error.aborted': 'Request was cancelled',
+  'insight.error.network': 'Network error: {detail}',
+  'insight.error.provider': 'Provider error: {detail}',
+  'insight.error.invalid-response': 'Malformed reply after {attempts} attempts: {detail}',
+  'insight.tip': 'TIP #{index}',
+  'insight.offlineEmpty': 'Offline — Deep Analyze runs local rule-based analysis',
+  'insight.empty': 'Run Deep Analysis for core insights',
+
+  // Report history
+  'reports.title': 'Report History',
+  'reports.compareHint': 'Select two to compare',
+  'reports.empty': 'No reports yet',
+  'reports.origin.ai': 'AI',
+  'reports.origin.local': 'Local',
+  'reports.compare': 'Compare report',
+  'reports.diff.changed': 'changed',
+  'reports.diff.status': 'Status',
+  'reports.diff.estimatedLife': 'Estimated life',
+  'reports.diff.recommendation': 'Recommendation',
+  'reports.diff.tips': 'Tips',
+  'reports.diff.unchanged': 'Unchanged',
+  'reports.diff.level': 'Level',
+  'reports.diff.temperature': 'Temperature',
+  'reports.diff.voltage': 'Voltage',
+  'reports.diff.healthScore': 'Health score',
+  'common.showMore': 'Show more',
+  'common.close': 'Close',
+  'common.dismiss': 'Dismiss',
+
+  // Anomalies
+  'anomalies.title': 'Anomalies',
+  'anomalies.learning': 'Learning this device\'s normal drain: {count} of {needed} measurements so far.',
+  'anomalies.empty': 'Nothing unusual in the recent data.',
+  'anomalies.emptyLearning': 'No clear anomalies yet; drain comparisons start once the baseline is learned.',
+  'anomalies.kind.fastDrain': 'Fast drain',
+  'anomalies.kind.levelJump': 'Level jump',
+  'anomalies.kind.chargeStall': 'Charging stall',
+  'anomalies.kind.temperature': 'Temperature excursion',
+  'anomalies.fastDrain': 'Drained {observed}%/h, {ratio}× the usual {expected}%/h ({slot}); {deviation}σ above normal.',
+  'anomalies.levelJump': 'Level went from {from}% to {to}% in {minutes} min, faster than real use or charging allows. The gauge may need calibrating.',
+  'anomalies.chargeStall': 'Charging stalled at {level}%: {observed}%/h against the usual {expected}%/h ({deviation}σ below normal).',
+  'anomalies.chargeStallPlain': 'Charging stalled at {level}%: only {observed}%/h while plugged in.',
+  'anomalies.temperature': 'Reached {temperature} against a usual {expected}; {deviation}σ above normal.',
+  'anomalies.temperaturePlain': 'Reached {temperature}, above the safe range.',
+  'anomalies.block.night': 'at night',
+  'anomalies.block.morning': 'in the morning',
+  'anomalies.block.afternoon': 'in the afternoon',
+  'anomalies.block.evening': 'in the evening',
+  'anomalies.screen.on': 'screen on',
+  'anomalies.screen.off': 'screen off',
+  'anomalies.overall': 'overall',
+
+  // Assistant
+  'assistant.title': 'Battery Assistant',
+  'assistant.clear': 'New chat',
+  'assistant.empty': 'Ask about your recorded history, sessions and past reports.',
+  'assistant.suggestion.drain': 'Why did it drain so fast this afternoon?',
+  'assistant.suggestion.habits': 'Is my charging habit hurting capacity?',
+  'assistant.suggestion.yesterday': 'How did the battery do yesterday?',
+  'assistant.placeholder': 'Ask a follow-up question…',
+  'assistant.send': 'Send',
+  'assistant.stop': 'Stop',
+  'assistant.thinking': 'Answering',
+  'assistant.error': 'The assistant could not answer ({kind})',
+  'assistant.offline': 'Offline — the assistant needs a connection to the model',
+  'assistant.notConfigured': 'The assistant needs a configured model provider',
+  'assistant.reason.asked': 'Time range from the question',
+  'assistant.reason.recent': 'Last 24 hours',
+  'assistant.reason.habits': 'Last 30 days of sessions',
+
+  // Sessions
+  'sessions.title': 'Sessions',
+  'sessions.cycles': '{count} cycles',
+  'sessions.filter.all': 'All',
+  'sessions.filter.charge': 'Charge',
+  'sessions.filter.discharge': 'Discharge',
+  'sessions.empty': 'No sessions recorded yet',
+
+  // Energy
+  'energy.title': 'Energy',
+  'energy.unconfigured': 'Set the battery design capacity to see energy, cost and CO₂ estimates.',
+  'energy.configure': 'Open settings',
+  'energy.lastHour': 'Last hour',
+  'energy.lastDay': 'Last 24 h',
+  'energy.dailyAverage': 'Per day',
+  'energy.consumed': 'Consumed',
+  'energy.charged': 'Charged',
+  'energy.fromWall': 'From the wall',
+  'energy.cost': 'Cost',
+  'energy.co2': 'CO₂',
+  'energy.averageBasis': 'Per-day figures average the last {days} day(s) of sessions.',
+  'energy.powerIn': '≈ {watts} W in',
+  'energy.powerOut': '≈ {watts} W out',
+  'energy.export': 'Export CSV',
+
+  // Calibration
+  'calibration.intro': 'Guided calibration: charge to 100%, discharge to the chosen floor with the screen on, then recharge. Takes several hours.',
+  'calibration.floor': 'Discharge down to',
+  'calibration.start': 'Start',
+  'calibration.abort': 'Abort',
+  'calibration.step.charge': 'Charge',
+  'calibration.step.discharge': 'Discharge',
+  'calibration.step.recharge': 'Recharge',
+  'calibration.step.complete': 'Complete',
+  'calibration.step.aborted': 'Aborted',
+  'calibration.todo.charge': 'Plug in and charge to 100%.',
+  'calibration.todo.unplug': 'Full. Unplug to start the discharge.',
+  'calibration.todo.starting': 'Full and unplugged; the discharge starts with the next sample.',
+  'calibration.todo.discharge': 'Keep this page open at a fixed brightness and avoid heavy use until {floor}%.',
+  'calibration.todo.keepUnplugged': 'Unplug: the charger is connected during the discharge step.',
+  'calibration.todo.plugIn': 'Floor reached. Plug in and charge back to 100%.',
+  'calibration.todo.recharge': 'Recharging to 100%; the charge taper is being recorded.',
+  'calibration.wakeLockMissing': 'The screen wake lock is not held, so the load is not steady. Keep this page visible.',
+  'calibration.lastRun': 'Last run · {date}',
+  'calibration.capacity': 'Effective capacity',
+  'calibration.baseline': 'Baseline (first run)',
+  'calibration.capacityValue': '{percent}% of {runs} earlier run(s)',
+  'calibration.discharge': 'Discharge',
+  'calibration.linearity': 'Curve linearity',
+  'calibration.taper': 'Charge taper from',
+  'calibration.recharge': 'Recharge',
+  'calibration.noAnomalies': 'No anomalies detected',
+  'calibration.anomaly.levelJump': 'Sudden drop to {level}%',
+  'calibration.anomaly.plateau': 'Level stuck at {level}%',
+  'calibration.anomaly.pluggedIn': 'Charger connected at {level}% during the discharge',
+  'calibration.anomaly.wakeLockLost': 'Wake lock lost at {level}%',
+  'calibration.anomaly.highTemperature': 'High temperature at {level}%',
+  'calibration.analyze': 'Analyse with insights',
+
+  // Smart charge
+  'smartCharge.title': 'Smart Charge Mode',
+  'smartCharge.unplugAt': 'Unplug at',
+  'smartCharge.plugInAt': 'Plug in at',
+  'smartCharge.respected': 'Limit respected',
+  'smartCharge.noCharges': 'No charges yet',
+  'smartCharge.overshoot': 'Average overshoot',
+
+  // Alerts
+  'alerts.title': 'Alerts',
+  'alerts.rule.lowBattery': 'Low battery',
+  'alerts.rule.chargeTarget': 'Charge target',
+  'alerts.rule.highTemperature': 'Temperature above',
+  'alerts.rule.fastDrain': 'Drain faster than',
+  'alerts.rule.smartChargeCeiling': 'Smart charge ceiling',
+  'alerts.rule.smartChargeFloor': 'Smart charge floor',
+  'alerts.systemNotifications': 'System notifications',
+  'alerts.allow': 'Allow',
+  'alerts.blocked': 'Blocked',
+  'alerts.unsupported': 'Unsupported',
+  'alerts.quietHours': 'Quiet hours',
+  'alerts.log': 'Alert log',
+  'alerts.clear': 'Clear',
+  'alerts.empty': 'No alerts yet',
+  'alerts.snooze': 'Snooze',
+  'alert.lowBattery.title': 'Battery low',
+  'alert.lowBattery.message': 'Battery is at {level}%. Plug in soon.',
+  'alert.chargeTarget.title': 'Charge target reached',
+  'alert.chargeTarget.message': 'Battery reached {level}%. You can unplug now.',
+  'alert.smartChargeCeiling.title': 'Unplug now',
+  'alert.smartChargeCeiling.message': 'Battery reached {level}% — your smart charge limit is {threshold}%.',
+  'alert.smartChargeFloor.title': 'Time to plug in',
+  'alert.smartChargeFloor.message': 'Battery is at {level}% — your smart charge floor is {threshold}%.',
+  'alert.highTemperature.title': 'Battery temperature high',
+  'alert.highTemperature.message': 'Battery is at {temperature} °C. Reduce load and let it cool down.',
+  'alert.fastDrain.title': 'Unusually fast drain',
+  'alert.fastDrain.message': 'Draining at {rate}% per hour. Check for power-hungry apps.',
+
+  // Data export
+  'data.title': 'Data Export',
+  'data.exportJson': 'Export bundle (JSON)',
+  'data.exportCsv': '{kind} CSV',
+  'data.csv.history': 'History',
+  'data.csv.sessions': 'Sessions',
+  'data.csv.reports': 'Reports',
+  'data.mode.merge': 'Merge into history',
+  'data.mode.compare': 'Open for comparison',
+  'data.import': 'Import bundle…',
+  'data.imported': 'Imported {samples} samples, {sessions} sessions and {reports} reports',
+  'data.localLoadError': 'Could not load local data: {message}',
+  'data.error.invalidJson': 'The file is not valid JSON',
+  'data.error.notBundle': 'Not a BatteryCore export file',
+  'data.error.unsupportedVersion': 'Unsupported export version {version}; update the app to import it',
+  'data.error.invalidSection': 'Export file has an invalid "{section}" section',
+  'data.error.invalidRecord': 'Export file has an invalid record in "{section}" (item {item})',
+  'data.comparing': 'Comparing with {label}',
+  'data.thisDevice': 'This device',
+  'data.importedColumn': 'Imported',
+  'data.row.days': 'Days of data',
+  'data.row.health': 'Health score',
+  'data.row.cycles': 'Equivalent cycles',
+  'data.row.dischargeRate': 'Avg discharge rate',
+  'data.row.chargeRate': 'Avg charge rate',
+  'data.row.depth': 'Avg depth of discharge',
+  'data.row.chargesToFull': 'Charges to full',
+  'data.row.overnight': 'Overnight charges',
+
+  // Settings
+  'settings.title': 'Settings',
+  'settings.sampling': 'Sampling',
+  'settings.sampleEvery': 'Record a sample every',
+  'settings.sampleAdaptive': 'Sampling speeds up while charging or draining fast and slows down when idle or in the background. Now: {interval}.',
+  'settings.insights': 'Insights',
+  'settings.autoAnalyze': 'Analyse automatically',
+  'settings.insightDelta': 'When the level changes by',
+  'settings.model': 'Model',
+  'settings.modelDefault': 'default',
+  'settings.habitWindow': 'Charging habits to summarise',
+  'settings.habitWindowDays': '{count} days',
+  'settings.energy': 'Energy',
+  'settings.energyHint': 'Enter the design capacity from the device spec sheet to turn level changes into energy. Tariff and grid intensity are optional.',
+  'settings.designCapacity': 'Design capacity',
+  'settings.nominalVoltage': 'Nominal voltage',
+  'settings.chargerEfficiency': 'Charger efficiency',
+  'settings.tariff': 'Electricity tariff',
+  'settings.currency': 'Currency',
+  'settings.gridIntensity': 'Grid carbon intensity',
+  'settings.notSet': 'not set',
+  'settings.display': 'Display',
+  'settings.language': 'Language',
+  'settings.gaugeLow': 'Gauge turns red at or below',
+  'settings.gaugeHigh': 'Gauge turns green above',
+  'settings.temperatureUnit': 'Temperature unit',
+  'settings.reset': 'Reset to defaults',
+
+  // Fleet
+  'fleet.thisDevice': 'This Device',
+  'fleet.name': 'Name',
+  'fleet.relay': 'Relay',
+  'fleet.lastPush': 'Last push',
+  'fleet.paused': 'Sync is paused while a simulated or replayed source is selected.',
+  'fleet.unpair': 'Unpair',
+  'fleet.relayUrl': 'Relay URL',
+  'fleet.deviceName': 'Device name, e.g. Pixel 8 #2',
+  'fleet.pairingCode': 'Pairing code',
+  'fleet.pair': 'Pair this device',
+  'fleet.pairing': 'Pairing…',
+  'fleet.title': 'Fleet',
+  'fleet.deviceCount': '{count} devices',
+  'fleet.notPaired': 'Pair with a relay to see the fleet',
+  'fleet.noDevices': 'No devices have reported yet',
+  'fleet.you': 'you',
+  'fleet.charging': 'Charging',
+  'fleet.onBattery': 'Battery',
+  'fleet.health': 'Health: {grade}',
+  'fleet.waiting': 'Waiting for first report',
+  'fleet.unknownDevice': 'The relay no longer knows this device — pair it again',
+  'fleet.lastSeen.never': 'never',
+  'fleet.lastSeen.now': 'just now',
+  'fleet.lastSeen.minutes': '{count} min ago',
+  'fleet.lastSeen.hours': '{count} h ago',
+  'fleet.detail.title': '{name} · last 24 h',
+  'fleet.detail.cycles': 'Cycles (7 d)',
+  'fleet.detail.chargesToFull': 'Charges to full',
+  'fleet.detail.drain': 'Avg. drain',
+  'fleet.detail.depth': 'Avg. depth',
+  'fleet.detail.empty': 'No history pushed yet',
+
+  // Local rule-based insights
+  'local.status.hot': 'Running Hot',
+  'local.status.nearlyFull': 'Nearly Full',
+  'local.status.charging': 'Charging Normally',
+  'local.status.critical': 'Critically Low',
+  'local.status.low': 'Running Low',
+  'local.status.stable': 'Stable Discharge',
+  'local.normal': 'Battery behaviour looks normal — no action needed right now.',
+  'local.remaining.toFull': 'About {duration} until fully charged at the current rate.',
+  'local.remaining.noChargeHistory': 'Not enough charging history yet to estimate time to full.',
+  'local.remaining.left': 'About {duration} of use left at the current drain rate.',
+  'local.remaining.noHistory': 'Not enough history yet to estimate remaining runtime.',
+  'local.general.brightness': 'Lower screen brightness or enable adaptive brightness to cut display drain.',
+  'local.general.background': 'Close background tabs and apps that keep the CPU awake.',
+  'local.general.range': 'Keep the battery between 20% and 80% for everyday use to slow wear.',
+  'local.general.heat': 'Avoid charging in hot places such as direct sunlight or on soft surfaces.',
+  'local.overheating.recommendation': 'Battery is at {temperature} °C — pause heavy workloads and let the device cool down.',
+  'local.overheating.tip': 'Heat is the main driver of capacity loss; keep the device ventilated under load.',
+  'local.criticalLevel.recommendation': 'Only {level}% left — plug in now to avoid a deep discharge.',
+  'local.criticalLevel.tip': 'Deep discharges below 10% stress the cell; top up before you reach the red zone.',
+  'local.fastDrain.recommendation': 'Drain is high at {rate}% per hour — look for a power-hungry app or screen setting.',
+  'local.fastDrain.tip': 'Check which apps are running in the background; sustained drain above 25%/h usually has a single culprit.',
+  'local.highCharge.recommendation': "Already at {level}% — unplug around {ceiling}% if you don't need a full charge.",
+  'local.highCharge.tip': 'Stopping at 80% instead of 100% noticeably extends cycle life.',
+  'local.chargesToFull.recommendation': 'You charged to 100% {count} times in the last {days} days — consider a lower charge limit.',
+  'local.chargesToFull.tip': '{count} of {total} recent charges went to full; an 80% ceiling reduces wear.',
+  'local.overnight.recommendation': '{count} overnight charges in the last {days} days keep the battery at 100% for hours — try charging earlier in the evening.',
+  'local.overnight.tip': 'Overnight charging holds the cell at high voltage for hours; use a timer or charge limit.',
+  'local.deepDischarge.recommendation': 'Discharges average {depth}% deep — shallower cycles are gentler on the battery.',
+  'local.deepDischarge.tip': 'Frequent partial charges are healthier for lithium cells than full discharge cycles.',
+  'local.health.recommendation': 'Health score is {score}/100, mainly due to {factor}.',
+  'local.health.tip': 'Biggest health factor: {factor} (−{impact} points).',
+  'local.health.defaultFactor': 'wear'
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
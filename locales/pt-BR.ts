@@ -0,0 +1,428 @@
+
+import { MessageKey } from './en';
+
+const ptBR: Record<MessageKey, string> = {
+  // App shell
+  'app.subtitle': 'Sistema de monitoramento com IA',
+  'app.offlineBanner': 'Modo offline - dados apenas locais',
+  'app.settings': 'Configurações',
+  'app.install': 'Instalar',
+  'app.deepAnalyze': 'Análise profunda',
+  'app.view.dashboard': 'Painel',
+  'app.view.fleet': 'Frota',
+  'app.update.ready': 'Uma nova versão do BatteryCore está pronta.',
+  'app.update.later': 'Depois',
+  'app.update.reload': 'Recarregar',
+
+  // Dashboard
+  'stats.temperature': 'Temperatura',
+  'stats.voltage': 'Tensão',
+  'stats.simulatedBadge': 'Sim',
+  'stats.notMeasured': 'Não medido',
+  'gauge.charging': 'Carregando',
+  'gauge.discharging': 'Descarregando',
+  'gauge.target': 'Meta {floor}–{ceiling}%',
+  'metrics.title': 'Métricas de carga',
+  'metrics.chargeState': 'Estado da carga',
+  'metrics.active': 'Ativo',
+  'metrics.idle': 'Inativo',
+  'metrics.fullChargeEta': 'Carga completa em',
+  'metrics.timeToEmpty': 'Tempo até esgotar',
+  'metrics.notAvailable': 'N/D',
+  'metrics.predictionBasis': 'Baseado em {basis} · {rate}%/h',
+  'metrics.basis.trend': 'tendência recente',
+  'metrics.basis.sessions': 'sessões anteriores',
+  'metrics.basis.trend+sessions': 'tendência recente e sessões anteriores',
+  'metrics.basis.browser': 'estimativa do navegador',
+  'metrics.batteryHealth': 'Saúde da bateria',
+  'metrics.cyclesConfidence': '{cycles} ciclos · confiança {confidence}',
+  'health.grade.Good': 'Boa',
+  'health.grade.Fair': 'Regular',
+  'health.grade.Poor': 'Ruim',
+  'health.grade.Unknown': 'Desconhecida',
+  'health.confidence.low': 'baixa',
+  'health.confidence.medium': 'média',
+  'health.confidence.high': 'alta',
+  'health.factor.cycles': 'Ciclos de carga',
+  'health.factor.dischargeRate': 'Descarga mais rápida',
+  'health.factor.chargeRate': 'Carga mais lenta',
+  'health.factor.highTemperature': 'Exposição ao calor',
+  'health.factor.highCharge': 'Tempo com carga alta',
+  'health.detail.cycles': '{cycles} ciclos completos equivalentes registrados',
+  'health.detail.dischargeRate': '{recent} min por % agora vs {baseline} min por % na referência',
+  'health.detail.chargeRate': '{recent} min por % agora vs {baseline} min por % na referência',
+  'health.detail.highTemperature': '{percent}% do tempo medido acima de {threshold} °C',
+  'health.detail.highCharge': '{percent}% do tempo em {threshold}% ou mais',
+  'optimization.title': 'Otimização',
+  'optimization.deepCycle': 'Análise de ciclo profundo',
+
+  // Source selector
+  'source.kind.system': 'Ao vivo',
+  'source.kind.simulated': 'Simulado',
+  'source.kind.replay': 'Reprodução',
+  'source.option.system': 'API de bateria',
+  'source.option.simulated': 'Simulador',
+  'source.option.replay': 'Arquivo de gravação…',
+  'source.current': 'Fonte: {label}',
+  'source.label.system': 'API Battery Status',
+  'source.label.simulated': 'Simulador: {scenario}',
+  'source.label.simulatedFast': 'Simulador: {scenario} ({speed}×)',
+  'source.label.replay': 'Reprodução',
+  'source.label.replayNamed': 'Reprodução: {name}',
+  'scenario.steady-discharge.name': 'Descarga constante',
+  'scenario.steady-discharge.description': 'Uso de escritório fora da tomada, cerca de 12% por hora.',
+  'scenario.fast-charge.name': 'Carga rápida com redução',
+  'scenario.fast-charge.description': 'Conectado em 15%; a carga rápida desacelera acima de 80%.',
+  'scenario.overheating.name': 'Superaquecimento',
+  'scenario.overheating.description': 'Carga pesada leva a temperatura acima de 45 °C antes de esfriar.',
+  'scenario.sudden-drop.name': 'Queda repentina',
+  'scenario.sudden-drop.description': 'Medidor descalibrado: o nível cai 25% de uma vez.',
+  'scenario.plug-cycles.name': 'Ciclos de conectar/desconectar',
+  'scenario.plug-cycles.description': 'Recargas curtas alternadas com descarga, repetindo sem parar.',
+  'scenario.phase.lightUse': 'Uso leve',
+  'scenario.phase.fastCharge': 'Carga rápida',
+  'scenario.phase.normalUse': 'Uso normal',
+  'scenario.phase.heavyLoad': 'Carga pesada',
+  'scenario.phase.coolDown': 'Resfriamento',
+  'scenario.phase.gaugeDrop': 'Queda do medidor',
+  'scenario.phase.unplugged': 'Desconectado',
+  'scenario.phase.topUp': 'Recarga',
+  'source.readError': 'Não foi possível ler a gravação',
+
+  // History chart
+  'history.title': 'Histórico de uso',
+  'history.temperature': 'Temperatura',
+  'history.voltage': 'Tensão',
+  'history.charging': 'Carregando',
+  'history.empty': 'Ainda não há dados para este período',
+  'history.level': 'Nível',
+  'history.projected': 'Projeção',
+  'history.events': 'Eventos',
+  'history.anomalies': 'Anomalias',
+
+  // Event timeline
+  'events.title': 'Linha do tempo de eventos',
+  'events.empty': 'Nenhum evento registrado ainda',
+  'events.filter.all': 'Todos',
+  'events.filter.power': 'Energia',
+  'events.filter.level': 'Nível',
+  'events.filter.temperature': 'Calor',
+  'events.filter.app': 'App',
+  'events.filter.analysis': 'Análise',
+  'events.plugged': 'Conectado em {level}%',
+  'events.unplugged': 'Desconectado em {level}%',
+  'events.levelUp': 'Chegou a {mark}%',
+  'events.levelDown': 'Caiu abaixo de {mark}%',
+  'events.temperatureSpike': 'Pico de temperatura: {temperature}',
+  'events.sourceChanged': 'Fonte alterada para {label}',
+  'events.offline': 'Ficou offline',
+  'events.online': 'Voltou a ficar online',
+  'events.wakeLockAcquired': 'Bloqueio de tela ativa adquirido',
+  'events.wakeLockLost': 'Bloqueio de tela ativa liberado',
+  'events.analysisAi': 'Análise por IA: {status}',
+  'events.calibration': 'Calibração: {step}',
+  'events.analysisLocal': 'Análise local: {status}',
+
+  // Insight card
+  'insight.localTitle': 'Análise local',
+  'insight.localBadge': 'Regras offline',
+  'insight.aiTitle': 'Análise por IA ativa',
+  'insight.queued': 'Análise por IA na fila — ela será executada automaticamente quando você voltar a ficar online',
+  'insight.syncedTitle': 'Análise da bateria pronta',
+  'insight.syncedBody': 'A análise profunda na fila foi concluída. Abra o BatteryCore para ver o relatório.',
+  'insight.unavailable': 'IA indisponível ({kind}) — exibindo a análise local',
+  'insight.error.not-configured': '{detail} não está configurado',
+  'insight.error.timeout': 'O modelo não respondeu a tempo',
+  'insight.error.aborted': 'A solicitação foi cancelada',
+  'insight.error.network': 'Erro de rede: {detail}',
+  'insight.error.provider': 'Erro do provedor: {detail}',
+  'insight.error.invalid-response': 'Resposta malformada após {attempts} tentativas: {detail}',
+  'insight.tip': 'DICA #{index}',
+  'insight.offlineEmpty': 'Offline — a Análise profunda usa regras locais',
+  'insight.empty': 'Execute a Análise profunda para ver os insights',
+
+  // Report history
+  'reports.title': 'Histórico de relatórios',
+  'reports.compareHint': 'Selecione dois para comparar',
+  'reports.empty': 'Nenhum relatório ainda',
+  'reports.origin.ai': 'IA',
+  'reports.origin.local': 'Local',
+  'reports.compare': 'Comparar relatório',
+  'reports.diff.changed': 'alterado',
+  'reports.diff.status': 'Status',
+  'reports.diff.estimatedLife': 'Autonomia estimada',
+  'reports.diff.recommendation': 'Recomendação',
+  'reports.diff.tips': 'Dicas',
+  'reports.diff.unchanged': 'Sem alterações',
+  'reports.diff.level': 'Nível',
+  'reports.diff.temperature': 'Temperatura',
+  'reports.diff.voltage': 'Tensão',
+  'reports.diff.healthScore': 'Pontuação de saúde',
+  'common.showMore': 'Mostrar mais',
+  'common.close': 'Fechar',
+  'common.dismiss': 'Dispensar',
+
+  // Anomalies
+  'anomalies.title': 'Anomalias',
+  'anomalies.learning': 'Aprendendo o consumo normal deste dispositivo: {count} de {needed} medições até agora.',
+  'anomalies.empty': 'Nada fora do normal nos dados recentes.',
+  'anomalies.emptyLearning': 'Nenhuma anomalia clara ainda; as comparações de consumo começam quando a linha de base for aprendida.',
+  'anomalies.kind.fastDrain': 'Descarga rápida',
+  'anomalies.kind.levelJump': 'Salto de nível',
+  'anomalies.kind.chargeStall': 'Carga parada',
+  'anomalies.kind.temperature': 'Excursão de temperatura',
+  'anomalies.fastDrain': 'Descarregou {observed}%/h, {ratio}× o habitual de {expected}%/h ({slot}); {deviation}σ acima do normal.',
+  'anomalies.levelJump': 'O nível foi de {from}% para {to}% em {minutes} min, mais rápido do que o uso ou a carga permitem. O medidor pode precisar de calibração.',
+  'anomalies.chargeStall': 'A carga parou em {level}%: {observed}%/h contra o habitual de {expected}%/h ({deviation}σ abaixo do normal).',
+  'anomalies.chargeStallPlain': 'A carga parou em {level}%: apenas {observed}%/h conectado.',
+  'anomalies.temperature': 'Chegou a {temperature} contra o habitual de {expected}; {deviation}σ acima do normal.',
+  'anomalies.temperaturePlain': 'Chegou a {temperature}, acima da faixa segura.',
+  'anomalies.block.night': 'de madrugada',
+  'anomalies.block.morning': 'de manhã',
+  'anomalies.block.afternoon': 'à tarde',
+  'anomalies.block.evening': 'à noite',
+  'anomalies.screen.on': 'tela ligada',
+  'anomalies.screen.off': 'tela desligada',
+  'anomalies.overall': 'em geral',
+
+  // Assistant
+  'assistant.title': 'Assistente de Bateria',
+  'assistant.clear': 'Nova conversa',
+  'assistant.empty': 'Pergunte sobre o histórico registrado, as sessões e os relatórios anteriores.',
+  'assistant.suggestion.drain': 'Por que descarregou tão rápido esta tarde?',
+  'assistant.suggestion.habits': 'Meu hábito de carga está prejudicando a capacidade?',
+  'assistant.suggestion.yesterday': 'Como a bateria se saiu ontem?',
+  'assistant.placeholder': 'Faça uma pergunta de acompanhamento…',
+  'assistant.send': 'Enviar',
+  'assistant.stop': 'Parar',
+  'assistant.thinking': 'Respondendo',
+  'assistant.error': 'O assistente não conseguiu responder ({kind})',
+  'assistant.offline': 'Offline — o assistente precisa de conexão com o modelo',
+  'assistant.notConfigured': 'O assistente precisa de um provedor de modelo configurado',
+  'assistant.reason.asked': 'Intervalo citado na pergunta',
+  'assistant.reason.recent': 'Últimas 24 horas',
+  'assistant.reason.habits': 'Últimos 30 dias de sessões',
+
+  // Sessions
+  'sessions.title': 'Sessões',
+  'sessions.cycles': '{count} ciclos',
+  'sessions.filter.all': 'Todas',
+  'sessions.filter.charge': 'Carga',
+  'sessions.filter.discharge': 'Descarga',
+  'sessions.empty': 'Nenhuma sessão registrada ainda',
+
+  // Energy
+  'energy.title': 'Energia',
+  'energy.unconfigured': 'Defina a capacidade nominal da bateria para ver estimativas de energia, custo e CO₂.',
+  'energy.configure': 'Abrir configurações',
+  'energy.lastHour': 'Última hora',
+  'energy.lastDay': 'Últimas 24 h',
+  'energy.dailyAverage': 'Por dia',
+  'energy.consumed': 'Consumida',
+  'energy.charged': 'Carregada',
+  'energy.fromWall': 'Da tomada',
+  'energy.cost': 'Custo',
+  'energy.co2': 'CO₂',
+  'energy.averageBasis': 'Os valores por dia são a média dos últimos {days} dia(s) de sessões.',
+  'energy.powerIn': '≈ {watts} W entrando',
+  'energy.powerOut': '≈ {watts} W saindo',
+  'energy.export': 'Exportar CSV',
+
+  // Calibration
+  'calibration.intro': 'Calibração guiada: carregue até 100%, descarregue até o piso escolhido com a tela ligada e recarregue. Leva várias horas.',
+  'calibration.floor': 'Descarregar até',
+  'calibration.start': 'Iniciar',
+  'calibration.abort': 'Cancelar',
+  'calibration.step.charge': 'Carga',
+  'calibration.step.discharge': 'Descarga',
+  'calibration.step.recharge': 'Recarga',
+  'calibration.step.complete': 'Concluída',
+  'calibration.step.aborted': 'Cancelada',
+  'calibration.todo.charge': 'Conecte o carregador e carregue até 100%.',
+  'calibration.todo.unplug': 'Carga completa. Desconecte para iniciar a descarga.',
+  'calibration.todo.starting': 'Carga completa e desconectado; a descarga começa na próxima amostra.',
+  'calibration.todo.discharge': 'Mantenha esta página aberta com brilho fixo e evite uso intenso até {floor}%.',
+  'calibration.todo.keepUnplugged': 'Desconecte: o carregador está ligado durante a etapa de descarga.',
+  'calibration.todo.plugIn': 'Piso atingido. Conecte e carregue de volta até 100%.',
+  'calibration.todo.recharge': 'Recarregando até 100%; a redução da taxa de carga está sendo registrada.',
+  'calibration.wakeLockMissing': 'O bloqueio de tela não está ativo, então a carga não é constante. Mantenha esta página visível.',
+  'calibration.lastRun': 'Última execução · {date}',
+  'calibration.capacity': 'Capacidade efetiva',
+  'calibration.baseline': 'Referência (primeira execução)',
+  'calibration.capacityValue': '{percent}% de {runs} execução(ões) anterior(es)',
+  'calibration.discharge': 'Descarga',
+  'calibration.linearity': 'Linearidade da curva',
+  'calibration.taper': 'Redução da carga a partir de',
+  'calibration.recharge': 'Recarga',
+  'calibration.noAnomalies': 'Nenhuma anomalia detectada',
+  'calibration.anomaly.levelJump': 'Queda repentina para {level}%',
+  'calibration.anomaly.plateau': 'Nível parado em {level}%',
+  'calibration.anomaly.pluggedIn': 'Carregador conectado em {level}% durante a descarga',
+  'calibration.anomaly.wakeLockLost': 'Bloqueio de tela perdido em {level}%',
+  'calibration.anomaly.highTemperature': 'Temperatura alta em {level}%',
+  'calibration.analyze': 'Analisar com insights',
+
+  // Smart charge
+  'smartCharge.title': 'Carga inteligente',
+  'smartCharge.unplugAt': 'Desconectar em',
+  'smartCharge.plugInAt': 'Conectar em',
+  'smartCharge.respected': 'Limite respeitado',
+  'smartCharge.noCharges': 'Nenhuma carga ainda',
+  'smartCharge.overshoot': 'Excesso médio',
+
+  // Alerts
+  'alerts.title': 'Alertas',
+  'alerts.rule.lowBattery': 'Bateria fraca',
+  'alerts.rule.chargeTarget': 'Meta de carga',
+  'alerts.rule.highTemperature': 'Temperatura acima de',
+  'alerts.rule.fastDrain': 'Consumo acima de',
+  'alerts.rule.smartChargeCeiling': 'Teto da carga inteligente',
+  'alerts.rule.smartChargeFloor': 'Piso da carga inteligente',
+  'alerts.systemNotifications': 'Notificações do sistema',
+  'alerts.allow': 'Permitir',
+  'alerts.blocked': 'Bloqueadas',
+  'alerts.unsupported': 'Sem suporte',
+  'alerts.quietHours': 'Horário silencioso',
+  'alerts.log': 'Registro de alertas',
+  'alerts.clear': 'Limpar',
+  'alerts.empty': 'Nenhum alerta ainda',
+  'alerts.snooze': 'Adiar',
+  'alert.lowBattery.title': 'Bateria fraca',
+  'alert.lowBattery.message': 'A bateria está em {level}%. Conecte o carregador em breve.',
+  'alert.chargeTarget.title': 'Meta de carga atingida',
+  'alert.chargeTarget.message': 'A bateria chegou a {level}%. Você já pode desconectar.',
+  'alert.smartChargeCeiling.title': 'Desconecte agora',
+  'alert.smartChargeCeiling.message': 'A bateria chegou a {level}% — o limite da carga inteligente é {threshold}%.',
+  'alert.smartChargeFloor.title': 'Hora de conectar',
+  'alert.smartChargeFloor.message': 'A bateria está em {level}% — o piso da carga inteligente é {threshold}%.',
+  'alert.highTemperature.title': 'Temperatura da bateria alta',
+  'alert.highTemperature.message': 'A bateria está a {temperature} °C. Reduza o uso e deixe-a esfriar.',
+  'alert.fastDrain.title': 'Consumo anormalmente rápido',
+  'alert.fastDrain.message': 'Descarregando {rate}% por hora. Verifique apps que consomem muita energia.',
+
+  // Data export
+  'data.title': 'Exportação de dados',
+  'data.exportJson': 'Exportar pacote (JSON)',
+  'data.exportCsv': 'CSV de {kind}',
+  'data.csv.history': 'Histórico',
+  'data.csv.sessions': 'Sessões',
+  'data.csv.reports': 'Relatórios',
+  'data.mode.merge': 'Mesclar ao histórico',
+  'data.mode.compare': 'Abrir para comparação',
+  'data.import': 'Importar pacote…',
+  'data.imported': '{samples} amostras, {sessions} sessões e {reports} relatórios importados',
+  'data.localLoadError': 'Não foi possível carregar os dados locais: {message}',
+  'data.error.invalidJson': 'O arquivo não é um JSON válido',
+  'data.error.notBundle': 'Não é um arquivo de exportação do BatteryCore',
+  'data.error.unsupportedVersion': 'Versão de exportação {version} não suportada; atualize o app para importá-la',
+  'data.error.invalidSection': 'O arquivo de exportação tem uma seção "{section}" inválida',
+  'data.error.invalidRecord': 'O arquivo de exportação tem um registro inválido em "{section}" (item {item})',
+  'data.comparing': 'Comparando com {label}',
+  'data.thisDevice': 'Este dispositivo',
+  'data.importedColumn': 'Importado',
+  'data.row.days': 'Dias de dados',
+  'data.row.health': 'Pontuação de saúde',
+  'data.row.cycles': 'Ciclos equivalentes',
+  'data.row.dischargeRate': 'Taxa média de descarga',
+  'data.row.chargeRate': 'Taxa média de carga',
+  'data.row.depth': 'Profundidade média de descarga',
+  'data.row.chargesToFull': 'Cargas até 100%',
+  'data.row.overnight': 'Cargas noturnas',
+
+  // Settings
+  'settings.title': 'Configurações',
+  'settings.sampling': 'Amostragem',
+  'settings.sampleEvery': 'Registrar uma amostra a cada',
+  'settings.sampleAdaptive': 'A amostragem acelera durante a carga ou descarga rápida e desacelera quando ociosa ou em segundo plano. Agora: {interval}.',
+  'settings.insights': 'Insights',
+  'settings.autoAnalyze': 'Analisar automaticamente',
+  'settings.insightDelta': 'Quando o nível mudar em',
+  'settings.model': 'Modelo',
+  'settings.modelDefault': 'padrão',
+  'settings.habitWindow': 'Hábitos de carga a resumir',
+  'settings.habitWindowDays': '{count} dias',
+  'settings.energy': 'Energia',
+  'settings.energyHint': 'Informe a capacidade nominal da ficha técnica do aparelho para converter variações de nível em energia. Tarifa e intensidade da rede são opcionais.',
+  'settings.designCapacity': 'Capacidade nominal',
+  'settings.nominalVoltage': 'Tensão nominal',
+  'settings.chargerEfficiency': 'Eficiência do carregador',
+  'settings.tariff': 'Tarifa de energia',
+  'settings.currency': 'Moeda',
+  'settings.gridIntensity': 'Intensidade de carbono da rede',
+  'settings.notSet': 'não definido',
+  'settings.display': 'Exibição',
+  'settings.language': 'Idioma',
+  'settings.gaugeLow': 'Indicador fica vermelho em ou abaixo de',
+  'settings.gaugeHigh': 'Indicador fica verde acima de',
+  'settings.temperatureUnit': 'Unidade de temperatura',
+  'settings.reset': 'Restaurar padrões',
+
+  // Fleet
+  'fleet.thisDevice': 'Este dispositivo',
+  'fleet.name': 'Nome',
+  'fleet.relay': 'Relay',
+  'fleet.lastPush': 'Último envio',
+  'fleet.paused': 'A sincronização fica pausada enquanto uma fonte simulada ou reproduzida está selecionada.',
+  'fleet.unpair': 'Desparear',
+  'fleet.relayUrl': 'URL do relay',
+  'fleet.deviceName': 'Nome do dispositivo, ex.: Pixel 8 #2',
+  'fleet.pairingCode': 'Código de pareamento',
+  'fleet.pair': 'Parear este dispositivo',
+  'fleet.pairing': 'Pareando…',
+  'fleet.title': 'Frota',
+  'fleet.deviceCount': '{count} dispositivos',
+  'fleet.notPaired': 'Pareie com um relay para ver a frota',
+  'fleet.noDevices': 'Nenhum dispositivo enviou dados ainda',
+  'fleet.you': 'você',
+  'fleet.charging': 'Carregando',
+  'fleet.onBattery': 'Bateria',
+  'fleet.health': 'Saúde: {grade}',
+  'fleet.waiting': 'Aguardando o primeiro envio',
+  'fleet.unknownDevice': 'O relay não reconhece mais este dispositivo — pareie novamente',
+  'fleet.lastSeen.never': 'nunca',
+  'fleet.lastSeen.now': 'agora mesmo',
+  'fleet.lastSeen.minutes': 'há {count} min',
+  'fleet.lastSeen.hours': 'há {count} h',
+  'fleet.detail.title': '{name} · últimas 24 h',
+  'fleet.detail.cycles': 'Ciclos (7 d)',
+  'fleet.detail.chargesToFull': 'Cargas até 100%',
+  'fleet.detail.drain': 'Consumo médio',
+  'fleet.detail.depth': 'Profundidade média',
+  'fleet.detail.empty': 'Nenhum histórico enviado ainda',
+
+  // Local rule-based insights
+  'local.status.hot': 'Bateria quente',
+  'local.status.nearlyFull': 'Quase cheia',
+  'local.status.charging': 'Carregando normalmente',
+  'local.status.critical': 'Criticamente baixa',
+  'local.status.low': 'Bateria baixa',
+  'local.status.stable': 'Descarga estável',
+  'local.normal': 'O comportamento da bateria parece normal — nenhuma ação necessária agora.',
+  'local.remaining.toFull': 'Cerca de {duration} até a carga completa no ritmo atual.',
+  'local.remaining.noChargeHistory': 'Ainda não há histórico de carga suficiente para estimar o tempo até 100%.',
+  'local.remaining.left': 'Cerca de {duration} de uso restante no ritmo de consumo atual.',
+  'local.remaining.noHistory': 'Ainda não há histórico suficiente para estimar a autonomia restante.',
+  'local.general.brightness': 'Reduza o brilho da tela ou ative o brilho adaptável para diminuir o consumo da tela.',
+  'local.general.background': 'Feche abas e apps em segundo plano que mantêm a CPU ativa.',
+  'local.general.range': 'No dia a dia, mantenha a bateria entre 20% e 80% para reduzir o desgaste.',
+  'local.general.heat': 'Evite carregar em locais quentes, como sob luz solar direta ou sobre superfícies macias.',
+  'local.overheating.recommendation': 'A bateria está a {temperature} °C — pause tarefas pesadas e deixe o dispositivo esfriar.',
+  'local.overheating.tip': 'O calor é a principal causa de perda de capacidade; mantenha o dispositivo ventilado sob carga.',
+  'local.criticalLevel.recommendation': 'Restam apenas {level}% — conecte agora para evitar uma descarga profunda.',
+  'local.criticalLevel.tip': 'Descargas abaixo de 10% estressam a célula; recarregue antes de chegar à zona vermelha.',
+  'local.fastDrain.recommendation': 'O consumo está alto, {rate}% por hora — procure um app ou ajuste de tela que gaste muita energia.',
+  'local.fastDrain.tip': 'Verifique quais apps rodam em segundo plano; um consumo contínuo acima de 25%/h costuma ter um único culpado.',
+  'local.highCharge.recommendation': 'Já está em {level}% — desconecte por volta de {ceiling}% se não precisar da carga completa.',
+  'local.highCharge.tip': 'Parar em 80% em vez de 100% prolonga visivelmente a vida útil em ciclos.',
+  'local.chargesToFull.recommendation': 'Você carregou até 100% {count} vezes nos últimos {days} dias — considere um limite de carga menor.',
+  'local.chargesToFull.tip': '{count} de {total} cargas recentes foram até 100%; um teto de 80% reduz o desgaste.',
+  'local.overnight.recommendation': '{count} cargas noturnas nos últimos {days} dias mantêm a bateria em 100% por horas — tente carregar mais cedo à noite.',
+  'local.overnight.tip': 'Carregar durante a noite mantém a célula em tensão alta por horas; use um timer ou um limite de carga.',
+  'local.deepDischarge.recommendation': 'As descargas chegam em média a {depth}% de profundidade — ciclos mais curtos são mais gentis com a bateria.',
+  'local.deepDischarge.tip': 'Cargas parciais frequentes são mais saudáveis para células de lítio do que ciclos completos de descarga.',
+  'local.health.recommendation': 'A pontuação de saúde é {score}/100, principalmente por causa de: {factor}.',
+  'local.health.tip': 'Maior fator de saúde: {factor} (−{impact} pontos).',
+  'local.health.defaultFactor': 'desgaste'
+};
+
+export default ptBR;
@@ -0,0 +1,196 @@
+// Minimal self-hostable sync relay for the fleet view. No dependencies:
+//   RELAY_PAIRING_CODE=secret npm run relay
+// Devices pair with the pairing code, then push their stats with the token they
+// received. Any paired device may read the fleet. State lives in a JSON file.
+
+import { createServer } from 'http';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+
+const PORT = Number(process.env.RELAY_PORT ?? 8787);
+const DATA_FILE = process.env.RELAY_DATA ?? fileURLToPath(new URL('./relay-data.json', import.meta.url));
+const PAIRING_CODE = process.env.RELAY_PAIRING_CODE ?? randomBytes(3).toString('hex');
+const HISTORY_LIMIT = 5000;           // Points kept per device
+const MAX_BODY_BYTES = 1024 * 1024;
+const SAVE_DELAY_MS = 2000;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000; // Points further ahead of the relay's clock are rejected
+
+const state = existsSync(DATA_FILE)
+  ? JSON.parse(readFileSync(DATA_FILE, 'utf-8'))
+  : { devices: {} };
+
+let saveTimer = null;
+const scheduleSave = () => {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    writeFileSync(DATA_FILE, JSON.stringify(state));
+  }, SAVE_DELAY_MS);
+};
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+// An oversized body is left unread; the error handler answers 413 and then closes the connection
+const readJson = (req) => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', (chunk) => {
+    if (size > MAX_BODY_BYTES) return;
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      req.pause();
+      reject(new HttpError(413, 'Body too large'));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf-8')) : {});
+    } catch {
+      reject(new HttpError(400, 'Body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isHistoryPoint = (point) =>
+  isObject(point) && Number.isFinite(point.timestamp) && Number.isFinite(point.level);
+
+// Compares digests, which always have the same length, in constant time so
+// response times reveal nothing about a token or the pairing code
+const digest = (value) => createHash('sha256').update(String(value)).digest();
+const secretsEqual = (a, b) => timingSafeEqual(digest(a), digest(b));
+
+const bearer = (req) => (req.headers.authorization ?? '').replace(/^Bearer\s+/i, '');
+
+const authenticate = (req) => {
+  const token = bearer(req);
+  const device = Object.values(state.devices).find((candidate) => secretsEqual(candidate.token, token));
+  if (!token || !device) throw new HttpError(401, 'Unknown device token');
+  return device;
+};
+
+// Public view of a device, without its token or history
+const summarize = ({ id, name, pairedAt, lastSeen, sourceKind, stats, summary }) =>
+  ({ id, name, pairedAt, lastSeen, sourceKind, stats, summary });
+
+const routes = [
+  ['POST', /^\/api\/pair$/, async (req) => {
+    const body = await readJson(req);
+    if (!isObject(body)) throw new HttpError(400, 'Body must be a JSON object');
+    const { name, pairingCode } = body;
+    if (typeof pairingCode !== 'string' || !secretsEqual(pairingCode, PAIRING_CODE)) throw new HttpError(403, 'Wrong pairing code');
+    if (typeof name !== 'string' || !name.trim()) throw new HttpError(400, 'Device name is required');
+
+    const device = {
+      id: randomUUID(),
+      name: name.trim().slice(0, 64),
+      token: randomBytes(24).toString('hex'),
+      pairedAt: Date.now(),
+      lastSeen: null,
+      sourceKind: null,
+      stats: null,
+      summary: null,
+      history: []
+    };
+    state.devices[device.id] = device;
+    scheduleSave();
+    return [201, { deviceId: device.id, token: device.token }];
+  }],
+
+  ['POST', /^\/api\/devices\/([\w-]+)\/reports$/, async (req, [, id]) => {
+    const device = authenticate(req);
+    if (device.id !== id) throw new HttpError(403, 'Token belongs to another device');
+
+    const body = await readJson(req);
+    if (!isObject(body)) throw new HttpError(400, 'Body must be a JSON object');
+    const { stats, summary, sourceKind, history = [] } = body;
+    if (!isObject(stats) || typeof stats.level !== 'number') throw new HttpError(400, 'stats.level is required');
+    if (!Array.isArray(history) || !history.every(isHistoryPoint)) {
+      throw new HttpError(400, 'history must be an array of { timestamp, level } points');
+    }
+    // A future timestamp would become lastTimestamp and hide every real point after it
+    const latestAccepted = Date.now() + MAX_CLOCK_SKEW_MS;
+    if (history.some((point) => point.timestamp > latestAccepted)) {
+      throw new HttpError(400, 'history contains timestamps in the future');
+    }
+
+    // Drop points stored before future timestamps were rejected, so they stop masking new ones
+    device.history = device.history.filter((point) => point.timestamp <= latestAccepted);
+    const lastTimestamp = device.history.at(-1)?.timestamp ?? 0;
+    device.history.push(...history.filter((point) => point.timestamp > lastTimestamp));
+    device.history = device.history.slice(-HISTORY_LIMIT);
+    Object.assign(device, { stats, summary: summary ?? null, sourceKind: sourceKind ?? null, lastSeen: Date.now() });
+    scheduleSave();
+    return [204];
+  }],
+
+  ['DELETE', /^\/api\/devices\/([\w-]+)$/, async (req, [, id]) => {
+    const device = authenticate(req);
+    if (device.id !== id) throw new HttpError(403, 'Token belongs to another device');
+    delete state.devices[id];
+    scheduleSave();
+    return [204];
+  }],
+
+  ['GET', /^\/api\/devices$/, async (req) => {
+    authenticate(req);
+    return [200, Object.values(state.devices).map(summarize)];
+  }],
+
+  ['GET', /^\/api\/devices\/([\w-]+)\/history$/, async (req, [, id], url) => {
+    authenticate(req);
+    const device = state.devices[id];
+    if (!device) throw new HttpError(404, 'Unknown device');
+    const from = Number(url.searchParams.get('from') ?? 0);
+    return [200, device.history.filter((point) => point.timestamp >= from)];
+  }]
+];
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  try {
+    for (const [method, pattern, handler] of routes) {
+      const match = url.pathname.match(pattern);
+      if (match && req.method === method) {
+        const [status, body] = await handler(req, match, url);
+        return send(res, status, body);
+      }
+    }
+    throw new HttpError(404, 'Not found');
+  } catch (err) {
+    const status = err instanceof HttpError ? err.status : 500;
+    if (status === 500) console.error(err);
+    if (status === 413) {
+      res.setHeader('Connection', 'close');
+      res.on('finish', () => req.destroy());
+    }
+    send(res, status, { error: err.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`BatteryCore relay listening on http://localhost:${PORT}`);
+  console.log(`Pairing code: ${PAIRING_CODE}`);
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { BatteryStats } from '../types';
+import { AlertState, DEFAULT_ALERT_CONFIG, INITIAL_ALERT_STATE, evaluateAlerts, snoozeRule } from './alertEngine';
+import { UNKNOWN_HEALTH } from './healthModel';
+import { createTranslator } from './i18n';
+
+const NOW = Date.UTC(2025, 0, 6, 12);
+const t = createTranslator('en');
+
+const stats = (level: number, charging = false, temperature: number | null = null): BatteryStats => ({
+  level,
+  charging,
+  chargingTime: Infinity,
+  dischargingTime: Infinity,
+  temperature,
+  voltage: null,
+  health: UNKNOWN_HEALTH
+});
+
+// Feeds readings one after another, returning the rules that fired at each step
+const replay = (readings: BatteryStats[], state: AlertState = INITIAL_ALERT_STATE) =>
+  readings.map(reading => {
+    const result = evaluateAlerts(reading, null, DEFAULT_ALERT_CONFIG, state, NOW, t);
+    state = result.state;
+    return result.alerts.map(alert => alert.rule);
+  });
+
+describe('alert hysteresis', () => {
+  it('fires low battery once while the level hovers around the threshold', () => {
+    expect(replay([stats(21), stats(20), stats(21), stats(19), stats(22), stats(20)]))
+      .toEqual([[], ['lowBattery'], [], [], [], []]);
+  });
+
+  it('re-arms once the level clears the threshold by the margin', () => {
+    expect(replay([stats(20), stats(24), stats(20)]))
+      .toEqual([['lowBattery'], [], ['lowBattery']]);
+  });
+
+  it('re-arms the charge target when the charger is unplugged', () => {
+    expect(replay([stats(80, true), stats(79, true), stats(80, false), stats(80, true)]))
+      .toEqual([['chargeTarget'], [], [], ['chargeTarget']]);
+  });
+
+  it('uses the temperature margin and skips sources without a sensor', () => {
+    expect(replay([stats(50, false, 40), stats(50, false, 39), stats(50, false, null), stats(50, false, 37.5), stats(50, false, 41)]))
+      .toEqual([['highTemperature'], [], [], [], ['highTemperature']]);
+  });
+
+  it('disarms a snoozed rule without raising the alert', () => {
+    const snoozed = snoozeRule(INITIAL_ALERT_STATE, 'lowBattery', 30, NOW);
+    const { alerts, state } = evaluateAlerts(stats(15), null, DEFAULT_ALERT_CONFIG, snoozed, NOW, t);
+
+    expect(alerts).toEqual([]);
+    expect(state.armed.lowBattery).toBe(false);
+  });
+});
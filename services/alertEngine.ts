@@ -0,0 +1,191 @@
+
+import { AlertConfig, AlertRule, AlertRuleId, BatteryAlert, BatteryStats, UsageData } from '../types';
+import { Translator, createTranslator } from './i18n';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DRAIN_WINDOW_MS = 10 * 60 * 1000;
+const STORAGE_KEY = 'batterycore.alerts';
+
+// Distance a value must move back past the threshold before the rule re-arms
+const HYSTERESIS: Record<AlertRuleId, number> = {
+  lowBattery: 3,
+  chargeTarget: 3,
+  highTemperature: 2,
+  fastDrain: 5,
+  smartChargeCeiling: 3,
+  smartChargeFloor: 3
+};
+
+export const DEFAULT_ALERT_CONFIG: AlertConfig = {
+  rules: [
+    { id: 'lowBattery', enabled: true, threshold: 20 },
+    { id: 'chargeTarget', enabled: true, threshold: 80 },
+    { id: 'highTemperature', enabled: true, threshold: 40 },
+    { id: 'fastDrain', enabled: true, threshold: 30 }
+  ],
+  systemNotifications: false,
+  quietHours: { enabled: false, start: 22, end: 7 },
+  snoozeMinutes: 30
+};
+
+export interface AlertState {
+  armed: Record<AlertRuleId, boolean>;
+  snoozedUntil: Partial<Record<AlertRuleId, number>>;
+}
+
+export const INITIAL_ALERT_STATE: AlertState = {
+  armed: {
+    lowBattery: true, chargeTarget: true, highTemperature: true, fastDrain: true,
+    smartChargeCeiling: true, smartChargeFloor: true
+  },
+  snoozedUntil: {}
+};
+
+export const loadAlertConfig = (): AlertConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_ALERT_CONFIG, ...JSON.parse(stored) } : DEFAULT_ALERT_CONFIG;
+  } catch {
+    return DEFAULT_ALERT_CONFIG;
+  }
+};
+
+export const saveAlertConfig = (config: AlertConfig) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+
+// Drain in % per hour over the last few minutes of unplugged history
+export const recentDrainRate = (history: UsageData[], now: number): number | null => {
+  const window = history.filter(point => point.timestamp >= now - DRAIN_WINDOW_MS && !point.charging);
+  if (window.length < 2) return null;
+  const first = window[0];
+  const last = window[window.length - 1];
+  const hours = (last.timestamp - first.timestamp) / HOUR_MS;
+  if (hours < DRAIN_WINDOW_MS / HOUR_MS / 2) return null;
+  return Math.max(0, first.level - last.level) / hours;
+};
+
+export const isQuietTime = (config: AlertConfig, now: number): boolean => {
+  const { enabled, start, end } = config.quietHours;
+  if (!enabled) return false;
+  const hour = new Date(now).getHours();
+  return start <= end ? hour >= start && hour < end : hour >= start || hour < end;
+};
+
+interface RuleCheck {
+  triggered: boolean;
+  recovered: boolean;
+  alert: () => Omit<BatteryAlert, 'createdAt' | 'notified'>;
+}
+
+const checkRule = (rule: AlertRule, stats: BatteryStats, drainPerHour: number | null, t: Translator): RuleCheck | null => {
+  const margin = HYSTERESIS[rule.id];
+  switch (rule.id) {
+    case 'lowBattery':
+      return {
+        triggered: !stats.charging && stats.level <= rule.threshold,
+        recovered: stats.charging || stats.level > rule.threshold + margin,
+        alert: () => ({
+          rule: rule.id,
+          severity: stats.level <= 10 ? 'critical' : 'warning',
+          title: t('alert.lowBattery.title'),
+          message: t('alert.lowBattery.message', { level: stats.level })
+        })
+      };
+    case 'chargeTarget':
+      return {
+        triggered: stats.charging && stats.level >= rule.threshold,
+        recovered: !stats.charging || stats.level < rule.threshold - margin,
+        alert: () => ({
+          rule: rule.id,
+          severity: 'info',
+          title: t('alert.chargeTarget.title'),
+          message: t('alert.chargeTarget.message', { level: stats.level })
+        })
+      };
+    case 'smartChargeCeiling':
+      return {
+        triggered: stats.charging && stats.level >= rule.threshold,
+        recovered: !stats.charging || stats.level < rule.threshold - margin,
+        alert: () => ({
+          rule: rule.id,
+          severity: 'warning',
+          title: t('alert.smartChargeCeiling.title'),
+          message: t('alert.smartChargeCeiling.message', { level: stats.level, threshold: rule.threshold })
+        })
+      };
+    case 'smartChargeFloor':
+      return {
+        triggered: !stats.charging && stats.level <= rule.threshold,
+        recovered: stats.charging || stats.level > rule.threshold + margin,
+        alert: () => ({
+          rule: rule.id,
+          severity: 'info',
+          title: t('alert.smartChargeFloor.title'),
+          message: t('alert.smartChargeFloor.message', { level: stats.level, threshold: rule.threshold })
+        })
+      };
+    case 'highTemperature':
+      if (stats.temperature === null) return null;
+      return {
+        triggered: stats.temperature >= rule.threshold,
+        recovered: stats.temperature < rule.threshold - margin,
+        alert: () => ({
+          rule: rule.id,
+          severity: 'critical',
+          title: t('alert.highTemperature.title'),
+          message: t('alert.highTemperature.message', { temperature: stats.temperature })
+        })
+      };
+    case 'fastDrain':
+      if (drainPerHour === null) return null;
+      return {
+        triggered: !stats.charging && drainPerHour >= rule.threshold,
+        recovered: stats.charging || drainPerHour < rule.threshold - margin,
+        alert: () => ({
+          rule: rule.id,
+          severity: 'warning',
+          title: t('alert.fastDrain.title'),
+          message: t('alert.fastDrain.message', { rate: Math.round(drainPerHour) })
+        })
+      };
+  }
+};
+
+// Each rule fires once when its condition starts holding and re-arms only after
+// the value moves back past the threshold by the hysteresis margin. Titles and
+// messages are written with `t`, so they stay in the language they fired in.
+export const evaluateAlerts = (
+  stats: BatteryStats,
+  drainPerHour: number | null,
+  config: AlertConfig,
+  state: AlertState,
+  now: number,
+  t: Translator = createTranslator()
+): { alerts: BatteryAlert[]; state: AlertState } => {
+  const armed = { ...state.armed };
+  const alerts: BatteryAlert[] = [];
+  const quiet = isQuietTime(config, now);
+
+  for (const rule of config.rules) {
+    if (!rule.enabled) continue;
+    const check = checkRule(rule, stats, drainPerHour, t);
+    if (!check) continue;
+
+    if (check.triggered && armed[rule.id]) {
+      armed[rule.id] = false;
+      const snoozed = (state.snoozedUntil[rule.id] ?? 0) > now;
+      if (!snoozed) {
+        alerts.push({ ...check.alert(), createdAt: now, notified: config.systemNotifications && !quiet });
+      }
+    } else if (check.recovered) {
+      armed[rule.id] = true;
+    }
+  }
+
+  return { alerts, state: { ...state, armed } };
+};
+
+export const snoozeRule = (state: AlertState, rule: AlertRuleId, minutes: number, now = Date.now()): AlertState => ({
+  ...state,
+  snoozedUntil: { ...state.snoozedUntil, [rule]: now + minutes * 60 * 1000 }
+});
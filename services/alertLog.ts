@@ -0,0 +1,25 @@
+
+import { BatteryAlert } from '../types';
+import { STORES, openDatabase, requestToPromise, transactionDone } from './database';
+
+export const logAlert = async (alert: BatteryAlert): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.alerts, 'readwrite');
+  tx.objectStore(STORES.alerts).put(alert);
+  await transactionDone(tx);
+};
+
+// Most recent alerts first
+export const queryAlertLog = async (limit = 100): Promise<BatteryAlert[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.alerts, 'readonly').objectStore(STORES.alerts);
+  const alerts = await requestToPromise(store.getAll() as IDBRequest<BatteryAlert[]>);
+  return alerts.reverse().slice(0, limit);
+};
+
+export const clearAlertLog = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.alerts, 'readwrite');
+  tx.objectStore(STORES.alerts).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,126 @@
+
+import {
+  BatteryStats, InsightContext, InsightProvider, InsightProviderKind, InsightResult, QueuedAnalysis, ReplayableRequest
+} from '../types';
+import { STORES, getAll, openDatabase, putAll, requestToPromise, transactionDone } from './database';
+import { buildInsightPrompt } from './geminiService';
+import { Translator, createTranslator } from './i18n';
+import { readGeminiResponse } from './geminiProvider';
+import { parseInsight } from './insightSchema';
+import { readChatCompletion } from './openAiProvider';
+
+export const SYNC_TAG = 'deep-analyze'; // Must match sw.js
+
+const RESPONSE_READERS: Record<InsightProviderKind, (body: unknown) => string> = {
+  gemini: readGeminiResponse,
+  openai: readChatCompletion
+};
+
+export const isBackgroundSyncSupported = (): boolean =>
+  'serviceWorker' in navigator && 'SyncManager' in window;
+
+const withCredentials = (request: ReplayableRequest, provider: InsightProvider): ReplayableRequest =>
+  ({ ...request, headers: { ...request.headers, ...provider.credentialHeaders() } });
+
+// The service worker keeps the key, and the notification text in the page's
+// language, in memory only. If it was restarted since, it leaves entries
+// pending until the page shares them again.
+const requestBackgroundSync = async (provider: InsightProvider, t: Translator) => {
+  if (!isBackgroundSyncSupported()) return;
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({
+    type: 'replay-credentials',
+    providerKind: provider.kind,
+    headers: provider.credentialHeaders(),
+    notification: { title: t('insight.syncedTitle'), body: t('insight.syncedBody') }
+  });
+  // `sync` is part of the Background Sync API, which lib.dom doesn't include
+  await (registration as ServiceWorkerRegistration & { sync: { register(tag: string): Promise<void> } }).sync.register(SYNC_TAG);
+};
+
+export const countPendingAnalyses = async (): Promise<number> =>
+  (await getAll<QueuedAnalysis>(STORES.analysisQueue)).filter(entry => entry.status === 'pending').length;
+
+// Stores the request for replay once online. Only the newest pending request is
+// kept: older ones describe stats that are already out of date.
+export const queueAnalysis = async (stats: BatteryStats, context: InsightContext, provider: InsightProvider): Promise<void> => {
+  const entry: QueuedAnalysis = {
+    queuedAt: Date.now(),
+    stats,
+    providerKind: provider.kind,
+    providerLabel: provider.label,
+    locale: context.locale,
+    request: provider.toReplayableRequest(buildInsightPrompt(stats, context)),
+    status: 'pending'
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.analysisQueue, 'readwrite');
+  const store = tx.objectStore(STORES.analysisQueue);
+  const queued = await requestToPromise(store.getAll() as IDBRequest<QueuedAnalysis[]>);
+  queued.filter(previous => previous.status === 'pending').forEach(previous => store.delete(previous.queuedAt));
+  store.put(entry);
+  await transactionDone(tx);
+
+  await requestBackgroundSync(provider, createTranslator(context.locale));
+};
+
+// Hands the key to the service worker again, e.g. after a reload, so entries it had to skip get replayed
+export const resumeBackgroundSync = async (provider: InsightProvider, t: Translator): Promise<void> => {
+  if (await countPendingAnalyses() > 0) await requestBackgroundSync(provider, t);
+};
+
+// Fallback for browsers without Background Sync; mirrors the replay in sw.js
+export const replayPendingAnalyses = async (provider: InsightProvider): Promise<void> => {
+  const pending = (await getAll<QueuedAnalysis>(STORES.analysisQueue))
+    .filter(entry => entry.status === 'pending' && entry.providerKind === provider.kind);
+
+  for (const entry of pending) {
+    const { url, ...init } = withCredentials(entry.request, provider);
+    let replayed: QueuedAnalysis;
+    try {
+      const response = await fetch(url, init);
+      replayed = {
+        ...entry,
+        status: response.ok ? 'done' : 'failed',
+        responseText: await response.text(),
+        error: response.ok ? undefined : `HTTP ${response.status}`
+      };
+    } catch {
+      break; // Still offline; try again on the next reconnect
+    }
+    // Stored right away so a reply that arrived is never requested again
+    await putAll(STORES.analysisQueue, [replayed]);
+  }
+};
+
+const toResult = (entry: QueuedAnalysis): InsightResult => {
+  if (entry.status === 'failed') {
+    return { status: 'error', error: { kind: 'provider', message: entry.error ?? 'Queued request failed' } };
+  }
+
+  let text = '';
+  try {
+    text = RESPONSE_READERS[entry.providerKind](JSON.parse(entry.responseText ?? ''));
+  } catch {
+    return { status: 'error', error: { kind: 'invalid-response', message: 'Queued reply is not valid JSON' } };
+  }
+  const parsed = parseInsight(text);
+  return parsed.status === 'valid'
+    ? { status: 'ok', insight: parsed.insight, provider: entry.providerLabel }
+    : { status: 'error', error: { kind: 'invalid-response', message: parsed.problems.join('; ') } };
+};
+
+// Removes replayed entries from the queue and returns their outcome
+export const collectReplayedAnalyses = async (): Promise<Array<{ entry: QueuedAnalysis; result: InsightResult }>> => {
+  // Read and delete in one transaction so concurrent collectors can't both publish an entry
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.analysisQueue, 'readwrite');
+  const store = tx.objectStore(STORES.analysisQueue);
+  const finished = (await requestToPromise(store.getAll() as IDBRequest<QueuedAnalysis[]>))
+    .filter(entry => entry.status !== 'pending');
+  finished.forEach(entry => store.delete(entry.queuedAt));
+  await transactionDone(tx);
+
+  return finished.map(entry => ({ entry, result: toResult(entry) }));
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { UsageData } from '../types';
+import { EMPTY_BASELINE, IN_MEMORY_SCALE, detectAnomalies, isBaselineReady, learnBaseline } from './anomalyDetector';
+import { findScenario } from './scenarios';
+import { runScenario } from './simulatedSource';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2025, 0, 6, 9);
+
+const scenarioHistory = (scenarioId: string, durationMs: number): UsageData[] =>
+  runScenario(findScenario(scenarioId), { seed: 7, durationMs, stepMs: 30 * 1000, startAt: START })
+    .map(({ timestamp, level, charging, temperature, voltage }) => ({ timestamp, level, charging, temperature, voltage }));
+
+// One sample a minute from START
+const minutes = (points: Array<Omit<UsageData, 'timestamp'>>): UsageData[] =>
+  points.map((point, index) => ({ timestamp: START + index * MINUTE, ...point }));
+
+// The split useAnomalies applies to the sampler's in-memory window
+const detectLive = (history: UsageData[]) => {
+  const cutoff = history[history.length - 1].timestamp - 30 * MINUTE;
+  const baseline = learnBaseline(history.filter(point => point.timestamp < cutoff), IN_MEMORY_SCALE);
+  return { baseline, anomalies: detectAnomalies(history.filter(point => point.timestamp >= cutoff), baseline) };
+};
+
+describe('anomaly detection on in-memory sources', () => {
+  it('flags the heavy-load drain of the overheating scenario', () => {
+    const { baseline, anomalies } = detectLive(scenarioHistory('overheating', 60 * MINUTE));
+    const drain = anomalies.find(anomaly => anomaly.kind === 'fastDrain');
+
+    expect(isBaselineReady(baseline)).toBe(true);
+    expect(drain).toBeDefined();
+    expect(drain!.observed).toBeGreaterThan(30);
+    expect(drain!.expected).toBeLessThan(20);
+  });
+
+  it('flags nothing while the drain stays steady', () => {
+    const { baseline, anomalies } = detectLive(scenarioHistory('steady-discharge', 60 * MINUTE));
+
+    expect(isBaselineReady(baseline)).toBe(true);
+    expect(anomalies).toEqual([]);
+  });
+});
+
+describe('detectAnomalies without a learned baseline', () => {
+  it('flags a level jump between two consecutive samples', () => {
+    const history = minutes([70, 69, 62, 61].map(level => ({ level, charging: false })));
+
+    expect(detectAnomalies(history, EMPTY_BASELINE)).toEqual([{
+      kind: 'levelJump', start: START + MINUTE, end: START + 2 * MINUTE, level: 62, fromLevel: 69,
+      observed: -7, expected: null, deviation: null
+    }]);
+  });
+
+  it('merges readings over the absolute temperature limit into one region', () => {
+    const temperatures = [35, 41, 44, 42, 36];
+    const [hot] = detectAnomalies(minutes(temperatures.map(temperature => ({ level: 80, charging: false, temperature }))), EMPTY_BASELINE);
+
+    expect(hot).toMatchObject({ kind: 'temperature', start: START + MINUTE, end: START + 3 * MINUTE, observed: 44, expected: null });
+  });
+
+  it('flags a charger that stopped adding charge below the taper', () => {
+    const history = minutes(Array.from({ length: 46 }, () => ({ level: 50, charging: true })));
+    const stalls = detectAnomalies(history, EMPTY_BASELINE);
+
+    expect(stalls).toHaveLength(1);
+    expect(stalls[0]).toMatchObject({ kind: 'chargeStall', start: START, end: START + 45 * MINUTE, observed: 0, expected: null });
+  });
+});
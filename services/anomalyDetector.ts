@@ -0,0 +1,268 @@
+
+import { BatteryAnomaly, ScreenState, TimeBlock, UsageData } from '../types';
+import { HOUR_MS } from './historyStore';
+import { TEMPERATURE_SPIKE } from './eventLog';
+
+const MAX_WINDOW_MS = 90 * 60 * 1000;  // Windows spanning a gap longer than this are skipped
+const DRAIN_Z = 3;
+const DRAIN_RATIO = 1.5;               // A fast drain must also be this many times the usual rate
+const MIN_FAST_DRAIN = 5;              // %/h; slower drains are never flagged
+const JUMP_MAX_GAP_MS = 10 * 60 * 1000;
+const JUMP_DROP = 5;                   // % lost between consecutive samples while discharging
+const JUMP_AGAINST = 3;                // % moved against the charging state (rising unplugged, falling plugged in)
+const STALL_LEVEL_LIMIT = 95;          // Charging naturally crawls near full
+const TAPER_LEVEL = 80;
+const STALL_RATE = 1;                  // %/h
+const STALL_FRACTION = 0.25;           // Of the usual bulk charge rate
+const TEMPERATURE_Z = 3;
+const TEMPERATURE_MARGIN = 5;          // °C above the usual temperature before an excursion counts
+const MIN_STD_DEV = 1;                 // Floor so a very regular device doesn't flag noise
+
+export interface RateStats {
+  count: number;
+  mean: number;
+  stdDev: number;
+}
+
+export interface BaselineScale {
+  windowMs: number;        // Rates are measured over at least this span
+  minObservations: number; // Before a baseline slot is trusted
+}
+
+// Days of persisted history for the real battery
+export const STORED_SCALE: BaselineScale = { windowMs: 15 * 60 * 1000, minObservations: 8 };
+// The sampler's in-memory hour only fits a few 15-minute windows, so simulated
+// and replayed sources measure shorter ones and trust fewer of them
+export const IN_MEMORY_SCALE: BaselineScale = { windowMs: 5 * 60 * 1000, minObservations: 4 };
+
+// Learned per device from its own history. Detection reuses the scale the
+// baseline was learned at, so observed and usual rates are measured alike.
+export interface AnomalyBaseline {
+  scale: BaselineScale;
+  drain: Record<string, RateStats>; // By `${TimeBlock}:${ScreenState}`, plus per block (`:any`) and 'all'
+  charge: RateStats | null;         // Bulk charge rate, below the taper
+  temperature: RateStats | null;
+}
+
+export const EMPTY_BASELINE: AnomalyBaseline = { scale: STORED_SCALE, drain: {}, charge: null, temperature: null };
+
+interface RateWindow {
+  start: number;
+  end: number;
+  charging: boolean;
+  startLevel: number;
+  endLevel: number;
+  rate: number; // %/h lost while discharging, gained while charging
+  visible: boolean | undefined;
+}
+
+export const timeBlockOf = (timestamp: number): TimeBlock => {
+  const hour = new Date(timestamp).getHours();
+  if (hour < 6) return 'night';
+  if (hour < 12) return 'morning';
+  if (hour < 18) return 'afternoon';
+  return 'evening';
+};
+
+const screenOf = (visible: boolean | undefined): ScreenState =>
+  visible === undefined ? 'unknown' : visible ? 'on' : 'off';
+
+const statsOf = (values: number[]): RateStats | null => {
+  if (values.length === 0) return null;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { count: values.length, mean, stdDev: Math.sqrt(variance) };
+};
+
+const trusted = (stats: RateStats | null | undefined, scale: BaselineScale): stats is RateStats =>
+  Boolean(stats) && stats!.count >= scale.minObservations;
+
+const zScore = (value: number, stats: RateStats) => (value - stats.mean) / Math.max(stats.stdDev, MIN_STD_DEV);
+
+// Non-overlapping windows of constant charging state, each at least `windowMs` long
+const rateWindows = (history: UsageData[], windowMs: number): RateWindow[] => {
+  const windows: RateWindow[] = [];
+  let i = 0;
+  while (i < history.length - 1) {
+    let j = i + 1;
+    while (j < history.length && history[j].timestamp - history[i].timestamp < windowMs) j++;
+    if (j === history.length) break;
+
+    const slice = history.slice(i, j + 1);
+    const charging = Boolean(history[i].charging);
+    const span = history[j].timestamp - history[i].timestamp;
+    if (span <= MAX_WINDOW_MS && slice.every(point => Boolean(point.charging) === charging)) {
+      const delta = history[j].level - history[i].level;
+      const visibleCount = slice.filter(point => point.visible === true).length;
+      const known = slice.filter(point => point.visible !== undefined).length;
+      windows.push({
+        start: history[i].timestamp,
+        end: history[j].timestamp,
+        charging,
+        startLevel: history[i].level,
+        endLevel: history[j].level,
+        rate: (charging ? delta : -delta) / (span / HOUR_MS),
+        visible: known === 0 ? undefined : visibleCount >= known / 2
+      });
+    }
+    i = j;
+  }
+  return windows;
+};
+
+const slotKey = (block: TimeBlock, screen: ScreenState | 'any') => `${block}:${screen}`;
+
+export const learnBaseline = (history: UsageData[], scale = STORED_SCALE): AnomalyBaseline => {
+  const windows = rateWindows(history, scale.windowMs);
+  // Rising while unplugged is gauge noise, not a drain rate
+  const drains = windows.filter(window => !window.charging && window.rate >= 0);
+
+  const groups = new Map<string, number[]>();
+  const add = (key: string, rate: number) => groups.set(key, [...(groups.get(key) ?? []), rate]);
+  drains.forEach(window => {
+    const block = timeBlockOf((window.start + window.end) / 2);
+    add(slotKey(block, screenOf(window.visible)), window.rate);
+    add(slotKey(block, 'any'), window.rate);
+    add('all', window.rate);
+  });
+
+  const drain: Record<string, RateStats> = {};
+  groups.forEach((rates, key) => { drain[key] = statsOf(rates)!; });
+
+  const temperatures = history
+    .map(point => point.temperature)
+    .filter((value): value is number => typeof value === 'number');
+
+  return {
+    scale,
+    drain,
+    charge: statsOf(windows.filter(window => window.charging && window.endLevel <= TAPER_LEVEL).map(window => window.rate)),
+    temperature: statsOf(temperatures)
+  };
+};
+
+// Most specific slot with enough observations: time of day and screen, then time of day, then overall
+const drainBaselineFor = (baseline: AnomalyBaseline, window: RateWindow) => {
+  const block = timeBlockOf((window.start + window.end) / 2);
+  const screen = screenOf(window.visible);
+  const candidates: Array<[RateStats | undefined, ScreenState | undefined, TimeBlock | undefined]> = [
+    [baseline.drain[slotKey(block, screen)], screen, block],
+    [baseline.drain[slotKey(block, 'any')], undefined, block],
+    [baseline.drain.all, undefined, undefined]
+  ];
+  const match = candidates.find(([stats]) => trusted(stats, baseline.scale));
+  return match ? { stats: match[0]!, screen: match[1], timeBlock: match[2] } : null;
+};
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const fastDrains = (windows: RateWindow[], baseline: AnomalyBaseline): BatteryAnomaly[] =>
+  windows.flatMap(window => {
+    if (window.charging || window.rate < MIN_FAST_DRAIN) return [];
+    const slot = drainBaselineFor(baseline, window);
+    if (!slot) return [];
+    const deviation = zScore(window.rate, slot.stats);
+    if (deviation < DRAIN_Z || window.rate < DRAIN_RATIO * slot.stats.mean) return [];
+    return [{
+      kind: 'fastDrain' as const,
+      start: window.start,
+      end: window.end,
+      level: window.endLevel,
+      observed: round(window.rate),
+      expected: round(slot.stats.mean),
+      deviation: round(deviation),
+      timeBlock: slot.timeBlock,
+      screen: slot.screen
+    }];
+  });
+
+// Steps between consecutive samples that no real discharge or charge produces
+const levelJumps = (history: UsageData[]): BatteryAnomaly[] =>
+  history.slice(1).flatMap((point, index) => {
+    const previous = history[index];
+    if (point.timestamp - previous.timestamp > JUMP_MAX_GAP_MS) return [];
+    const delta = point.level - previous.level;
+    const charging = Boolean(point.charging) && Boolean(previous.charging);
+    const unplugged = !point.charging && !previous.charging;
+    const suspicious = (unplugged && (delta <= -JUMP_DROP || delta >= JUMP_AGAINST)) || (charging && delta <= -JUMP_AGAINST);
+    if (!suspicious) return [];
+    return [{
+      kind: 'levelJump' as const,
+      start: previous.timestamp,
+      end: point.timestamp,
+      level: point.level,
+      fromLevel: previous.level,
+      observed: delta,
+      expected: null,
+      deviation: null
+    }];
+  });
+
+const chargeStalls = (windows: RateWindow[], baseline: AnomalyBaseline): BatteryAnomaly[] => {
+  const usual = trusted(baseline.charge, baseline.scale) ? baseline.charge : null;
+  return windows.flatMap(window => {
+    if (!window.charging || window.endLevel >= STALL_LEVEL_LIMIT) return [];
+    // Above the taper the usual rate is lower, so only a near-flat line counts there
+    const threshold = usual && window.endLevel < TAPER_LEVEL ? Math.max(STALL_RATE, STALL_FRACTION * usual.mean) : STALL_RATE;
+    if (window.rate > threshold) return [];
+    return [{
+      kind: 'chargeStall' as const,
+      start: window.start,
+      end: window.end,
+      level: window.endLevel,
+      observed: round(window.rate),
+      expected: usual ? round(usual.mean) : null,
+      deviation: usual ? round(-zScore(window.rate, usual)) : null
+    }];
+  });
+};
+
+const temperatureExcursions = (history: UsageData[], baseline: AnomalyBaseline): BatteryAnomaly[] => {
+  const usual = trusted(baseline.temperature, baseline.scale) ? baseline.temperature : null;
+  return history.flatMap(point => {
+    if (typeof point.temperature !== 'number') return [];
+    // The absolute limit always applies, so a device that often runs hot still gets flagged
+    const excursion = point.temperature >= TEMPERATURE_SPIKE || (usual !== null
+      && zScore(point.temperature, usual) >= TEMPERATURE_Z && point.temperature >= usual.mean + TEMPERATURE_MARGIN);
+    if (!excursion) return [];
+    return [{
+      kind: 'temperature' as const,
+      start: point.timestamp,
+      end: point.timestamp,
+      level: point.level,
+      observed: point.temperature,
+      expected: usual ? round(usual.mean) : null,
+      deviation: usual ? round(zScore(point.temperature, usual)) : null
+    }];
+  });
+};
+
+// Adjacent stretches of the same kind become one region, keeping its worst values
+const mergeAdjacent = (anomalies: BatteryAnomaly[], gapMs: number): BatteryAnomaly[] => {
+  const merged: BatteryAnomaly[] = [];
+  for (const anomaly of [...anomalies].sort((a, b) => a.start - b.start)) {
+    const last = [...merged].reverse().find(candidate => candidate.kind === anomaly.kind);
+    if (last && anomaly.kind !== 'levelJump' && anomaly.start - last.end <= gapMs) {
+      const worse = anomaly.kind === 'chargeStall' ? anomaly.observed < last.observed : anomaly.observed > last.observed;
+      Object.assign(last, worse ? { ...anomaly, start: last.start } : { end: anomaly.end, level: anomaly.level });
+    } else {
+      merged.push({ ...anomaly });
+    }
+  }
+  return merged;
+};
+
+export const detectAnomalies = (history: UsageData[], baseline: AnomalyBaseline): BatteryAnomaly[] => {
+  const windows = rateWindows(history, baseline.scale.windowMs);
+  return mergeAdjacent([
+    ...fastDrains(windows, baseline),
+    ...levelJumps(history),
+    ...chargeStalls(windows, baseline),
+    ...temperatureExcursions(history, baseline)
+  ], baseline.scale.windowMs);
+};
+
+// Drain windows learned so far; fast-drain detection starts once there are enough
+export const baselineObservations = (baseline: AnomalyBaseline): number => baseline.drain.all?.count ?? 0;
+
+export const isBaselineReady = (baseline: AnomalyBaseline): boolean => trusted(baseline.drain.all, baseline.scale);
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { planRetrieval } from './assistant';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+// Local wall-clock times, like the questions themselves
+const NOW = new Date(2025, 0, 6, 15, 30).getTime();
+const TODAY = new Date(2025, 0, 6).getTime();
+const YESTERDAY = new Date(2025, 0, 5).getTime();
+
+describe('planRetrieval', () => {
+  it('reads relative spans in either language', () => {
+    expect(planRetrieval('What drained the battery in the last 3 hours?', NOW))
+      .toEqual([{ from: NOW - 3 * HOUR, to: NOW, reason: 'asked' }]);
+    expect(planRetrieval('O que aconteceu nos últimos 2 dias?', NOW))
+      .toEqual([{ from: NOW - 2 * DAY, to: NOW, reason: 'asked' }]);
+  });
+
+  it('maps parts of the day, cutting the current one at now', () => {
+    expect(planRetrieval('Why did it drop so fast this afternoon?', NOW))
+      .toEqual([{ from: TODAY + 12 * HOUR, to: NOW, reason: 'asked' }]);
+    expect(planRetrieval('E ontem à noite?', NOW))
+      .toEqual([{ from: YESTERDAY + 18 * HOUR, to: TODAY, reason: 'asked' }]);
+  });
+
+  it('falls back to the last day when the asked range has no data yet', () => {
+    expect(planRetrieval('How will it do this evening?', NOW))
+      .toEqual([{ from: NOW - DAY, to: NOW, reason: 'recent' }]);
+    expect(planRetrieval('Is it OK?', NOW))
+      .toEqual([{ from: NOW - DAY, to: NOW, reason: 'recent' }]);
+  });
+
+  it('adds a month of sessions for questions about habits or wear', () => {
+    expect(planRetrieval('How is my battery health after yesterday?', NOW)).toEqual([
+      { from: YESTERDAY, to: TODAY, reason: 'asked' },
+      { from: NOW - 30 * DAY, to: NOW, reason: 'habits' }
+    ]);
+  });
+});
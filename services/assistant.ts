@@ -0,0 +1,159 @@
+
+import {
+  AssistantCitation, AssistantRangeReason, BatteryEvent, BatterySession, BatteryStats, CalibrationReport, InsightReport, Locale, UsageData
+} from '../types';
+import { DAY_MS, HOUR_MS, downsampleHistory } from './historyStore';
+import { summarizeSessions } from './sessionTracker';
+import { describeHealth } from './healthModel';
+import { describeCalibration } from './calibration';
+import { LOCALES } from './i18n';
+
+const MAX_POINTS_PER_RANGE = 24;
+const MAX_TURNS = 12;     // Earlier turns are dropped from the request, not from the panel
+const MAX_RANGES = 6;     // Ranges retrieved for earlier questions stay citable up to this many
+const HABIT_DAYS = 30;
+
+export interface RetrievalRange {
+  from: number;
+  to: number;
+  reason: AssistantRangeReason;
+}
+
+// Everything retrieved for one range, ready to be summarised for the model
+export interface RangeData extends RetrievalRange {
+  id: string; // Citation marker, e.g. "R1"
+  history: UsageData[];
+}
+
+const startOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Local wall-clock time, which is what the user's questions refer to
+const localTime = (timestamp: number) =>
+  new Date(timestamp - new Date(timestamp).getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+// Parts of the day, as [start, end) hours in local time
+const DAY_PARTS: Array<{ pattern: RegExp; hours: [number, number] }> = [
+  { pattern: /\bmorning\b|manhã/i, hours: [6, 12] },
+  { pattern: /\b(afternoon|tarde)\b/i, hours: [12, 18] },
+  { pattern: /\b(evening|tonight|night|noite)\b/i, hours: [18, 24] }
+];
+
+// Turns time phrases in the question ("this afternoon", "yesterday", "last 3 hours",
+// "ontem à tarde") into the ranges to retrieve. Questions about habits or capacity
+// also get the last month of sessions; anything else falls back to the last 24 hours.
+export const planRetrieval = (question: string, now: number): RetrievalRange[] => {
+  const ranges: RetrievalRange[] = [];
+  const asked = (from: number, to: number) => ranges.push({ from, to: Math.min(to, now), reason: 'asked' });
+
+  // No \b before the Portuguese words: JavaScript word boundaries ignore accented letters
+  const hours = question.match(/(?:\blast|\bpast|últimas?)\s+(\d+)\s*(?:hours?|h|horas?)\b/i);
+  const days = question.match(/(?:\blast|\bpast|últimos?)\s+(\d+)\s*(?:days?|dias?)\b/i);
+  if (hours) asked(now - Number(hours[1]) * HOUR_MS, now);
+  else if (days) asked(now - Number(days[1]) * DAY_MS, now);
+  else if (/\b(last|past) hour\b|última hora/i.test(question)) asked(now - HOUR_MS, now);
+  else if (/\b(this|last|past) week\b|semana/i.test(question)) asked(now - 7 * DAY_MS, now);
+  else {
+    const yesterday = /\b(yesterday|last night|ontem)\b/i.test(question);
+    const day = startOfDay(now) - (yesterday ? DAY_MS : 0);
+    const part = DAY_PARTS.find(candidate => candidate.pattern.test(question));
+    if (part) asked(day + part.hours[0] * HOUR_MS, day + part.hours[1] * HOUR_MS);
+    else if (yesterday) asked(day, day + DAY_MS);
+    else if (/\b(today|hoje)\b/i.test(question)) asked(day, now);
+  }
+
+  // "this evening" asked in the morning has no data yet
+  const usable = ranges.filter(range => range.to > range.from);
+  if (usable.length === 0) usable.push({ from: now - DAY_MS, to: now, reason: 'recent' });
+  if (/habit|capacit|health|cycle|wear|calibrat|hábito|saúde|ciclo|desgaste|calibra/i.test(question)) {
+    usable.push({ from: now - HABIT_DAYS * DAY_MS, to: now, reason: 'habits' });
+  }
+  return usable;
+};
+
+const describeRange = (range: RangeData, sessions: BatterySession[], events: BatteryEvent[], reports: InsightReport[]) => {
+  const { history } = range;
+  const span = range.to - range.from;
+  const points = downsampleHistory(history, Math.max(span / MAX_POINTS_PER_RANGE, 60 * 1000));
+  const levels = history.map(point => point.level);
+  const overlaps = (start: number, end: number) => end >= range.from && start <= range.to;
+
+  return {
+    id: range.id,
+    from: localTime(range.from),
+    to: localTime(range.to),
+    reason: range.reason,
+    ...(history.length > 0 ? {
+      levelStart: history[0].level,
+      levelEnd: history[history.length - 1].level,
+      levelMin: Math.min(...levels),
+      levelMax: Math.max(...levels)
+    } : { note: 'no samples recorded in this range' }),
+    points: points.map(point => ({
+      time: localTime(point.timestamp),
+      level: point.level,
+      charging: point.charging,
+      ...(point.temperature !== null ? { temperature: point.temperature } : {})
+    })),
+    sessions: range.reason === 'habits'
+      ? summarizeSessions(sessions, HABIT_DAYS, range.to)
+      : sessions.filter(session => overlaps(session.start, session.end)).map(session => ({
+        kind: session.kind,
+        start: localTime(session.start),
+        end: localTime(session.end),
+        startLevel: session.startLevel,
+        endLevel: session.endLevel,
+        ratePerHour: session.ratePerHour
+      })),
+    events: events
+      .filter(event => overlaps(event.timestamp, event.timestamp))
+      .slice(-20)
+      .map(({ timestamp, kind, level, value, detail }) => ({ time: localTime(timestamp), kind, level, value, detail })),
+    reports: reports
+      .filter(report => overlaps(report.createdAt, report.createdAt))
+      .slice(-5)
+      .map(report => ({
+        time: localTime(report.createdAt),
+        status: report.insight.status,
+        recommendation: report.insight.recommendation
+      }))
+  };
+};
+
+export interface AssistantContext {
+  stats: BatteryStats;
+  ranges: RangeData[];
+  sessions: BatterySession[];
+  events: BatteryEvent[];
+  reports: InsightReport[];
+  calibration?: CalibrationReport;
+  locale: Locale;
+  now: number;
+}
+
+// Instructions plus the data retrieved so far in the conversation, latest ranges last
+export const buildAssistantSystemPrompt = ({
+  stats, ranges, sessions, events, reports, calibration, locale, now
+}: AssistantContext): string => [
+  'You are the battery assistant of a battery monitoring dashboard. Answer questions about this device\'s battery using only the data below.',
+  'The data is split into ranges labelled R1, R2, ... . When a statement relies on a range, cite it inline, e.g. [R1]. Do not invent ranges or numbers.',
+  'If the data does not cover what was asked, say so and suggest what to record. Keep answers short, in plain text with at most a few bullet points.',
+  `Answer in ${LOCALES[locale].promptLanguage}. Times are the user's local time; it is now ${localTime(now)}.`,
+  '',
+  `Current state: level ${stats.level}%, ${stats.charging ? 'charging' : 'discharging'}, temperature ${stats.temperature ?? 'not measured'}°C, health ${describeHealth(stats.health)}.`,
+  `Deep cycle calibration: ${describeCalibration(calibration)}.`,
+  ...ranges.slice(-MAX_RANGES).map(range => `Range ${range.id} (JSON): ${JSON.stringify(describeRange(range, sessions, events, reports))}`)
+].join('\n');
+
+export const trimTurns = <T>(turns: T[]): T[] => turns.slice(-MAX_TURNS);
+
+// Ranges the reply actually cited
+export const extractCitations = (text: string, ranges: RangeData[]): AssistantCitation[] => {
+  const cited = new Set([...text.matchAll(/\[(R\d+)\]/g)].map(match => match[1]));
+  return ranges
+    .filter(range => cited.has(range.id))
+    .map(({ id, from, to, reason }) => ({ id, from, to, reason }));
+};
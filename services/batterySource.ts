@@ -0,0 +1,13 @@
+
+import { BatterySource } from '../types';
+import { createSimulatedSource } from './simulatedSource';
+import { createSystemSource, isSystemBatterySupported } from './systemSource';
+
+export { createReplaySource, parseRecordedSession } from './replaySource';
+export { createSimulatedSource, createSimulation, runScenario } from './simulatedSource';
+export { SCENARIOS, findScenario } from './scenarios';
+export { createSystemSource, isSystemBatterySupported } from './systemSource';
+
+// Real hardware when the browser exposes it, otherwise the (clearly labelled) simulator
+export const createDefaultSource = (): BatterySource =>
+  isSystemBatterySupported() ? createSystemSource() : createSimulatedSource();
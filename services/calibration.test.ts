@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { CalibrationRun, UsageData } from '../types';
+import { advanceCalibration, buildCalibrationReport, createCalibrationRun } from './calibration';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2025, 0, 6, 9);
+const FLOOR = 10;
+
+// Drives a run through all three steps: 1% every `minutesPerPercent` down to the
+// floor, then charging at 1%/min up to 80% and a quarter of that above it
+const calibrate = (minutesPerPercent: number, adjust: (sample: UsageData) => UsageData = sample => sample): CalibrationRun => {
+  const samples: UsageData[] = [{ timestamp: START, level: 100, charging: true, temperature: 30 }];
+  let time = START + MINUTE;
+  for (let level = 100; level >= FLOOR; level--, time += minutesPerPercent * MINUTE) {
+    samples.push({ timestamp: time, level, charging: false, temperature: 30 });
+  }
+  for (let level = FLOOR; level <= 100; level += level < 80 ? 1 : 0.25, time += MINUTE) {
+    samples.push({ timestamp: time, level, charging: true, temperature: 30 });
+  }
+  return samples.map(adjust).reduce(advanceCalibration, createCalibrationRun(FLOOR, START));
+};
+
+const withReport = (run: CalibrationRun): CalibrationRun => ({ ...run, report: buildCalibrationReport(run, []) });
+
+describe('calibration runs', () => {
+  it('completes once the battery is charged back to full', () => {
+    const run = calibrate(2);
+
+    expect(run).toMatchObject({ status: 'completed', step: 'complete' });
+    expect(run.discharge[0].level).toBe(100);
+    expect(run.discharge[run.discharge.length - 1].level).toBe(FLOOR);
+  });
+
+  it('reports the discharge rate, linearity and taper of a clean run', () => {
+    const report = buildCalibrationReport(calibrate(2), []);
+
+    expect(report).toMatchObject({
+      floor: FLOOR,
+      dischargeDurationMs: 180 * MINUTE,
+      dischargeRatePerHour: 30,
+      relativeCapacity: null,
+      previousRuns: 0,
+      linearity: 1,
+      anomalies: []
+    });
+    expect(report.taperStartLevel).toBeGreaterThanOrEqual(75);
+    expect(report.taperStartLevel).toBeLessThanOrEqual(80);
+  });
+
+  it('compares capacity against earlier runs by discharge time per %', () => {
+    const earlier = withReport({ ...calibrate(4), startedAt: START - 7 * 24 * 60 * MINUTE });
+    const report = buildCalibrationReport(calibrate(2), [earlier]);
+
+    expect(report.previousRuns).toBe(1);
+    expect(report.relativeCapacity).toBe(0.5);
+  });
+
+  it('flags level jumps, heat and lost wake locks', () => {
+    const jumpAt = START + MINUTE + 40 * 2 * MINUTE; // The 60% sample
+    const run = calibrate(2, sample => sample.timestamp === jumpAt
+      ? { ...sample, level: sample.level - 6, temperature: 46 }
+      : sample);
+    const interrupted = { ...run, interruptions: [START + 100 * MINUTE] };
+
+    expect(buildCalibrationReport(interrupted, []).anomalies.map(anomaly => anomaly.kind))
+      .toEqual(['levelJump', 'highTemperature', 'wakeLockLost']);
+  });
+});
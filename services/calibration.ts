@@ -0,0 +1,230 @@
+
+import {
+  CalibrationAnomaly, CalibrationReport, CalibrationRun, CalibrationStep, UsageData
+} from '../types';
+import { STORES, getAll, openDatabase, transactionDone } from './database';
+import { TEMPERATURE_SPIKE } from './eventLog';
+import { HOUR_MS } from './historyStore';
+
+export const CALIBRATION_FLOORS = [5, 10, 15, 20, 30];
+export const DEFAULT_CALIBRATION_FLOOR = 10;
+
+const LEVEL_JUMP = 5;                // % lost between two consecutive samples
+const PLATEAU_FACTOR = 4;            // Times the typical minutes per % before a flat stretch is flagged
+const TAPER_RATE_WINDOW_MS = 10 * 60 * 1000;
+const BULK_LEVEL_LIMIT = 70;         // Charge rate below this level is taken as the bulk rate
+
+export const createCalibrationRun = (floor: number, now: number): CalibrationRun => ({
+  startedAt: now,
+  floor,
+  step: 'charge',
+  stepStartedAt: { charge: now },
+  status: 'running',
+  discharge: [],
+  recharge: [],
+  interruptions: [],
+  report: null
+});
+
+const enterStep = (run: CalibrationRun, step: CalibrationStep, now: number): CalibrationRun => ({
+  ...run,
+  step,
+  stepStartedAt: { ...run.stepStartedAt, [step]: now }
+});
+
+// Moves the run forward with one new sample. Steps only advance on the
+// conditions the user is asked to create: unplugging at 100%, reaching the
+// floor, and charging back to 100%.
+export const advanceCalibration = (run: CalibrationRun, sample: UsageData): CalibrationRun => {
+  if (run.status !== 'running') return run;
+  const { timestamp, level, charging } = sample;
+
+  switch (run.step) {
+    case 'charge':
+      if (level >= 100 && !charging) {
+        return { ...enterStep(run, 'discharge', timestamp), discharge: [sample] };
+      }
+      return run;
+    case 'discharge': {
+      const next = { ...run, discharge: [...run.discharge, sample] };
+      return level <= run.floor && !charging ? enterStep(next, 'recharge', timestamp) : next;
+    }
+    case 'recharge': {
+      if (!charging) return run;
+      const next = { ...run, recharge: [...run.recharge, sample] };
+      return level >= 100 ? { ...enterStep(next, 'complete', timestamp), status: 'completed' } : next;
+    }
+    default:
+      return run;
+  }
+};
+
+// Fraction of the current step that is done, for the progress bar
+export const stepProgress = (run: CalibrationRun, level: number): number => {
+  const span = 100 - run.floor;
+  switch (run.step) {
+    case 'charge':
+      return level / 100;
+    case 'discharge':
+      return Math.min(1, Math.max(0, (100 - level) / span));
+    case 'recharge':
+      return Math.min(1, Math.max(0, (level - run.floor) / span));
+    default:
+      return 1;
+  }
+};
+
+const minutesPerPercent = (report: CalibrationReport) =>
+  report.dischargeDurationMs / 60000 / Math.max(1, 100 - report.floor);
+
+// R² of a straight line through level over time; a healthy gauge discharges almost linearly under steady load
+export const curveLinearity = (points: UsageData[]): number => {
+  if (points.length < 3) return 1;
+  const xs = points.map(point => (point.timestamp - points[0].timestamp) / HOUR_MS);
+  const ys = points.map(point => point.level);
+  const n = points.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const syy = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+  if (sxx === 0 || syy === 0) return 1;
+  const sxy = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+  return (sxy * sxy) / (sxx * syy);
+};
+
+// Level where the charge rate, measured over a short window, first drops below half of the bulk rate
+export const findTaperStart = (points: UsageData[]): number | null => {
+  const rates: Array<{ level: number; rate: number }> = [];
+  for (let i = 0, j = 0; i < points.length; i++) {
+    while (j < points.length && points[j].timestamp - points[i].timestamp < TAPER_RATE_WINDOW_MS) j++;
+    if (j === points.length) break;
+    const hours = (points[j].timestamp - points[i].timestamp) / HOUR_MS;
+    rates.push({ level: points[i].level, rate: (points[j].level - points[i].level) / hours });
+  }
+
+  const bulk = rates.filter(entry => entry.level < BULK_LEVEL_LIMIT).map(entry => entry.rate).sort((a, b) => a - b);
+  if (bulk.length === 0) return null;
+  const bulkRate = bulk[Math.floor(bulk.length / 2)];
+  return rates.find(entry => entry.level >= BULK_LEVEL_LIMIT && entry.rate < bulkRate / 2)?.level ?? null;
+};
+
+const findAnomalies = (run: CalibrationRun, typicalMsPerPercent: number): CalibrationAnomaly[] => {
+  const anomalies: CalibrationAnomaly[] = [];
+  const { discharge } = run;
+  let plateauStart = discharge[0];
+
+  for (let i = 1; i < discharge.length; i++) {
+    const previous = discharge[i - 1];
+    const point = discharge[i];
+    if (previous.level - point.level >= LEVEL_JUMP) {
+      anomalies.push({ kind: 'levelJump', timestamp: point.timestamp, level: point.level });
+    }
+    if (point.charging && !previous.charging) {
+      anomalies.push({ kind: 'pluggedIn', timestamp: point.timestamp, level: point.level });
+    }
+    if (point.level !== plateauStart.level) {
+      if (point.timestamp - plateauStart.timestamp > PLATEAU_FACTOR * typicalMsPerPercent) {
+        anomalies.push({ kind: 'plateau', timestamp: plateauStart.timestamp, level: plateauStart.level });
+      }
+      plateauStart = point;
+    }
+  }
+
+  const hot = [...discharge, ...run.recharge].find(point => point.temperature !== null && point.temperature >= TEMPERATURE_SPIKE);
+  if (hot) anomalies.push({ kind: 'highTemperature', timestamp: hot.timestamp, level: hot.level });
+
+  run.interruptions.forEach(timestamp => {
+    const level = discharge.filter(point => point.timestamp <= timestamp).pop()?.level ?? 100;
+    anomalies.push({ kind: 'wakeLockLost', timestamp, level });
+  });
+
+  return anomalies.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// `previous` are earlier completed runs; capacity is compared by discharge time per % under the same load
+export const buildCalibrationReport = (run: CalibrationRun, previous: CalibrationRun[]): CalibrationReport => {
+  const { discharge, recharge } = run;
+  const dischargeDurationMs = discharge.length > 1 ? discharge[discharge.length - 1].timestamp - discharge[0].timestamp : 0;
+  const depth = discharge.length > 0 ? discharge[0].level - discharge[discharge.length - 1].level : 0;
+  const rechargeDurationMs = recharge.length > 1 ? recharge[recharge.length - 1].timestamp - recharge[0].timestamp : 0;
+
+  const earlier = previous
+    .filter(other => other.startedAt !== run.startedAt && other.report)
+    .map(other => minutesPerPercent(other.report!));
+  const report: CalibrationReport = {
+    floor: run.floor,
+    dischargeDurationMs,
+    dischargeRatePerHour: dischargeDurationMs > 0 ? Math.round(depth / (dischargeDurationMs / HOUR_MS) * 10) / 10 : 0,
+    relativeCapacity: null,
+    previousRuns: earlier.length,
+    linearity: Math.round(curveLinearity(discharge) * 1000) / 1000,
+    taperStartLevel: findTaperStart(recharge),
+    rechargeDurationMs,
+    anomalies: []
+  };
+
+  if (earlier.length > 0 && dischargeDurationMs > 0) {
+    const baseline = earlier.reduce((a, b) => a + b, 0) / earlier.length;
+    report.relativeCapacity = Math.round(minutesPerPercent(report) / baseline * 100) / 100;
+  }
+  report.anomalies = findAnomalies(run, depth > 0 ? dischargeDurationMs / depth : HOUR_MS);
+  return report;
+};
+
+// Compact form for the insight prompt
+export const describeCalibration = (report?: CalibrationReport): string => {
+  if (!report) return 'no completed run';
+  const { anomalies, dischargeDurationMs, rechargeDurationMs, ...figures } = report;
+  return JSON.stringify({
+    ...figures,
+    dischargeMinutes: Math.round(dischargeDurationMs / 60000),
+    rechargeMinutes: Math.round(rechargeDurationMs / 60000),
+    anomalies: anomalies.map(({ kind, level }) => ({ kind, level }))
+  });
+};
+
+type CalibrationCurve = 'discharge' | 'recharge';
+
+// One curve sample, stored apart from its run so a sample costs one small write
+interface CalibrationPoint extends UsageData {
+  startedAt: number;
+  curve: CalibrationCurve;
+}
+
+const CURVES: CalibrationCurve[] = ['discharge', 'recharge'];
+
+// Run fields without the curves, which live in the calibrationPoints store
+const runHeader = (run: CalibrationRun): CalibrationRun => ({ ...run, discharge: [], recharge: [] });
+
+const headerChanged = (run: CalibrationRun, previous: CalibrationRun | null) =>
+  !previous || previous.step !== run.step || previous.status !== run.status
+  || previous.interruptions.length !== run.interruptions.length || previous.report !== run.report;
+
+// Writes only what changed since `previous`: the curve samples appended to it,
+// plus the run itself when its step, status, interruptions or report moved
+export const saveCalibration = async (run: CalibrationRun, previous: CalibrationRun | null = null): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.calibrations, STORES.calibrationPoints], 'readwrite');
+  const points = tx.objectStore(STORES.calibrationPoints);
+  CURVES.forEach(curve => {
+    run[curve].slice(previous?.[curve].length ?? 0).forEach(point => points.put({ ...point, startedAt: run.startedAt, curve }));
+  });
+  if (headerChanged(run, previous)) tx.objectStore(STORES.calibrations).put(runHeader(run));
+  await transactionDone(tx);
+};
+
+export const queryCalibrations = async (): Promise<CalibrationRun[]> => {
+  const [headers, points] = await Promise.all([
+    getAll<CalibrationRun>(STORES.calibrations),
+    getAll<CalibrationPoint>(STORES.calibrationPoints) // Sorted by [startedAt, timestamp]
+  ]);
+  return headers
+    .map(header => {
+      const own = points.filter(point => point.startedAt === header.startedAt);
+      const curve = (name: CalibrationCurve) => own
+        .filter(point => point.curve === name)
+        .map(({ startedAt, curve, ...sample }) => sample);
+      return { ...header, discharge: curve('discharge'), recharge: curve('recharge') };
+    })
+    .sort((a, b) => a.startedAt - b.startedAt);
+};
@@ -0,0 +1,61 @@
+
+export interface Clock {
+  now(): number;
+  // Returns a function that cancels the interval
+  every(intervalMs: number, callback: () => void): () => void;
+}
+
+export interface VirtualClock extends Clock {
+  advance(ms: number): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  every(intervalMs, callback) {
+    const id = setInterval(callback, intervalMs);
+    return () => clearInterval(id);
+  }
+};
+
+// Time runs `speed` times faster than the wall clock, and so do its intervals
+export const createScaledClock = (speed: number, startAt = Date.now()): Clock => {
+  const realStart = Date.now();
+  return {
+    now: () => startAt + (Date.now() - realStart) * speed,
+    every(intervalMs, callback) {
+      const id = setInterval(callback, Math.max(1, intervalMs / speed));
+      return () => clearInterval(id);
+    }
+  };
+};
+
+// Fully manual clock for headless runs: nothing happens until advance() is called
+export const createVirtualClock = (startAt = 0): VirtualClock => {
+  let current = startAt;
+  let nextId = 0;
+  const timers = new Map<number, { intervalMs: number; dueAt: number; callback: () => void }>();
+
+  return {
+    now: () => current,
+    every(intervalMs, callback) {
+      const id = nextId++;
+      timers.set(id, { intervalMs, dueAt: current + intervalMs, callback });
+      return () => { timers.delete(id); };
+    },
+    advance(ms) {
+      const target = current + ms;
+      for (;;) {
+        let due: { id: number; dueAt: number } | null = null;
+        for (const [id, timer] of timers) {
+          if (timer.dueAt <= target && (!due || timer.dueAt < due.dueAt)) due = { id, dueAt: timer.dueAt };
+        }
+        if (!due) break;
+        const timer = timers.get(due.id)!;
+        current = timer.dueAt;
+        timer.dueAt += timer.intervalMs;
+        timer.callback();
+      }
+      current = target;
+    }
+  };
+};
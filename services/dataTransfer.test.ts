@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { BUNDLE_FORMAT, BUNDLE_VERSION, DataTransferError, parseBundle } from './dataTransfer';
+
+const SAMPLE = { timestamp: Date.UTC(2025, 0, 6, 9), level: 80, charging: false, temperature: 31.5, voltage: null };
+const HOURLY = {
+  bucketStart: Date.UTC(2025, 0, 6, 8),
+  resolution: 'hour',
+  sampleCount: 12,
+  avgLevel: 84,
+  minLevel: 81,
+  maxLevel: 87,
+  chargingRatio: 0,
+  avgTemperature: null,
+  avgVoltage: null
+};
+
+const bundleText = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: Date.UTC(2025, 0, 7),
+  deviceLabel: 'Laptop',
+  samples: [SAMPLE],
+  hourly: [HOURLY],
+  ...overrides
+});
+
+// The typed error parseBundle threw, so tests can check its code and parameters
+const rejection = (text: string) => {
+  try {
+    parseBundle(text);
+  } catch (err) {
+    if (err instanceof DataTransferError) return { code: err.code, params: err.params };
+    throw err;
+  }
+  throw new Error('parseBundle accepted the file');
+};
+
+describe('parseBundle', () => {
+  it('reads a valid bundle and defaults the missing sections', () => {
+    const bundle = parseBundle(bundleText());
+
+    expect(bundle).toMatchObject({ deviceLabel: 'Laptop', samples: [SAMPLE], hourly: [HOURLY] });
+    expect(bundle.daily).toEqual([]);
+    expect(bundle.sessions).toEqual([]);
+    expect(bundle.reports).toEqual([]);
+  });
+
+  it('rejects files that are not bundles', () => {
+    expect(rejection('{ "format": ')).toMatchObject({ code: 'invalidJson' });
+    expect(rejection(JSON.stringify({ format: 'something-else', version: 1 }))).toMatchObject({ code: 'notBundle' });
+    expect(rejection(bundleText({ version: BUNDLE_VERSION + 1 })))
+      .toEqual({ code: 'unsupportedVersion', params: { version: String(BUNDLE_VERSION + 1) } });
+  });
+
+  it('points at the first malformed record', () => {
+    expect(rejection(bundleText({ sessions: {} }))).toEqual({ code: 'invalidSection', params: { section: 'sessions' } });
+    expect(rejection(bundleText({ samples: [SAMPLE, { ...SAMPLE, level: '80' }] })))
+      .toEqual({ code: 'invalidRecord', params: { section: 'samples', item: 2 } });
+    expect(rejection(bundleText({ daily: [HOURLY] }))).toEqual({ code: 'invalidRecord', params: { section: 'daily', item: 1 } });
+  });
+});
@@ -0,0 +1,231 @@
+
+import { BatterySample, BatterySession, DataBundle, EnergyConfig, HistoryAggregate, InsightReport, UsageData } from '../types';
+import { STORES, getAll, openDatabase, transactionDone } from './database';
+import { sessionEnergy } from './energy';
+import { estimateHealth } from './healthModel';
+import { DAY_MS, mergeIntoBuckets, queryHistory } from './historyStore';
+import { summarizeSessions } from './sessionTracker';
+
+export const BUNDLE_FORMAT = 'batterycore-bundle';
+export const BUNDLE_VERSION = 1;
+
+export type CsvKind = 'history' | 'sessions' | 'reports';
+
+export type DataTransferErrorCode = 'invalidJson' | 'notBundle' | 'unsupportedVersion' | 'invalidSection' | 'invalidRecord';
+
+// Rejected import files; the UI words `code` and `params` in the user's language
+export class DataTransferError extends Error {
+  constructor(readonly code: DataTransferErrorCode, readonly params: Record<string, string | number> = {}) {
+    super(`Import rejected: ${code} ${JSON.stringify(params)}`);
+    this.name = 'DataTransferError';
+  }
+}
+
+export const createBundle = async (deviceLabel = navigator.userAgent): Promise<DataBundle> => {
+  const [samples, hourly, daily, sessions, reports] = await Promise.all([
+    getAll<BatterySample>(STORES.samples),
+    getAll<HistoryAggregate>(STORES.hourly),
+    getAll<HistoryAggregate>(STORES.daily),
+    getAll<BatterySession>(STORES.sessions),
+    getAll<InsightReport>(STORES.reports)
+  ]);
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    deviceLabel,
+    samples,
+    hourly,
+    daily,
+    sessions,
+    reports
+  };
+};
+
+type BundleSection = 'samples' | 'hourly' | 'daily' | 'sessions' | 'reports';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Optional measurements: a number, or null/absent when the device didn't report it
+const isMeasurement = (value: unknown) => value === null || value === undefined || isNumber(value);
+
+const hasNumbers = (value: Record<string, unknown>, fields: string[]) => fields.every(field => isNumber(value[field]));
+
+const isAggregate = (resolution: HistoryAggregate['resolution']) => (value: Record<string, unknown>) =>
+  value.resolution === resolution
+  && hasNumbers(value, ['bucketStart', 'sampleCount', 'avgLevel', 'minLevel', 'maxLevel', 'chargingRatio'])
+  && isMeasurement(value.avgTemperature) && isMeasurement(value.avgVoltage) && isMeasurement(value.visibleRatio);
+
+// Shape checks per section, including the key path each store is keyed by
+const RECORD_VALIDATORS: Record<BundleSection, (value: Record<string, unknown>) => boolean> = {
+  samples: value =>
+    hasNumbers(value, ['timestamp', 'level']) && typeof value.charging === 'boolean'
+    && isMeasurement(value.temperature) && isMeasurement(value.voltage),
+  hourly: isAggregate('hour'),
+  daily: isAggregate('day'),
+  sessions: value =>
+    (value.kind === 'charge' || value.kind === 'discharge')
+    && hasNumbers(value, ['start', 'end', 'startLevel', 'endLevel', 'durationMs', 'ratePerHour', 'depth'])
+    && typeof value.ongoing === 'boolean',
+  reports: value => {
+    const { stats, insight } = value;
+    return isNumber(value.createdAt)
+      && (value.origin === 'ai' || value.origin === 'local')
+      && isRecord(stats) && isNumber(stats.level) && typeof stats.charging === 'boolean'
+      && isRecord(stats.health) && isNumber(stats.health.score)
+      && isRecord(insight)
+      && ['status', 'recommendation', 'estimatedLifeRemaining'].every(field => typeof insight[field] === 'string')
+      && Array.isArray(insight.optimizationTips) && insight.optimizationTips.every(tip => typeof tip === 'string');
+  }
+};
+
+const readSection = <T>(value: Record<string, unknown>, section: BundleSection): T[] => {
+  const records = value[section];
+  if (records === undefined) return [];
+  if (!Array.isArray(records)) throw new DataTransferError('invalidSection', { section });
+  const invalid = records.findIndex(record => !isRecord(record) || !RECORD_VALIDATORS[section](record));
+  if (invalid !== -1) throw new DataTransferError('invalidRecord', { section, item: invalid + 1 });
+  return records as T[];
+};
+
+// Rejects the whole file on the first malformed record, before anything is written
+export const parseBundle = (text: string): DataBundle => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new DataTransferError('invalidJson');
+  }
+  if (!isRecord(value) || value.format !== BUNDLE_FORMAT) throw new DataTransferError('notBundle');
+  if (typeof value.version !== 'number' || value.version > BUNDLE_VERSION) {
+    throw new DataTransferError('unsupportedVersion', { version: String(value.version) });
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: isNumber(value.exportedAt) ? value.exportedAt : 0,
+    deviceLabel: typeof value.deviceLabel === 'string' ? value.deviceLabel : '', // The UI falls back to the file name
+    samples: readSection<BatterySample>(value, 'samples'),
+    hourly: readSection<HistoryAggregate>(value, 'hourly'),
+    daily: readSection<HistoryAggregate>(value, 'daily'),
+    sessions: readSection<BatterySession>(value, 'sessions'),
+    reports: readSection<InsightReport>(value, 'reports')
+  };
+};
+
+// Raw records are keyed by timestamp, so importing them twice is harmless; aggregate
+// buckets are added to the local ones, so a file should only be merged once.
+// One transaction across all stores, so a failed import leaves nothing behind.
+export const mergeBundle = async (bundle: DataBundle): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.samples, STORES.hourly, STORES.daily, STORES.sessions, STORES.reports], 'readwrite');
+  bundle.samples.forEach(sample => tx.objectStore(STORES.samples).put(sample));
+  bundle.sessions.forEach(session => tx.objectStore(STORES.sessions).put(session));
+  bundle.reports.forEach(report => tx.objectStore(STORES.reports).put(report));
+  await mergeIntoBuckets(tx.objectStore(STORES.hourly), bundle.hourly);
+  await mergeIntoBuckets(tx.objectStore(STORES.daily), bundle.daily);
+  await transactionDone(tx);
+};
+
+// Same shape queryHistory returns, for comparing an imported dataset
+export const bundleHistory = (bundle: DataBundle): UsageData[] => [
+  ...[...bundle.daily, ...bundle.hourly].map(bucket => ({
+    timestamp: bucket.bucketStart,
+    level: Math.round(bucket.avgLevel),
+    charging: bucket.chargingRatio >= 0.5,
+    temperature: bucket.avgTemperature,
+    voltage: bucket.avgVoltage
+  })),
+  ...bundle.samples.map(({ timestamp, level, charging, temperature, voltage }) => ({ timestamp, level, charging, temperature, voltage }))
+].sort((a, b) => a.timestamp - b.timestamp);
+
+export interface DatasetSummary {
+  label: string;
+  spanDays: number;
+  healthScore: number | null;
+  sessions: ReturnType<typeof summarizeSessions>;
+}
+
+// Whole-dataset metrics used to compare this device against an imported bundle
+export const summarizeBundle = (bundle: DataBundle): DatasetSummary => {
+  const history = bundleHistory(bundle);
+  const first = history[0]?.timestamp ?? bundle.exportedAt;
+  const last = history[history.length - 1]?.timestamp ?? bundle.exportedAt;
+  const spanDays = Math.max(1, Math.ceil((last - first) / DAY_MS));
+  const health = estimateHealth(history);
+
+  return {
+    label: bundle.deviceLabel,
+    spanDays,
+    healthScore: health.grade === 'Unknown' ? null : health.score,
+    sessions: summarizeSessions(bundle.sessions, spanDays, last)
+  };
+};
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+
+const iso = (timestamp: number) => new Date(timestamp).toISOString();
+
+export const createCsv = async (kind: CsvKind): Promise<string> => {
+  if (kind === 'history') {
+    const history = await queryHistory({ from: 0 });
+    return toCsv(
+      ['timestamp', 'time', 'level', 'charging', 'temperature', 'voltage'],
+      history.map(point => [point.timestamp, iso(point.timestamp), point.level, point.charging, point.temperature, point.voltage])
+    );
+  }
+
+  if (kind === 'sessions') {
+    const sessions = await getAll<BatterySession>(STORES.sessions);
+    return toCsv(
+      ['kind', 'start', 'end', 'start_level', 'end_level', 'duration_min', 'rate_per_hour', 'depth'],
+      sessions.map(s => [s.kind, iso(s.start), iso(s.end), s.startLevel, s.endLevel, Math.round(s.durationMs / 60000), s.ratePerHour, s.depth])
+    );
+  }
+
+  const reports = await getAll<InsightReport>(STORES.reports);
+  return toCsv(
+    ['created', 'origin', 'provider', 'level', 'charging', 'health_score', 'status', 'recommendation', 'estimated_life', 'tips'],
+    reports.map(r => [
+      iso(r.createdAt), r.origin, r.provider, r.stats.level, r.stats.charging, r.stats.health.score,
+      r.insight.status, r.insight.recommendation, r.insight.estimatedLifeRemaining, r.insight.optimizationTips.join(' | ')
+    ])
+  );
+};
+
+// Per-session energy figures; computed from the sessions on screen because they depend on the energy settings
+export const createEnergyCsv = (sessions: BatterySession[], config: EnergyConfig): string => {
+  const round = (value: number | null, digits: number) => value === null ? null : Number(value.toFixed(digits));
+  return toCsv(
+    ['kind', 'start', 'end', 'depth', 'energy_wh', 'charge_mah', 'wall_wh', `cost_${config.currency.toLowerCase()}`, 'co2_g'],
+    sessions.map(session => {
+      const energy = sessionEnergy(session, config);
+      return [
+        session.kind, iso(session.start), iso(session.end), session.depth, round(energy.energyWh, 3),
+        Math.round(energy.chargeMAh), round(energy.wallWh, 3), round(energy.cost, 4), round(energy.co2Grams, 1)
+      ];
+    })
+  );
+};
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
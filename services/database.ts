@@ -0,0 +1,117 @@
+
+const DB_NAME = 'batterycore';
+const DB_VERSION = 7;
+
+export const STORES = {
+  samples: 'samples',
+  hourly: 'hourly',
+  daily: 'daily',
+  sessions: 'sessions',
+  reports: 'reports',
+  alerts: 'alerts',
+  events: 'events',
+  calibrations: 'calibrations',
+  calibrationPoints: 'calibrationPoints',
+  analysisQueue: 'analysisQueue' // Also read and written by sw.js
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Single shared connection; stores are created on first open or version bump
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in globalThis)) {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.samples)) {
+        db.createObjectStore(STORES.samples, { keyPath: 'timestamp' });
+      }
+      if (!db.objectStoreNames.contains(STORES.hourly)) {
+        db.createObjectStore(STORES.hourly, { keyPath: 'bucketStart' });
+      }
+      if (!db.objectStoreNames.contains(STORES.daily)) {
+        db.createObjectStore(STORES.daily, { keyPath: 'bucketStart' });
+      }
+      if (!db.objectStoreNames.contains(STORES.sessions)) {
+        db.createObjectStore(STORES.sessions, { keyPath: 'start' });
+      }
+      if (!db.objectStoreNames.contains(STORES.reports)) {
+        db.createObjectStore(STORES.reports, { keyPath: 'createdAt' });
+      }
+      if (!db.objectStoreNames.contains(STORES.alerts)) {
+        db.createObjectStore(STORES.alerts, { keyPath: 'createdAt' });
+      }
+      if (!db.objectStoreNames.contains(STORES.events)) {
+        db.createObjectStore(STORES.events, { keyPath: 'timestamp' });
+      }
+      if (!db.objectStoreNames.contains(STORES.calibrations)) {
+        db.createObjectStore(STORES.calibrations, { keyPath: 'startedAt' });
+      }
+      if (!db.objectStoreNames.contains(STORES.calibrationPoints)) {
+        db.createObjectStore(STORES.calibrationPoints, { keyPath: ['startedAt', 'timestamp'] });
+      }
+      if (!db.objectStoreNames.contains(STORES.analysisQueue)) {
+        db.createObjectStore(STORES.analysisQueue, { keyPath: 'queuedAt' });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema; the next call reopens
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readonly');
+  return requestToPromise(tx.objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const putAll = async <T>(store: StoreName, values: T[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  values.forEach(value => objectStore.put(value));
+  await transactionDone(tx);
+};
+
+export const getAllInRange = async <T>(store: StoreName, from: number, to: number): Promise<T[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readonly');
+  return requestToPromise(tx.objectStore(store).getAll(IDBKeyRange.bound(from, to)) as IDBRequest<T[]>);
+};
@@ -0,0 +1,97 @@
+
+import { BatterySession, EnergyConfig } from '../types';
+import { DAY_MS, HOUR_MS } from './historyStore';
+
+export interface EnergyFigures {
+  consumedWh: number;  // Drawn from the battery
+  chargedWh: number;   // Stored into the battery
+  wallWh: number;      // Taken from the outlet to store chargedWh
+  cost: number | null; // Of wallWh, in the configured currency
+  co2Grams: number | null;
+}
+
+export interface SessionEnergy {
+  session: BatterySession;
+  energyWh: number;
+  chargeMAh: number;
+  wallWh: number | null; // Charge sessions only
+  cost: number | null;
+  co2Grams: number | null;
+}
+
+export const isEnergyConfigured = (config: EnergyConfig): boolean => config.designCapacityMWh !== null;
+
+// Energy represented by a change of `percent` points of charge
+export const percentToWh = (percent: number, config: EnergyConfig): number =>
+  (config.designCapacityMWh ?? 0) / 1000 * Math.abs(percent) / 100;
+
+export const whToMAh = (wh: number, config: EnergyConfig): number => wh / config.nominalVoltage * 1000;
+
+// Average power for a level change rate in %/h
+export const ratePerHourToWatts = (ratePerHour: number, config: EnergyConfig): number =>
+  percentToWh(ratePerHour, config);
+
+const withCosts = (consumedWh: number, chargedWh: number, config: EnergyConfig): EnergyFigures => {
+  const wallWh = chargedWh / config.chargerEfficiency;
+  return {
+    consumedWh,
+    chargedWh,
+    wallWh,
+    cost: config.tariffPerKWh === null ? null : wallWh / 1000 * config.tariffPerKWh,
+    co2Grams: config.gridIntensity === null ? null : wallWh / 1000 * config.gridIntensity
+  };
+};
+
+export const sessionEnergy = (session: BatterySession, config: EnergyConfig): SessionEnergy => {
+  const energyWh = percentToWh(session.depth, config);
+  const figures = withCosts(0, session.kind === 'charge' ? energyWh : 0, config);
+  return {
+    session,
+    energyWh,
+    chargeMAh: whToMAh(energyWh, config),
+    wallWh: session.kind === 'charge' ? figures.wallWh : null,
+    cost: session.kind === 'charge' ? figures.cost : null,
+    co2Grams: session.kind === 'charge' ? figures.co2Grams : null
+  };
+};
+
+// Totals over [from, to]; sessions straddling the edges count in proportion to their overlap
+export const energyBetween = (sessions: BatterySession[], from: number, to: number, config: EnergyConfig): EnergyFigures => {
+  let consumedPercent = 0;
+  let chargedPercent = 0;
+  for (const session of sessions) {
+    const overlap = Math.min(to, session.end) - Math.max(from, session.start);
+    if (overlap <= 0) continue;
+    const share = session.durationMs > 0 ? overlap / session.durationMs : 1;
+    if (session.kind === 'charge') chargedPercent += session.depth * share;
+    else consumedPercent += session.depth * share;
+  }
+  return withCosts(percentToWh(consumedPercent, config), percentToWh(chargedPercent, config), config);
+};
+
+export interface EnergySummary {
+  lastHour: EnergyFigures;
+  lastDay: EnergyFigures;
+  dailyAverage: EnergyFigures; // Over the days covered by sessions, up to a week
+  averageDays: number;
+}
+
+export const summarizeEnergy = (sessions: BatterySession[], config: EnergyConfig, now: number): EnergySummary => {
+  const earliest = sessions.reduce((min, session) => Math.min(min, session.start), now);
+  const averageDays = Math.min(7, Math.max(1, Math.ceil((now - earliest) / DAY_MS)));
+  const week = energyBetween(sessions, now - averageDays * DAY_MS, now, config);
+  const perDay = (value: number | null) => value === null ? null : value / averageDays;
+
+  return {
+    lastHour: energyBetween(sessions, now - HOUR_MS, now, config),
+    lastDay: energyBetween(sessions, now - DAY_MS, now, config),
+    dailyAverage: {
+      consumedWh: week.consumedWh / averageDays,
+      chargedWh: week.chargedWh / averageDays,
+      wallWh: week.wallWh / averageDays,
+      cost: perDay(week.cost),
+      co2Grams: perDay(week.co2Grams)
+    },
+    averageDays
+  };
+};
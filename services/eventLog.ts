@@ -0,0 +1,103 @@
+
+import { BatteryEvent, BatteryEventKind, BatteryReading } from '../types';
+import { STORES, getAllInRange, openDatabase, transactionDone } from './database';
+
+export const LEVEL_MARKS = [20, 50, 80, 100];
+export const TEMPERATURE_SPIKE = 40; // °C
+const TEMPERATURE_REARM = 2;         // °C below the spike threshold before another spike is logged
+
+export type EventCategory = 'power' | 'level' | 'temperature' | 'app' | 'analysis';
+
+export const EVENT_CATEGORIES: Record<BatteryEventKind, EventCategory> = {
+  plugged: 'power',
+  unplugged: 'power',
+  levelCrossed: 'level',
+  temperatureSpike: 'temperature',
+  sourceChanged: 'app',
+  offline: 'app',
+  online: 'app',
+  wakeLockAcquired: 'app',
+  wakeLockLost: 'app',
+  analysis: 'analysis',
+  calibration: 'analysis'
+};
+
+export interface ReadingEventState {
+  previous: BatteryReading | null;
+  temperatureArmed: boolean;
+}
+
+export const INITIAL_READING_EVENT_STATE: ReadingEventState = { previous: null, temperatureArmed: true };
+
+// Events implied by the change between two consecutive readings. The first
+// reading of a source only establishes the baseline.
+export const detectReadingEvents = (
+  state: ReadingEventState,
+  reading: BatteryReading,
+  now: number
+): { events: BatteryEvent[]; state: ReadingEventState } => {
+  const { previous } = state;
+  const events: BatteryEvent[] = [];
+  let { temperatureArmed } = state;
+
+  if (previous) {
+    if (reading.charging !== previous.charging) {
+      events.push({ timestamp: now, kind: reading.charging ? 'plugged' : 'unplugged', level: reading.level });
+    }
+    for (const mark of LEVEL_MARKS) {
+      if (previous.level < mark && reading.level >= mark) {
+        events.push({ timestamp: now, kind: 'levelCrossed', level: reading.level, value: mark, direction: 'up' });
+      } else if (mark < 100 && previous.level >= mark && reading.level < mark) {
+        events.push({ timestamp: now, kind: 'levelCrossed', level: reading.level, value: mark, direction: 'down' });
+      }
+    }
+  }
+
+  if (reading.temperature !== null) {
+    if (temperatureArmed && reading.temperature >= TEMPERATURE_SPIKE) {
+      events.push({ timestamp: now, kind: 'temperatureSpike', level: reading.level, value: reading.temperature });
+      temperatureArmed = false;
+    } else if (reading.temperature < TEMPERATURE_SPIKE - TEMPERATURE_REARM) {
+      temperatureArmed = true;
+    }
+  }
+
+  return { events, state: { previous: reading, temperatureArmed } };
+};
+
+export const logEvents = async (events: BatteryEvent[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.events, 'readwrite');
+  const store = tx.objectStore(STORES.events);
+  events.forEach(event => store.put(event));
+  await transactionDone(tx);
+};
+
+export const queryEvents = (from: number, to = Date.now()): Promise<BatteryEvent[]> =>
+  getAllInRange<BatteryEvent>(STORES.events, from, to);
+
+export const clearEvents = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.events, 'readwrite');
+  tx.objectStore(STORES.events).clear();
+  await transactionDone(tx);
+};
+
+// Compact form for the insight prompt: counts per kind plus the latest few entries
+export const summarizeEvents = (events: BatteryEvent[], now: number, windowMs: number, latest = 10) => {
+  const recent = events.filter(event => event.timestamp >= now - windowMs);
+  const counts: Partial<Record<BatteryEventKind, number>> = {};
+  recent.forEach(event => { counts[event.kind] = (counts[event.kind] ?? 0) + 1; });
+  return {
+    windowHours: Math.round(windowMs / (60 * 60 * 1000)),
+    counts,
+    latest: recent.slice(-latest).map(({ timestamp, kind, level, value, direction, detail }) => ({
+      minutesAgo: Math.round((now - timestamp) / 60000),
+      kind,
+      level,
+      ...(value !== undefined ? { value } : {}),
+      ...(direction ? { direction } : {}),
+      ...(detail ? { detail } : {})
+    }))
+  };
+};
@@ -0,0 +1,85 @@
+
+import { GoogleGenAI, Type } from "@google/genai";
+import { InsightProvider } from "../types";
+import { readPath } from "./insightSchema";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
+
+// Offered in the settings screen; any model id the key has access to works
+export const GEMINI_MODELS = [DEFAULT_GEMINI_MODEL, "gemini-3-pro-preview", "gemini-2.5-flash", "gemini-2.5-pro"];
+
+const API_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    status: { type: Type.STRING },
+    recommendation: { type: Type.STRING },
+    estimatedLifeRemaining: { type: Type.STRING },
+    optimizationTips: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING }
+    }
+  },
+  required: ["status", "recommendation", "estimatedLifeRemaining", "optimizationTips"]
+};
+
+// Model text from a REST generateContent response body
+export const readGeminiResponse = (body: unknown): string => {
+  const parts = readPath(body, ['candidates', 0, 'content', 'parts']);
+  if (!Array.isArray(parts)) return '';
+  return parts.map(part => {
+    const text = readPath(part, ['text']);
+    return typeof text === 'string' ? text : '';
+  }).join('');
+};
+
+export const createGeminiProvider = (apiKey: string | undefined, model = DEFAULT_GEMINI_MODEL): InsightProvider => {
+  // Created lazily so a missing key doesn't break module load
+  let client: GoogleGenAI | null = null;
+
+  return {
+    kind: 'gemini',
+    label: `Gemini (${model})`,
+    isConfigured: () => Boolean(apiKey),
+
+    async complete(prompt, signal) {
+      client ??= new GoogleGenAI({ apiKey });
+      const response = await client.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: RESPONSE_SCHEMA
+        }
+      });
+      return response.text ?? '';
+    },
+
+    async *chat(system, turns, signal) {
+      client ??= new GoogleGenAI({ apiKey });
+      const stream = await client.models.generateContentStream({
+        model,
+        contents: turns.map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.content }] })),
+        config: { abortSignal: signal, systemInstruction: system }
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    // The REST equivalent of the SDK call above
+    toReplayableRequest: (prompt) => ({
+      url: `${API_BASE_URL}/models/${model}:generateContent`,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: { responseMimeType: "application/json", responseSchema: RESPONSE_SCHEMA }
+      })
+    }),
+
+    credentialHeaders: (): Record<string, string> => apiKey ? { 'x-goog-api-key': apiKey } : {}
+  };
+};
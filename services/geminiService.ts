@@ -1,43 +1,60 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { BatteryStats, BatteryInsight } from "../types";
+import { BatteryStats, InsightContext, InsightProvider, InsightResult, UsageData } from "../types";
+import { describeHealth } from "./healthModel";
+import { RunInsightOptions, createInsightProvider, providerConfigFromEnv, runInsightRequest } from "./insightProvider";
+import { summarizeSessions } from "./sessionTracker";
+import { describeSmartCharge } from "./smartCharge";
+import { LOCALES } from "./i18n";
+import { summarizeEvents } from "./eventLog";
+import { DAY_MS } from "./historyStore";
+import { describeCalibration } from "./calibration";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const providers = new Map<string, InsightProvider>();
 
-export const getBatteryInsights = async (stats: BatteryStats): Promise<BatteryInsight | null> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Analyze these battery stats and provide a professional battery core report in JSON: 
+// Provider from the build-time configuration; `model` overrides its model (chosen in settings)
+export const getDefaultProvider = (model = ''): InsightProvider => {
+  if (!providers.has(model)) {
+    const config = providerConfigFromEnv();
+    providers.set(model, createInsightProvider(model ? { ...config, model } : config));
+  }
+  return providers.get(model)!;
+};
+
+export const isAiConfigured = (provider: InsightProvider = getDefaultProvider()): boolean => provider.isConfigured();
+
+const describeTrend = (history: UsageData[]): string => {
+  if (history.length < 2) return "No recorded history yet.";
+  const first = history[0];
+  const last = history[history.length - 1];
+  const minutes = Math.max(1, Math.round((last.timestamp - first.timestamp) / 60000));
+  return `Level went from ${first.level}% to ${last.level}% over the last ${minutes} min (${history.length} samples).`;
+};
+
+export const buildInsightPrompt = (
+  stats: BatteryStats,
+  { history = [], sessions = [], smartCharge, habitWindowDays = 7, locale = 'en', events = [], calibration, now: clockNow }: InsightContext = {}
+): string => {
+  // Simulated sources run ahead of the wall clock; measure "ago" from their timeline
+  const now = clockNow ?? Math.max(Date.now(), history[history.length - 1]?.timestamp ?? 0, events[events.length - 1]?.timestamp ?? 0);
+  return `Analyze these battery stats and provide a professional battery core report in JSON: 
         Level: ${stats.level}%, 
         Charging: ${stats.charging}, 
-        Temperature: ${stats.temperature}°C, 
-        Voltage: ${stats.voltage}V, 
-        Health: ${stats.health}. 
-        Provide a status summary, one primary recommendation, an estimated life remaining sentence, and 3 specific optimization tips.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            status: { type: Type.STRING },
-            recommendation: { type: Type.STRING },
-            estimatedLifeRemaining: { type: Type.STRING },
-            optimizationTips: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
-            }
-          },
-          required: ["status", "recommendation", "estimatedLifeRemaining", "optimizationTips"]
-        }
-      }
-    });
-
-    const text = response.text;
-    if (!text) return null;
-    return JSON.parse(text) as BatteryInsight;
-  } catch (error) {
-    console.error("Error fetching battery insights:", error);
-    return null;
-  }
+        Temperature: ${stats.temperature === null ? 'not measured' : `${stats.temperature}°C`}, 
+        Voltage: ${stats.voltage === null ? 'not measured' : `${stats.voltage}V`}, 
+        Health: ${describeHealth(stats.health)}. 
+        Recent trend: ${describeTrend(history)}
+        Charging habits (sessions over the last ${habitWindowDays} days, JSON): ${JSON.stringify(summarizeSessions(sessions, habitWindowDays, now))}
+        Smart charge mode: ${describeSmartCharge(smartCharge)}.
+        Event timeline (last 24 h, JSON): ${JSON.stringify(summarizeEvents(events, now, DAY_MS))}
+        Deep cycle calibration (latest run; relativeCapacity compares discharge time per % with earlier runs, linearity is R²): ${describeCalibration(calibration)}
+        Provide a status summary, one primary recommendation, an estimated life remaining sentence, and 3 specific optimization tips.
+        Where the charging habits or events show a pattern (e.g. frequent charges to 100%, overnight charging or temperature spikes), reference it explicitly. If a calibration run is present, assess its effective capacity, curve linearity and anomalies.
+        Write every text value (status, recommendation, estimated life and tips) in ${LOCALES[locale].promptLanguage}; keep the JSON keys in English.`;
 };
+
+export const getBatteryInsights = (
+  stats: BatteryStats,
+  context: InsightContext = {},
+  { provider = getDefaultProvider(), ...options }: RunInsightOptions & { provider?: InsightProvider } = {}
+): Promise<InsightResult> =>
+  runInsightRequest(provider, buildInsightPrompt(stats, context), options);
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { UsageData } from '../types';
+import { UNKNOWN_HEALTH, estimateHealth } from './healthModel';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 6);
+
+// Hourly samples: each day drains from 80% at the day's rate for 8 hours,
+// charges back at 10%/h and then sits plugged in at 80% until midnight
+const dailyCycles = (drainPerHour: (day: number) => number, days: number): UsageData[] =>
+  Array.from({ length: days }, (_, day) => {
+    const rate = drainPerHour(day);
+    let level = 80;
+    return Array.from({ length: 24 }, (_, hour): UsageData => {
+      const charging = hour >= 8;
+      const point = { timestamp: START + (day * 24 + hour) * HOUR, level, charging, temperature: null };
+      level = charging ? Math.min(80, level + 10) : level - rate;
+      return point;
+    });
+  }).flat();
+
+describe('estimateHealth', () => {
+  it('needs at least two points to say anything', () => {
+    expect(estimateHealth([])).toBe(UNKNOWN_HEALTH);
+    expect(estimateHealth([{ timestamp: START, level: 50 }])).toBe(UNKNOWN_HEALTH);
+  });
+
+  it('deducts for a drain that doubled between the first and last week', () => {
+    const health = estimateHealth(dailyCycles(day => day < 8 ? 5 : 10, 15));
+
+    expect(health.factors).toEqual([{ id: 'dischargeRate', impact: 25, values: { recent: 6, baseline: 12 } }]);
+    expect(health).toMatchObject({ grade: 'Fair', score: 75, confidence: 'high', equivalentCycles: 8.8 });
+  });
+
+  it('deducts for time spent hot and near full, with low confidence on a short history', () => {
+    const history = Array.from({ length: 12 }, (_, hour): UsageData => ({
+      timestamp: START + hour * HOUR, level: 95, charging: true, temperature: 45
+    }));
+    const health = estimateHealth(history);
+
+    expect(health.factors.map(factor => [factor.id, factor.impact])).toEqual([['highTemperature', 15], ['highCharge', 10]]);
+    expect(health).toMatchObject({ grade: 'Fair', score: 75, confidence: 'low', equivalentCycles: 0 });
+  });
+});
@@ -0,0 +1,172 @@
+
+import { BatteryHealth, HealthFactor, HealthGrade, UsageData } from '../types';
+import { createTranslator } from './i18n';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_SPAN_MS = DAY_MS;        // Longest gap between points still treated as continuous
+const RATED_CYCLES = 500;          // Typical Li-ion cycles until ~80% capacity
+const HIGH_TEMPERATURE = 40;       // °C
+const HIGH_CHARGE = 90;            // %
+const BASELINE_WINDOW_MS = 7 * DAY_MS;
+
+export const UNKNOWN_HEALTH: BatteryHealth = {
+  grade: 'Unknown',
+  score: 100,
+  factors: [],
+  confidence: 'low',
+  equivalentCycles: 0
+};
+
+interface Segment {
+  start: UsageData;
+  end: UsageData;
+  durationMs: number;
+}
+
+const toSegments = (history: UsageData[]): Segment[] => {
+  const segments: Segment[] = [];
+  for (let i = 1; i < history.length; i++) {
+    const durationMs = history[i].timestamp - history[i - 1].timestamp;
+    if (durationMs > 0 && durationMs <= MAX_SPAN_MS) {
+      segments.push({ start: history[i - 1], end: history[i], durationMs });
+    }
+  }
+  return segments;
+};
+
+// Average % per hour over segments moving in the requested direction
+const averageRate = (segments: Segment[], charging: boolean): number | null => {
+  let delta = 0;
+  let duration = 0;
+  for (const { start, end, durationMs } of segments) {
+    const change = end.level - start.level;
+    if (Boolean(start.charging) !== charging || (charging ? change <= 0 : change >= 0)) continue;
+    delta += Math.abs(change);
+    duration += durationMs;
+  }
+  return duration > HOUR_MS / 2 ? delta / (duration / HOUR_MS) : null;
+};
+
+const shareOfTime = (segments: Segment[], predicate: (point: UsageData) => boolean | null): number => {
+  let matching = 0;
+  let total = 0;
+  for (const { start, durationMs } of segments) {
+    const result = predicate(start);
+    if (result === null) continue;
+    total += durationMs;
+    if (result) matching += durationMs;
+  }
+  return total > 0 ? matching / total : 0;
+};
+
+const toGrade = (score: number): HealthGrade => {
+  if (score >= 80) return 'Good';
+  if (score >= 60) return 'Fair';
+  return 'Poor';
+};
+
+const round = (value: number, digits = 1) => parseFloat(value.toFixed(digits));
+
+// Derives a 0-100 health score from recorded history. Each factor deducts a
+// bounded number of points; aggregated (hourly/daily) points are accepted but
+// hide intra-bucket swings, so the cycle count is a lower bound.
+export const estimateHealth = (history: UsageData[]): BatteryHealth => {
+  const sorted = [...history].sort((a, b) => a.timestamp - b.timestamp);
+  const segments = toSegments(sorted);
+  if (segments.length === 0) return UNKNOWN_HEALTH;
+
+  const spanMs = sorted[sorted.length - 1].timestamp - sorted[0].timestamp;
+  const factors: HealthFactor[] = [];
+
+  const equivalentCycles = segments.reduce(
+    (sum, { start, end }) => sum + Math.max(0, start.level - end.level), 0
+  ) / 100;
+  const cycleImpact = Math.min(30, (equivalentCycles / RATED_CYCLES) * 20);
+  if (cycleImpact >= 0.5) {
+    factors.push({
+      id: 'cycles',
+      impact: round(cycleImpact),
+      values: { cycles: round(equivalentCycles) }
+    });
+  }
+
+  // Compare the oldest week of data against the most recent week
+  if (spanMs >= 2 * BASELINE_WINDOW_MS) {
+    const firstTimestamp = sorted[0].timestamp;
+    const lastTimestamp = sorted[sorted.length - 1].timestamp;
+    const baseline = segments.filter(s => s.start.timestamp < firstTimestamp + BASELINE_WINDOW_MS);
+    const recent = segments.filter(s => s.start.timestamp >= lastTimestamp - BASELINE_WINDOW_MS);
+
+    const baselineDrain = averageRate(baseline, false);
+    const recentDrain = averageRate(recent, false);
+    if (baselineDrain && recentDrain && recentDrain > baselineDrain) {
+      const ratio = recentDrain / baselineDrain;
+      const impact = Math.min(25, (ratio - 1) * 50);
+      if (impact >= 0.5) {
+        factors.push({
+          id: 'dischargeRate',
+          impact: round(impact),
+          values: { recent: round(60 / recentDrain), baseline: round(60 / baselineDrain) }
+        });
+      }
+    }
+
+    const baselineCharge = averageRate(baseline, true);
+    const recentCharge = averageRate(recent, true);
+    if (baselineCharge && recentCharge && recentCharge < baselineCharge) {
+      const ratio = recentCharge / baselineCharge;
+      const impact = Math.min(15, (1 - ratio) * 50);
+      if (impact >= 0.5) {
+        factors.push({
+          id: 'chargeRate',
+          impact: round(impact),
+          values: { recent: round(60 / recentCharge), baseline: round(60 / baselineCharge) }
+        });
+      }
+    }
+  }
+
+  const hotShare = shareOfTime(segments, point =>
+    point.temperature === null || point.temperature === undefined ? null : point.temperature > HIGH_TEMPERATURE
+  );
+  const hotImpact = Math.min(15, hotShare * 60);
+  if (hotImpact >= 0.5) {
+    factors.push({
+      id: 'highTemperature',
+      impact: round(hotImpact),
+      values: { percent: Math.round(hotShare * 100), threshold: HIGH_TEMPERATURE }
+    });
+  }
+
+  const fullShare = shareOfTime(segments, point => point.level >= HIGH_CHARGE);
+  const fullImpact = Math.min(10, fullShare * 20);
+  if (fullImpact >= 0.5) {
+    factors.push({
+      id: 'highCharge',
+      impact: round(fullImpact),
+      values: { percent: Math.round(fullShare * 100), threshold: HIGH_CHARGE }
+    });
+  }
+
+  const score = Math.round(Math.max(0, 100 - factors.reduce((sum, factor) => sum + factor.impact, 0)));
+
+  return {
+    grade: toGrade(score),
+    score,
+    factors: factors.sort((a, b) => b.impact - a.impact),
+    confidence: spanMs >= 2 * BASELINE_WINDOW_MS ? 'high' : spanMs >= DAY_MS ? 'medium' : 'low',
+    equivalentCycles: round(equivalentCycles, 2)
+  };
+};
+
+// Prompt text, which is always written in English
+const english = createTranslator('en');
+
+export const describeHealth = (health: BatteryHealth): string => {
+  if (health.grade === 'Unknown') return 'Unknown (not enough history yet)';
+  const factors = health.factors.length
+    ? health.factors.map(f => `${english(`health.factor.${f.id}`)} -${f.impact} (${english(`health.detail.${f.id}`, f.values)})`).join('; ')
+    : 'no negative factors';
+  return `${health.grade}, score ${health.score}/100 (${health.confidence} confidence, ${health.equivalentCycles} equivalent cycles); factors: ${factors}`;
+};
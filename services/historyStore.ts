@@ -0,0 +1,193 @@
+
+import { AggregateResolution, BatterySample, HistoryAggregate, RetentionPolicy, UsageData } from '../types';
+import { STORES, StoreName, getAllInRange, openDatabase, requestToPromise, transactionDone } from './database';
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  rawMs: DAY_MS,
+  hourlyMs: 30 * DAY_MS,
+  dailyMs: 365 * DAY_MS
+};
+
+export interface HistoryQuery {
+  from: number;
+  to?: number;
+  bucketMs?: number; // Downsample the result to one point per bucket
+}
+
+const sampleToAggregate = (sample: BatterySample, resolution: AggregateResolution, bucketMs: number): HistoryAggregate => ({
+  bucketStart: Math.floor(sample.timestamp / bucketMs) * bucketMs,
+  resolution,
+  sampleCount: 1,
+  avgLevel: sample.level,
+  minLevel: sample.level,
+  maxLevel: sample.level,
+  chargingRatio: sample.charging ? 1 : 0,
+  avgTemperature: sample.temperature,
+  avgVoltage: sample.voltage,
+  visibleRatio: sample.visible === undefined ? null : Number(sample.visible)
+});
+
+const weighted = (a: number, aCount: number, b: number, bCount: number) =>
+  (a * aCount + b * bCount) / (aCount + bCount);
+
+// Unmeasured values (null) don't contribute to the average
+const weightedOptional = (a: number | null, aCount: number, b: number | null, bCount: number) => {
+  if (a === null) return b;
+  if (b === null) return a;
+  return weighted(a, aCount, b, bCount);
+};
+
+const roundOptional = (value: number | null, digits: number) =>
+  value === null ? null : parseFloat(value.toFixed(digits));
+
+const mergeAggregates = (a: HistoryAggregate, b: HistoryAggregate): HistoryAggregate => ({
+  bucketStart: a.bucketStart,
+  resolution: a.resolution,
+  sampleCount: a.sampleCount + b.sampleCount,
+  avgLevel: weighted(a.avgLevel, a.sampleCount, b.avgLevel, b.sampleCount),
+  minLevel: Math.min(a.minLevel, b.minLevel),
+  maxLevel: Math.max(a.maxLevel, b.maxLevel),
+  chargingRatio: weighted(a.chargingRatio, a.sampleCount, b.chargingRatio, b.sampleCount),
+  avgTemperature: weightedOptional(a.avgTemperature, a.sampleCount, b.avgTemperature, b.sampleCount),
+  avgVoltage: weightedOptional(a.avgVoltage, a.sampleCount, b.avgVoltage, b.sampleCount),
+  visibleRatio: weightedOptional(a.visibleRatio ?? null, a.sampleCount, b.visibleRatio ?? null, b.sampleCount)
+});
+
+// Adds buckets to an aggregate store, combining them with any stored bucket of the same start
+export const mergeIntoBuckets = async (store: IDBObjectStore, buckets: Iterable<HistoryAggregate>): Promise<void> => {
+  for (const bucket of buckets) {
+    const stored = await requestToPromise(store.get(bucket.bucketStart) as IDBRequest<HistoryAggregate | undefined>);
+    store.put(stored ? mergeAggregates(stored, bucket) : bucket);
+  }
+};
+
+const aggregateToUsage = (bucket: HistoryAggregate): UsageData => ({
+  timestamp: bucket.bucketStart,
+  level: Math.round(bucket.avgLevel),
+  charging: bucket.chargingRatio >= 0.5,
+  temperature: roundOptional(bucket.avgTemperature, 1),
+  voltage: roundOptional(bucket.avgVoltage, 2),
+  visible: typeof bucket.visibleRatio === 'number' ? bucket.visibleRatio >= 0.5 : undefined
+});
+
+const sampleToUsage = ({ timestamp, level, charging, temperature, voltage, visible }: BatterySample): UsageData =>
+  ({ timestamp, level, charging, temperature, voltage, visible });
+
+export const recordSample = async (sample: BatterySample): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.samples, 'readwrite');
+  tx.objectStore(STORES.samples).put(sample);
+  await transactionDone(tx);
+};
+
+export const querySamples = ({ from, to = Date.now() }: HistoryQuery): Promise<BatterySample[]> =>
+  getAllInRange<BatterySample>(STORES.samples, from, to);
+
+export const queryAggregates = (resolution: AggregateResolution, { from, to = Date.now() }: HistoryQuery): Promise<HistoryAggregate[]> =>
+  getAllInRange<HistoryAggregate>(resolution === 'hour' ? STORES.hourly : STORES.daily, from, to);
+
+const majorityOf = (values: Array<boolean | undefined>): boolean | undefined => {
+  const known = values.filter((value): value is boolean => typeof value === 'boolean');
+  return known.length ? known.filter(Boolean).length >= known.length / 2 : undefined;
+};
+
+const averageOf = (values: Array<number | null | undefined>): number | null => {
+  const measured = values.filter((value): value is number => typeof value === 'number');
+  return measured.length ? measured.reduce((sum, value) => sum + value, 0) / measured.length : null;
+};
+
+// Averages points into fixed-size time buckets so long ranges stay cheap to render
+export const downsampleHistory = (points: UsageData[], bucketMs: number): UsageData[] => {
+  const buckets = new Map<number, UsageData[]>();
+  for (const point of points) {
+    const key = Math.floor(point.timestamp / bucketMs) * bucketMs;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(point);
+    else buckets.set(key, [point]);
+  }
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, bucket]) => ({
+      timestamp,
+      level: Math.round(averageOf(bucket.map(point => point.level))!),
+      charging: bucket.filter(point => point.charging).length >= bucket.length / 2,
+      temperature: roundOptional(averageOf(bucket.map(point => point.temperature)), 1),
+      voltage: roundOptional(averageOf(bucket.map(point => point.voltage)), 2),
+      visible: majorityOf(bucket.map(point => point.visible))
+    }));
+};
+
+// Returns the best available resolution for every part of the range: raw samples
+// where they still exist, hourly buckets before that and daily buckets for the oldest data.
+export const queryHistory = async (query: HistoryQuery): Promise<UsageData[]> => {
+  const [daily, hourly, samples] = await Promise.all([
+    queryAggregates('day', query),
+    queryAggregates('hour', query),
+    querySamples(query)
+  ]);
+
+  const history = [
+    ...daily.map(aggregateToUsage),
+    ...hourly.map(aggregateToUsage),
+    ...samples.map(sampleToUsage)
+  ].sort((a, b) => a.timestamp - b.timestamp);
+
+  return query.bucketMs ? downsampleHistory(history, query.bucketMs) : history;
+};
+
+const rollUp = async <T>(
+  source: StoreName,
+  target: StoreName,
+  cutoff: number,
+  toAggregate: (entry: T) => HistoryAggregate
+): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([source, target], 'readwrite');
+  const sourceStore = tx.objectStore(source);
+  const targetStore = tx.objectStore(target);
+  const range = IDBKeyRange.upperBound(cutoff, true);
+
+  const entries = await requestToPromise(sourceStore.getAll(range) as IDBRequest<T[]>);
+  if (entries.length === 0) {
+    await transactionDone(tx);
+    return;
+  }
+
+  const buckets = new Map<number, HistoryAggregate>();
+  for (const entry of entries) {
+    const contribution = toAggregate(entry);
+    const existing = buckets.get(contribution.bucketStart);
+    buckets.set(contribution.bucketStart, existing ? mergeAggregates(existing, contribution) : contribution);
+  }
+
+  await mergeIntoBuckets(targetStore, buckets.values());
+
+  sourceStore.delete(range);
+  await transactionDone(tx);
+};
+
+const dropBefore = async (store: StoreName, cutoff: number): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).delete(IDBKeyRange.upperBound(cutoff, true));
+  await transactionDone(tx);
+};
+
+// Downsamples old data according to the retention policy. Cutoffs are aligned to
+// bucket boundaries so raw, hourly and daily data never overlap in time.
+export const compactHistory = async (policy: RetentionPolicy = DEFAULT_RETENTION, now = Date.now()): Promise<void> => {
+  const rawCutoff = Math.floor((now - policy.rawMs) / HOUR_MS) * HOUR_MS;
+  const hourlyCutoff = Math.floor((now - policy.hourlyMs) / DAY_MS) * DAY_MS;
+
+  await rollUp<BatterySample>(STORES.samples, STORES.hourly, rawCutoff,
+    sample => sampleToAggregate(sample, 'hour', HOUR_MS));
+
+  await rollUp<HistoryAggregate>(STORES.hourly, STORES.daily, hourlyCutoff,
+    bucket => ({ ...bucket, resolution: 'day', bucketStart: Math.floor(bucket.bucketStart / DAY_MS) * DAY_MS }));
+
+  await dropBefore(STORES.daily, now - policy.dailyMs);
+};
@@ -0,0 +1,76 @@
+
+import { Locale } from '../types';
+import en, { MessageKey } from '../locales/en';
+import ptBR from '../locales/pt-BR';
+
+export type { MessageKey };
+export type Translator = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export const LOCALES: Record<Locale, { label: string; messages: Record<MessageKey, string>; promptLanguage: string }> = {
+  en: { label: 'English', messages: en, promptLanguage: 'English' },
+  'pt-BR': { label: 'Português (Brasil)', messages: ptBR, promptLanguage: 'Brazilian Portuguese' }
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+// Picks the first supported browser language, matching on the language part
+// so that e.g. 'pt-PT' still gets Portuguese
+export const detectLocale = (): Locale => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    if (isLocale(tag)) return tag;
+    const language = tag.split('-')[0];
+    const match = (Object.keys(LOCALES) as Locale[]).find(locale => locale.split('-')[0] === language);
+    if (match) return match;
+  }
+  return 'en';
+};
+
+export const createTranslator = (locale: Locale = 'en'): Translator => {
+  const messages = LOCALES[locale]?.messages ?? en;
+  return (key, params) => {
+    const template = messages[key] ?? en[key] ?? key;
+    return params
+      ? template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match)
+      : template;
+  };
+};
+
+// Translator plus Intl formatters bound to one locale; created once per locale change
+export const createI18n = (locale: Locale) => {
+  const number = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+  const time = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit' });
+  const date = new Intl.DateTimeFormat(locale, { month: 'short', day: 'numeric' });
+  const dateTime = new Intl.DateTimeFormat(locale, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  const weekdayTime = new Intl.DateTimeFormat(locale, { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+  const unit = (name: string) => new Intl.NumberFormat(locale, { style: 'unit', unit: name, unitDisplay: 'short' });
+  const hours = unit('hour');
+  const minutes = unit('minute');
+  const seconds = unit('second');
+  const units = new Intl.ListFormat(locale, { type: 'unit', style: 'narrow' });
+
+  // Seconds below a minute, otherwise hours and minutes, e.g. "2 hr 5 min"
+  const formatDuration = (ms: number) => {
+    if (ms < 60000) return seconds.format(Math.max(0, Math.round(ms / 1000)));
+    const total = Math.round(ms / 60000);
+    const h = Math.floor(total / 60);
+    const m = total % 60;
+    if (h === 0) return minutes.format(m);
+    return units.format(m > 0 ? [hours.format(h), minutes.format(m)] : [hours.format(h)]);
+  };
+
+  return {
+    locale,
+    t: createTranslator(locale),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) =>
+      options ? new Intl.NumberFormat(locale, options).format(value) : number.format(value),
+    formatTime: (timestamp: number) => time.format(timestamp),
+    formatDate: (timestamp: number) => date.format(timestamp),
+    formatDateTime: (timestamp: number) => dateTime.format(timestamp),
+    formatWeekdayTime: (timestamp: number) => weekdayTime.format(timestamp),
+    formatDuration
+  };
+};
+
+export type I18n = ReturnType<typeof createI18n>;
@@ -0,0 +1,9 @@
+
+import { InsightErrorKind } from '../types';
+
+export class InsightProviderError extends Error {
+  constructor(readonly kind: InsightErrorKind, message: string) {
+    super(message);
+    this.name = 'InsightProviderError';
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { InsightProvider } from '../types';
+import { InsightProviderError } from './insightError';
+import { MAX_ATTEMPTS, runInsightRequest } from './insightProvider';
+
+const VALID_REPLY = JSON.stringify({
+  status: 'Healthy',
+  recommendation: 'Unplug at 80%.',
+  estimatedLifeRemaining: '6 hours',
+  optimizationTips: ['Lower the screen brightness']
+});
+
+// Answers with the scripted replies in order and records every prompt it was sent
+const scriptedProvider = (replies: Array<string | Error>, configured = true) => {
+  const prompts: string[] = [];
+  const provider: InsightProvider = {
+    kind: 'openai',
+    label: 'Test provider',
+    isConfigured: () => configured,
+    complete: async prompt => {
+      prompts.push(prompt);
+      const reply = replies[Math.min(prompts.length, replies.length) - 1];
+      if (reply instanceof Error) throw reply;
+      return reply;
+    },
+    chat: async function* () { /* not used here */ },
+    toReplayableRequest: prompt => ({ url: 'https://example.test', method: 'POST', headers: {}, body: prompt }),
+    credentialHeaders: () => ({})
+  };
+  return { provider, prompts };
+};
+
+describe('runInsightRequest', () => {
+  it('re-asks with the validation problems after a malformed reply', async () => {
+    const { provider, prompts } = scriptedProvider(['not json', VALID_REPLY]);
+    const result = await runInsightRequest(provider, 'Analyse');
+
+    expect(result).toMatchObject({ status: 'ok', provider: 'Test provider', insight: { status: 'Healthy' } });
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('Your previous reply was rejected: reply is not valid JSON');
+  });
+
+  it('gives up after the last attempt with the remaining problems', async () => {
+    const { provider, prompts } = scriptedProvider(['{}', '[]']);
+    const result = await runInsightRequest(provider, 'Analyse');
+
+    expect(prompts).toHaveLength(MAX_ATTEMPTS);
+    expect(result).toEqual({ status: 'error', error: { kind: 'invalid-response', message: 'reply must be a JSON object' } });
+  });
+
+  it('does not retry provider failures', async () => {
+    const { provider, prompts } = scriptedProvider([new InsightProviderError('provider', 'HTTP 401')]);
+
+    expect(await runInsightRequest(provider, 'Analyse')).toEqual({ status: 'error', error: { kind: 'provider', message: 'HTTP 401' } });
+    expect(prompts).toHaveLength(1);
+  });
+
+  it('reports an unconfigured provider without calling it', async () => {
+    const { provider, prompts } = scriptedProvider([VALID_REPLY], false);
+
+    expect(await runInsightRequest(provider, 'Analyse')).toEqual({
+      status: 'error', error: { kind: 'not-configured', message: 'Test provider' }
+    });
+    expect(prompts).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+
+import { InsightError, InsightProvider, InsightProviderConfig, InsightResult } from '../types';
+import { DEFAULT_GEMINI_MODEL, createGeminiProvider } from './geminiProvider';
+import { MessageKey, Translator } from './i18n';
+import { InsightProviderError } from './insightError';
+import { parseInsight } from './insightSchema';
+import { createOpenAiProvider } from './openAiProvider';
+
+export const DEFAULT_TIMEOUT_MS = 20000;
+export const MAX_ATTEMPTS = 3;
+
+// Build-time configuration, see vite.config.ts
+export const providerConfigFromEnv = (): InsightProviderConfig => {
+  const kind = process.env.INSIGHT_PROVIDER === 'openai' ? 'openai' : 'gemini';
+  return kind === 'openai'
+    ? { kind, model: process.env.INSIGHT_MODEL ?? '', baseUrl: process.env.INSIGHT_BASE_URL, apiKey: process.env.INSIGHT_API_KEY }
+    : { kind, model: process.env.INSIGHT_MODEL || DEFAULT_GEMINI_MODEL, apiKey: process.env.API_KEY };
+};
+
+export const createInsightProvider = (config: InsightProviderConfig): InsightProvider =>
+  config.kind === 'openai'
+    ? createOpenAiProvider(config.baseUrl, config.model, config.apiKey)
+    : createGeminiProvider(config.apiKey, config.model || DEFAULT_GEMINI_MODEL);
+
+// `message` only carries the technical detail; describeInsightError words it for the user
+export const toInsightError = (err: unknown, timedOut: boolean): InsightError => {
+  if (timedOut) return { kind: 'timeout', message: '' };
+  if (err instanceof InsightProviderError) return { kind: err.kind, message: err.message };
+  if (err instanceof DOMException && err.name === 'AbortError') return { kind: 'aborted', message: '' };
+  if (err instanceof TypeError) return { kind: 'network', message: err.message };
+  return { kind: 'provider', message: err instanceof Error ? err.message : String(err) };
+};
+
+export const describeInsightError = (error: InsightError, t: Translator): string =>
+  t(`insight.error.${error.kind}` as MessageKey, { detail: error.message, attempts: MAX_ATTEMPTS });
+
+export interface RunInsightOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+// Sends the prompt, validates the reply against the BatteryInsight schema and
+// re-asks with the validation problems when the model returns malformed output.
+export const runInsightRequest = async (
+  provider: InsightProvider,
+  prompt: string,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS }: RunInsightOptions = {}
+): Promise<InsightResult> => {
+  if (!provider.isConfigured()) {
+    return { status: 'error', error: { kind: 'not-configured', message: provider.label } };
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort);
+
+  let problems: string[] = [];
+  try {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const attemptPrompt = problems.length
+        ? `${prompt}\n\nYour previous reply was rejected: ${problems.join('; ')}. Reply with the corrected JSON object only.`
+        : prompt;
+
+      const result = parseInsight(await provider.complete(attemptPrompt, controller.signal));
+      if (result.status === 'valid') return { status: 'ok', insight: result.insight, provider: provider.label };
+      problems = result.problems;
+    }
+    return {
+      status: 'error',
+      error: { kind: 'invalid-response', message: problems.join('; ') }
+    };
+  } catch (err) {
+    return { status: 'error', error: toInsightError(err, timedOut) };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
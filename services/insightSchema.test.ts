@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseInsight } from './insightSchema';
+
+const INSIGHT = {
+  status: 'Healthy',
+  recommendation: 'Unplug at 80%.',
+  estimatedLifeRemaining: '6 hours',
+  optimizationTips: ['Lower the screen brightness']
+};
+
+describe('parseInsight', () => {
+  it('accepts a complete reply, including one wrapped in a code fence', () => {
+    expect(parseInsight(JSON.stringify(INSIGHT))).toEqual({ status: 'valid', insight: INSIGHT });
+    expect(parseInsight('```json\n' + JSON.stringify(INSIGHT) + '\n```')).toEqual({ status: 'valid', insight: INSIGHT });
+  });
+
+  it('rejects replies that are not a JSON object', () => {
+    expect(parseInsight('The battery looks fine.')).toEqual({ status: 'invalid', problems: ['reply is not valid JSON'] });
+    expect(parseInsight('[]')).toEqual({ status: 'invalid', problems: ['reply must be a JSON object'] });
+  });
+
+  it('lists every missing or malformed field', () => {
+    const result = parseInsight(JSON.stringify({ ...INSIGHT, status: ' ', estimatedLifeRemaining: 6, optimizationTips: [] }));
+
+    expect(result).toEqual({
+      status: 'invalid',
+      problems: [
+        '"status" must be a non-empty string',
+        '"estimatedLifeRemaining" must be a non-empty string',
+        '"optimizationTips" must be a non-empty array of strings'
+      ]
+    });
+  });
+});
@@ -0,0 +1,70 @@
+
+import { BatteryInsight } from '../types';
+
+// JSON Schema for the report, shared by providers that support structured output
+export const INSIGHT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    status: { type: 'string' },
+    recommendation: { type: 'string' },
+    estimatedLifeRemaining: { type: 'string' },
+    optimizationTips: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['status', 'recommendation', 'estimatedLifeRemaining', 'optimizationTips']
+} as const;
+
+// Walks a parsed JSON body, returning undefined wherever the shape doesn't match
+export const readPath = (value: unknown, path: Array<string | number>): unknown =>
+  path.reduce<unknown>(
+    (current, key) => typeof current === 'object' && current !== null ? (current as Record<string | number, unknown>)[key] : undefined,
+    value
+  );
+
+const STRING_FIELDS = ['status', 'recommendation', 'estimatedLifeRemaining'] as const;
+
+// Models sometimes wrap JSON in markdown fences despite being told not to
+const stripFences = (text: string) =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+export type InsightValidation =
+  | { status: 'valid'; insight: BatteryInsight }
+  | { status: 'invalid'; problems: string[] };
+
+export const parseInsight = (text: string): InsightValidation => {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripFences(text));
+  } catch {
+    return { status: 'invalid', problems: ['reply is not valid JSON'] };
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { status: 'invalid', problems: ['reply must be a JSON object'] };
+  }
+
+  const record = value as Record<string, unknown>;
+  const problems: string[] = [];
+
+  for (const field of STRING_FIELDS) {
+    if (typeof record[field] !== 'string' || !(record[field] as string).trim()) {
+      problems.push(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  const tips = record.optimizationTips;
+  if (!Array.isArray(tips) || tips.length === 0 || !tips.every(tip => typeof tip === 'string')) {
+    problems.push('"optimizationTips" must be a non-empty array of strings');
+  }
+
+  if (problems.length) return { status: 'invalid', problems };
+
+  return {
+    status: 'valid',
+    insight: {
+      status: record.status as string,
+      recommendation: record.recommendation as string,
+      estimatedLifeRemaining: record.estimatedLifeRemaining as string,
+      optimizationTips: tips as string[]
+    }
+  };
+};
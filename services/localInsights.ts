@@ -0,0 +1,169 @@
+
+import { BatteryInsight, BatteryStats, InsightContext, UsageData } from '../types';
+import { summarizeSessions } from './sessionTracker';
+import { I18n, MessageKey, Translator, createI18n } from './i18n';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface RuleInput {
+  stats: BatteryStats;
+  ceiling: number;
+  drainPerHour: number | null;
+  chargePerHour: number | null;
+  summary: ReturnType<typeof summarizeSessions>;
+  t: Translator;
+  formatDuration: I18n['formatDuration'];
+}
+
+interface Rule {
+  id: string;
+  priority: number; // Higher wins when picking the primary recommendation
+  when: (input: RuleInput) => boolean;
+  recommendation: (input: RuleInput) => string;
+  tip: (input: RuleInput) => string;
+}
+
+// Fallback tips used when fewer than three rules fire
+const GENERAL_TIPS: MessageKey[] = [
+  'local.general.brightness',
+  'local.general.background',
+  'local.general.range',
+  'local.general.heat'
+];
+
+const RULES: Rule[] = [
+  {
+    id: 'overheating',
+    priority: 100,
+    when: ({ stats }) => stats.temperature !== null && stats.temperature >= 40,
+    recommendation: ({ stats, t }) => t('local.overheating.recommendation', { temperature: stats.temperature }),
+    tip: ({ t }) => t('local.overheating.tip')
+  },
+  {
+    id: 'critical-level',
+    priority: 90,
+    when: ({ stats }) => !stats.charging && stats.level <= 15,
+    recommendation: ({ stats, t }) => t('local.criticalLevel.recommendation', { level: stats.level }),
+    tip: ({ t }) => t('local.criticalLevel.tip')
+  },
+  {
+    id: 'fast-drain',
+    priority: 70,
+    when: ({ stats, drainPerHour }) => !stats.charging && drainPerHour !== null && drainPerHour >= 25,
+    recommendation: ({ drainPerHour, t }) => t('local.fastDrain.recommendation', { rate: Math.round(drainPerHour!) }),
+    tip: ({ t }) => t('local.fastDrain.tip')
+  },
+  {
+    id: 'high-charge',
+    priority: 60,
+    when: ({ stats, ceiling }) => stats.charging && stats.level >= ceiling,
+    recommendation: ({ stats, ceiling, t }) => t('local.highCharge.recommendation', { level: stats.level, ceiling }),
+    tip: ({ t }) => t('local.highCharge.tip')
+  },
+  {
+    id: 'charges-to-full',
+    priority: 50,
+    when: ({ summary }) => summary.chargesToFull >= 3,
+    recommendation: ({ summary, t }) =>
+      t('local.chargesToFull.recommendation', { count: summary.chargesToFull, days: summary.windowDays }),
+    tip: ({ summary, t }) => t('local.chargesToFull.tip', { count: summary.chargesToFull, total: summary.chargeSessions })
+  },
+  {
+    id: 'overnight',
+    priority: 45,
+    when: ({ summary }) => summary.overnightCharges >= 3,
+    recommendation: ({ summary, t }) =>
+      t('local.overnight.recommendation', { count: summary.overnightCharges, days: summary.windowDays }),
+    tip: ({ t }) => t('local.overnight.tip')
+  },
+  {
+    id: 'deep-discharge',
+    priority: 40,
+    when: ({ summary }) => summary.averageDepthOfDischarge !== null && summary.averageDepthOfDischarge >= 70,
+    recommendation: ({ summary, t }) => t('local.deepDischarge.recommendation', { depth: summary.averageDepthOfDischarge }),
+    tip: ({ t }) => t('local.deepDischarge.tip')
+  },
+  {
+    id: 'health',
+    priority: 30,
+    when: ({ stats }) => stats.health.grade === 'Fair' || stats.health.grade === 'Poor',
+    recommendation: ({ stats, t }) => {
+      const factor = stats.health.factors[0];
+      return t('local.health.recommendation', {
+        score: stats.health.score,
+        factor: factor ? t(`health.factor.${factor.id}` as MessageKey).toLowerCase() : t('local.health.defaultFactor')
+      });
+    },
+    tip: ({ stats, t }) => {
+      const factor = stats.health.factors[0];
+      return factor
+        ? t('local.health.tip', { factor: t(`health.factor.${factor.id}` as MessageKey).toLowerCase(), impact: factor.impact })
+        : t('local.general.range');
+    }
+  }
+];
+
+// Average % per hour over the history in the given direction, or null without enough data
+const observedRate = (history: UsageData[], charging: boolean): number | null => {
+  let delta = 0;
+  let duration = 0;
+  for (let i = 1; i < history.length; i++) {
+    const previous = history[i - 1];
+    const current = history[i];
+    if (Boolean(previous.charging) !== charging) continue;
+    const change = current.level - previous.level;
+    if (charging ? change < 0 : change > 0) continue;
+    delta += Math.abs(change);
+    duration += current.timestamp - previous.timestamp;
+  }
+  return duration >= 10 * 60 * 1000 && delta > 0 ? delta / (duration / HOUR_MS) : null;
+};
+
+const describeStatus = ({ stats, t }: RuleInput) => {
+  if (stats.temperature !== null && stats.temperature >= 40) return t('local.status.hot');
+  if (stats.charging) return t(stats.level >= 80 ? 'local.status.nearlyFull' : 'local.status.charging');
+  if (stats.level <= 15) return t('local.status.critical');
+  if (stats.level <= 30) return t('local.status.low');
+  return t('local.status.stable');
+};
+
+const describeRemaining = ({ stats, drainPerHour, chargePerHour, t, formatDuration }: RuleInput) => {
+  if (stats.charging) {
+    return chargePerHour
+      ? t('local.remaining.toFull', { duration: formatDuration(((100 - stats.level) / chargePerHour) * HOUR_MS) })
+      : t('local.remaining.noChargeHistory');
+  }
+  return drainPerHour
+    ? t('local.remaining.left', { duration: formatDuration((stats.level / drainPerHour) * HOUR_MS) })
+    : t('local.remaining.noHistory');
+};
+
+// Deterministic, offline replacement for the model: same inputs always give the same report
+export const getLocalInsights = (
+  stats: BatteryStats,
+  { history = [], sessions = [], smartCharge, habitWindowDays = 7, locale = 'en', now }: InsightContext = {}
+): BatteryInsight => {
+  const i18n = createI18n(locale);
+  const summary = summarizeSessions(sessions, habitWindowDays, now ?? Math.max(Date.now(), history[history.length - 1]?.timestamp ?? 0));
+  const input: RuleInput = {
+    stats,
+    ceiling: smartCharge?.enabled ? smartCharge.ceiling : 80,
+    drainPerHour: observedRate(history, false) ?? summary.averageDischargeRate,
+    chargePerHour: observedRate(history, true) ?? summary.averageChargeRate,
+    summary,
+    t: i18n.t,
+    formatDuration: i18n.formatDuration
+  };
+
+  const fired = RULES.filter(rule => rule.when(input)).sort((a, b) => b.priority - a.priority);
+  const tips = [...fired.map(rule => rule.tip(input)), ...GENERAL_TIPS.map(key => input.t(key))].slice(0, 3);
+
+  return {
+    status: describeStatus(input),
+    recommendation: fired.length
+      ? fired[0].recommendation(input)
+      : input.t('local.normal'),
+    estimatedLifeRemaining: describeRemaining(input),
+    optimizationTips: tips
+  };
+};
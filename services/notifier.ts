@@ -0,0 +1,28 @@
+
+import { BatteryAlert } from '../types';
+
+export const isNotificationSupported = (): boolean =>
+  'Notification' in window && 'serviceWorker' in navigator;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!isNotificationSupported()) return 'denied';
+  return Notification.requestPermission();
+};
+
+// Notification actions are supported by service worker notifications but missing from lib.dom
+type ActionNotificationOptions = NotificationOptions & { actions?: Array<{ action: string; title: string }> };
+
+// Delivered through the service worker so notifications work on mobile and
+// support action buttons (handled in sw.js)
+export const showSystemNotification = async (alert: BatteryAlert, snoozeLabel: string): Promise<void> => {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') return;
+  const registration = await navigator.serviceWorker.ready;
+  const options: ActionNotificationOptions = {
+    body: alert.message,
+    tag: `batterycore-${alert.rule}`,
+    icon: 'https://cdn-icons-png.flaticon.com/512/3103/3103463.png',
+    data: { rule: alert.rule },
+    actions: [{ action: 'snooze', title: snoozeLabel }]
+  };
+  await registration.showNotification(alert.title, options);
+};
@@ -0,0 +1,94 @@
+
+import { InsightProvider, ReplayableRequest } from '../types';
+import { INSIGHT_JSON_SCHEMA, readPath } from './insightSchema';
+import { InsightProviderError } from './insightError';
+
+// Model text from a chat completions response body
+export const readChatCompletion = (body: unknown): string => {
+  const content = readPath(body, ['choices', 0, 'message', 'content']);
+  return typeof content === 'string' ? content : '';
+};
+
+const errorMessage = (body: unknown, status: number): string => {
+  const message = readPath(body, ['error', 'message']);
+  return typeof message === 'string' ? message : `HTTP ${status}`;
+};
+
+// Text deltas from a streamed chat completions body (server-sent events)
+export async function* readChatCompletionStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data) continue;
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data) as { choices?: Array<{ delta?: { content?: string | null } }> };
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
+
+// Works with any server implementing the OpenAI chat completions API
+// (OpenAI itself, vLLM, llama.cpp, Ollama, LM Studio, ...)
+export const createOpenAiProvider = (baseUrl: string | undefined, model: string, apiKey?: string): InsightProvider => {
+  const url = `${(baseUrl ?? '').replace(/\/$/, '')}/chat/completions`;
+  const credentialHeaders = (): Record<string, string> => apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  const headers = { 'Content-Type': 'application/json', ...credentialHeaders() };
+
+  const toReplayableRequest = (prompt: string): ReplayableRequest => ({
+    url,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: `Reply with a single JSON object matching this JSON Schema and nothing else: ${JSON.stringify(INSIGHT_JSON_SCHEMA)}`
+        },
+        { role: 'user', content: prompt }
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0.2
+    })
+  });
+
+  return {
+    kind: 'openai',
+    label: `${model} @ ${baseUrl ?? 'unset'}`,
+    isConfigured: () => Boolean(baseUrl && model),
+    toReplayableRequest,
+    credentialHeaders,
+
+    async complete(prompt, signal) {
+      const { url, ...init } = toReplayableRequest(prompt);
+      const response = await fetch(url, { ...init, headers, signal });
+
+      const body: unknown = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new InsightProviderError('provider', errorMessage(body, response.status));
+      }
+      return readChatCompletion(body);
+    },
+
+    async *chat(system, turns, signal) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model, messages: [{ role: 'system', content: system }, ...turns], stream: true, temperature: 0.4 }),
+        signal
+      });
+      if (!response.ok || !response.body) {
+        throw new InsightProviderError('provider', errorMessage(await response.json().catch(() => ({})), response.status));
+      }
+      yield* readChatCompletionStream(response.body);
+    }
+  };
+};
@@ -0,0 +1,153 @@
+
+import { BatterySession, BatteryStats, UsageData } from '../types';
+import { summarizeSessions } from './sessionTracker';
+
+const HOUR_MS = 60 * 60 * 1000;
+const TREND_WINDOW_MS = 30 * 60 * 1000;
+const MIN_TREND_SPAN_MS = 5 * 60 * 1000;
+const MIN_TREND_POINTS = 4;
+const TAPER_START = 80;   // Charging typically slows down above this level
+const TAPER_FACTOR = 0.5; // ... to roughly half the bulk rate
+const BROWSER_MARGIN = 0.1;
+
+export interface BatteryPrediction {
+  direction: 'empty' | 'full';
+  etaMs: number;
+  lowMs: number;  // Optimistic/pessimistic bounds of the estimate
+  highMs: number;
+  ratePerHour: number;
+  basis: 'trend' | 'sessions' | 'trend+sessions' | 'browser';
+}
+
+interface Trend {
+  ratePerHour: number;
+  stdErrPerHour: number;
+  spanMs: number;
+}
+
+// Least-squares slope of level over time for the trailing run of samples that
+// share the current charging state
+const fitTrend = (history: UsageData[], charging: boolean, now: number): Trend | null => {
+  const run: UsageData[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const point = history[i];
+    if (Boolean(point.charging) !== charging || point.timestamp < now - TREND_WINDOW_MS) break;
+    run.unshift(point);
+  }
+  if (run.length < MIN_TREND_POINTS) return null;
+
+  const spanMs = run[run.length - 1].timestamp - run[0].timestamp;
+  if (spanMs < MIN_TREND_SPAN_MS) return null;
+
+  const xs = run.map(point => (point.timestamp - run[0].timestamp) / HOUR_MS);
+  const ys = run.map(point => point.level);
+  const n = run.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+
+  const slope = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / sxx;
+  const residual = ys.reduce((sum, y, i) => sum + (y - (meanY + slope * (xs[i] - meanX))) ** 2, 0);
+  const stdErr = n > 2 ? Math.sqrt(residual / (n - 2) / sxx) : 0;
+
+  // A trend pointing the wrong way (e.g. rising while discharging) is noise
+  const rate = charging ? slope : -slope;
+  if (rate <= 0) return null;
+
+  return { ratePerHour: rate, stdErrPerHour: stdErr, spanMs };
+};
+
+// Hours to reach the end state at a given bulk rate, accounting for taper when charging
+const hoursToTarget = (level: number, charging: boolean, ratePerHour: number) => {
+  if (!charging) return level / ratePerHour;
+  const bulk = Math.max(0, TAPER_START - level) / ratePerHour;
+  const taper = (100 - Math.max(level, TAPER_START)) / (ratePerHour * TAPER_FACTOR);
+  return bulk + taper;
+};
+
+export const predictBattery = (
+  stats: BatteryStats,
+  history: UsageData[],
+  sessions: BatterySession[],
+  now: number
+): BatteryPrediction | null => {
+  const charging = stats.charging;
+  const direction = charging ? 'full' : 'empty';
+  if ((charging && stats.level >= 100) || (!charging && stats.level <= 0)) return null;
+
+  const trend = fitTrend(history, charging, now);
+  // Windowed on the source's clock, which runs ahead of the wall clock for accelerated simulations
+  const summary = summarizeSessions(sessions, 7, now);
+  const typical = charging ? summary.averageChargeRate : summary.averageDischargeRate;
+
+  let rate: number;
+  let spread: number;
+  let basis: BatteryPrediction['basis'];
+
+  if (trend && typical) {
+    // Trust the live trend more the longer it has been observed
+    const weight = Math.min(1, trend.spanMs / TREND_WINDOW_MS);
+    rate = weight * trend.ratePerHour + (1 - weight) * typical;
+    spread = Math.max(2 * trend.stdErrPerHour * weight, Math.abs(trend.ratePerHour - typical) / 2);
+    basis = 'trend+sessions';
+  } else if (trend) {
+    rate = trend.ratePerHour;
+    spread = 2 * trend.stdErrPerHour;
+    basis = 'trend';
+  } else if (typical) {
+    rate = typical;
+    spread = typical * 0.25;
+    basis = 'sessions';
+  } else {
+    const browserSeconds = charging ? stats.chargingTime : stats.dischargingTime;
+    if (!Number.isFinite(browserSeconds) || browserSeconds <= 0) return null;
+    const etaMs = browserSeconds * 1000;
+    return {
+      direction,
+      etaMs,
+      lowMs: etaMs * (1 - BROWSER_MARGIN),
+      highMs: etaMs * (1 + BROWSER_MARGIN),
+      ratePerHour: (charging ? 100 - stats.level : stats.level) / (etaMs / HOUR_MS),
+      basis: 'browser'
+    };
+  }
+
+  const fastest = rate + spread;
+  const slowest = Math.max(rate - spread, rate * 0.25);
+
+  return {
+    direction,
+    etaMs: hoursToTarget(stats.level, charging, rate) * HOUR_MS,
+    lowMs: hoursToTarget(stats.level, charging, fastest) * HOUR_MS,
+    highMs: hoursToTarget(stats.level, charging, slowest) * HOUR_MS,
+    ratePerHour: parseFloat(rate.toFixed(1)),
+    basis
+  };
+};
+
+// Points for the dashed projection on the history chart, up to `horizonMs` ahead
+export const projectLevels = (
+  stats: BatteryStats,
+  prediction: BatteryPrediction,
+  now: number,
+  horizonMs: number,
+  steps = 12
+): Array<{ timestamp: number; projected: number }> => {
+  const endMs = Math.min(prediction.etaMs, horizonMs);
+  const points = [];
+  for (let i = 0; i <= steps; i++) {
+    const elapsedHours = (endMs * i) / steps / HOUR_MS;
+    let level: number;
+    if (stats.charging) {
+      const bulkHours = Math.max(0, TAPER_START - stats.level) / prediction.ratePerHour;
+      level = elapsedHours <= bulkHours
+        ? stats.level + prediction.ratePerHour * elapsedHours
+        : Math.max(stats.level, TAPER_START) + prediction.ratePerHour * TAPER_FACTOR * (elapsedHours - bulkHours);
+    } else {
+      level = stats.level - prediction.ratePerHour * elapsedHours;
+    }
+    points.push({ timestamp: now + (endMs * i) / steps, projected: Math.round(Math.min(100, Math.max(0, level))) });
+  }
+  return points;
+};
@@ -0,0 +1,12 @@
+
+// Small seedable PRNG (mulberry32) so simulated runs are reproducible
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,71 @@
+
+import { FleetDevice, FleetReport, RelayConfig, UsageData } from '../types';
+
+const STORAGE_KEY = 'batterycore.relay';
+const REQUEST_TIMEOUT_MS = 10000;
+
+export const DEFAULT_RELAY_CONFIG: RelayConfig = {
+  url: 'http://localhost:8787',
+  deviceName: '',
+  deviceId: null,
+  token: null
+};
+
+export class RelayError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'RelayError';
+  }
+}
+
+export const isPaired = (config: RelayConfig): boolean => Boolean(config.deviceId && config.token);
+
+export const loadRelayConfig = (): RelayConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_RELAY_CONFIG, ...JSON.parse(stored) } : DEFAULT_RELAY_CONFIG;
+  } catch {
+    return DEFAULT_RELAY_CONFIG;
+  }
+};
+
+export const saveRelayConfig = (config: RelayConfig) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+
+const request = async <T>(config: RelayConfig, path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${config.url.replace(/\/$/, '')}${path}`, {
+    ...init,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.token ? { Authorization: `Bearer ${config.token}` } : {})
+    }
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new RelayError(response.status, body.error ?? `HTTP ${response.status}`);
+  }
+  return response.status === 204 ? undefined as T : response.json();
+};
+
+// Registers this instance with the relay and returns the config with its credentials
+export const pairDevice = async (config: RelayConfig, pairingCode: string): Promise<RelayConfig> => {
+  const { deviceId, token } = await request<{ deviceId: string; token: string }>(
+    { ...config, token: null },
+    '/api/pair',
+    { method: 'POST', body: JSON.stringify({ name: config.deviceName, pairingCode }) }
+  );
+  return { ...config, deviceId, token };
+};
+
+export const unpairDevice = (config: RelayConfig): Promise<void> =>
+  request(config, `/api/devices/${config.deviceId}`, { method: 'DELETE' });
+
+export const pushReport = (config: RelayConfig, report: FleetReport): Promise<void> =>
+  request(config, `/api/devices/${config.deviceId}/reports`, { method: 'POST', body: JSON.stringify(report) });
+
+export const fetchFleet = (config: RelayConfig): Promise<FleetDevice[]> =>
+  request(config, '/api/devices');
+
+export const fetchDeviceHistory = (config: RelayConfig, deviceId: string, from: number): Promise<UsageData[]> =>
+  request(config, `/api/devices/${deviceId}/history?from=${from}`);
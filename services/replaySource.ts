@@ -0,0 +1,60 @@
+
+import { BatterySample, BatterySource, RecordedSession } from '../types';
+
+const MAX_GAP_MS = 10000; // Long pauses in a recording are compressed to this
+
+export const parseRecordedSession = (text: string): RecordedSession => {
+  const data = JSON.parse(text);
+  const samples: unknown = Array.isArray(data) ? data : data?.samples;
+  if (!Array.isArray(samples) || samples.length === 0) {
+    throw new Error('Recording contains no samples');
+  }
+
+  const valid = samples.every((sample): sample is BatterySample =>
+    typeof sample?.timestamp === 'number' &&
+    typeof sample?.level === 'number' &&
+    typeof sample?.charging === 'boolean'
+  );
+  if (!valid) throw new Error('Recording contains malformed samples');
+
+  return {
+    version: 1,
+    name: typeof data?.name === 'string' ? data.name : undefined,
+    samples: [...samples].sort((a, b) => a.timestamp - b.timestamp)
+  };
+};
+
+// Plays a recorded session back with its original pacing, scaled by `speed`
+export const createReplaySource = (session: RecordedSession, speed = 1): BatterySource => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  return {
+    kind: 'replay',
+    describe: t => session.name ? t('source.label.replayNamed', { name: session.name }) : t('source.label.replay'),
+
+    start(onReading) {
+      const play = (index: number) => {
+        const sample = session.samples[index];
+        onReading({
+          level: sample.level,
+          charging: sample.charging,
+          chargingTime: Infinity,
+          dischargingTime: Infinity,
+          temperature: sample.temperature ?? null,
+          voltage: sample.voltage ?? null
+        });
+
+        const next = session.samples[index + 1];
+        if (!next) return;
+        const gap = Math.min(next.timestamp - sample.timestamp, MAX_GAP_MS) / speed;
+        timer = setTimeout(() => play(index + 1), gap);
+      };
+      play(0);
+    },
+
+    stop() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    }
+  };
+};
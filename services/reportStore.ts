@@ -0,0 +1,40 @@
+
+import { BatteryStats, InsightReport, Locale } from '../types';
+import { STORES, openDatabase, requestToPromise, transactionDone } from './database';
+
+export const CACHE_WINDOW_MS = 10 * 60 * 1000;
+
+export const saveReport = async (report: InsightReport): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.reports, 'readwrite');
+  tx.objectStore(STORES.reports).put(report);
+  await transactionDone(tx);
+};
+
+// Most recent reports first
+export const queryReports = async (limit = 50): Promise<InsightReport[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.reports, 'readonly').objectStore(STORES.reports);
+  const reports = await requestToPromise(store.getAll() as IDBRequest<InsightReport[]>);
+  return reports.reverse().slice(0, limit);
+};
+
+// Fields that, when unchanged, would produce the same prompt
+const fingerprint = (stats: BatteryStats) =>
+  JSON.stringify([stats.level, stats.charging, stats.temperature, stats.voltage, stats.health.grade, stats.health.score]);
+
+// A model report generated from identical stats within the cache window, if any
+export const findCachedReport = (
+  reports: InsightReport[],
+  stats: BatteryStats,
+  locale: Locale = 'en',
+  now = Date.now()
+): InsightReport | null => {
+  const key = fingerprint(stats);
+  return reports.find(report =>
+    report.origin === 'ai' &&
+    (report.locale ?? 'en') === locale &&
+    now - report.createdAt <= CACHE_WINDOW_MS &&
+    fingerprint(report.stats) === key
+  ) ?? null;
+};
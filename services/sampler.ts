@@ -0,0 +1,154 @@
+
+import { BatteryReading, BatterySample, BatterySource, UsageData } from '../types';
+import { Clock, systemClock } from './clock';
+import { recentDrainRate } from './alertEngine';
+
+const IDLE_WINDOW_MS = 5 * 60 * 1000;
+const MIN_INTERVAL_MS = 1000;
+const FAST_DRAIN_PER_HOUR = 20;
+
+export interface SamplerSnapshot {
+  reading: BatteryReading | null; // Latest reading from the source; null until the first one arrives
+  history: UsageData[];           // Samples inside the window, oldest first
+  intervalMs: number;             // Interval currently in effect after adaptation
+}
+
+export interface SamplerOptions {
+  source: BatterySource;
+  baseIntervalMs: number;
+  windowMs: number;
+  persist?: (sample: BatterySample) => Promise<void>;
+}
+
+export interface Sampler {
+  readonly source: BatterySource;
+  readonly clock: Clock;
+  getSnapshot(): SamplerSnapshot;
+  // Listeners are called after every reading or sample. The source is started with
+  // the first listener and stopped when the last one unsubscribes.
+  subscribe(listener: () => void): () => void;
+  setBaseInterval(ms: number): void;
+  // Merges older points (e.g. read back from IndexedDB) into the in-memory window
+  seedHistory(points: UsageData[]): void;
+}
+
+interface ActivityInput {
+  charging: boolean;
+  drainPerHour: number | null;
+  idle: boolean;
+  hidden: boolean;
+}
+
+// Sample twice as often while the level is moving quickly, and back off while
+// nothing changes or nobody is looking
+export const adaptiveInterval = (baseMs: number, { charging, drainPerHour, idle, hidden }: ActivityInput): number => {
+  if (hidden) return baseMs * 6;
+  if (charging || (drainPerHour !== null && drainPerHour >= FAST_DRAIN_PER_HOUR)) return Math.max(MIN_INTERVAL_MS, baseMs / 2);
+  if (idle) return baseMs * 2;
+  return baseMs;
+};
+
+const isIdle = (history: UsageData[], now: number): boolean => {
+  const recent = history.filter(point => point.timestamp >= now - IDLE_WINDOW_MS);
+  return recent.length > 1 &&
+    recent[0].timestamp <= now - IDLE_WINDOW_MS / 2 &&
+    recent.every(point => point.level === recent[0].level && !point.charging);
+};
+
+const hasDocument = typeof document !== 'undefined'; // Absent in headless runs
+const isDocumentHidden = () => hasDocument && document.visibilityState === 'hidden';
+
+// Owns the single subscription to a battery source and the sampling timer, so
+// neither is torn down when React re-renders
+export const createSampler = ({ source, baseIntervalMs, windowMs, persist }: SamplerOptions): Sampler => {
+  const clock = source.clock ?? systemClock;
+  const listeners = new Set<() => void>();
+  let baseMs = baseIntervalMs;
+  let snapshot: SamplerSnapshot = { reading: null, history: [], intervalMs: baseMs };
+  let cancelTimer: (() => void) | null = null;
+
+  const publish = (changes: Partial<SamplerSnapshot>) => {
+    snapshot = { ...snapshot, ...changes };
+    listeners.forEach(listener => listener());
+  };
+
+  const schedule = (intervalMs: number) => {
+    cancelTimer?.();
+    cancelTimer = clock.every(intervalMs, takeSample);
+    if (intervalMs !== snapshot.intervalMs) publish({ intervalMs });
+  };
+
+  const nextInterval = () => {
+    const now = clock.now();
+    return adaptiveInterval(baseMs, {
+      charging: snapshot.reading?.charging ?? false,
+      drainPerHour: recentDrainRate(snapshot.history, now),
+      idle: isIdle(snapshot.history, now),
+      hidden: isDocumentHidden()
+    });
+  };
+
+  function takeSample() {
+    const { reading } = snapshot;
+    if (!reading) return;
+    const { level, charging, temperature, voltage } = reading;
+    const sample: BatterySample = {
+      timestamp: clock.now(), level, charging, temperature, voltage, visible: !isDocumentHidden(), source: source.kind
+    };
+
+    persist?.(sample).catch(err => console.warn('Failed to persist battery sample:', err));
+    publish({
+      history: [...snapshot.history, sample].filter(point => point.timestamp >= sample.timestamp - windowMs)
+    });
+
+    const intervalMs = nextInterval();
+    if (intervalMs !== snapshot.intervalMs) schedule(intervalMs);
+  }
+
+  const handleVisibilityChange = () => schedule(nextInterval());
+
+  const start = () => {
+    source.start(reading => publish({ reading }));
+    schedule(nextInterval());
+    if (hasDocument) document.addEventListener('visibilitychange', handleVisibilityChange);
+  };
+
+  const stop = () => {
+    cancelTimer?.();
+    cancelTimer = null;
+    source.stop();
+    if (hasDocument) document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+
+  return {
+    source,
+    clock,
+    getSnapshot: () => snapshot,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      if (listeners.size === 1) start();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) stop();
+      };
+    },
+
+    setBaseInterval(ms) {
+      if (ms === baseMs) return;
+      baseMs = ms;
+      if (cancelTimer) schedule(nextInterval());
+    },
+
+    seedHistory(points) {
+      const byTimestamp = new Map<number, UsageData>();
+      [...points, ...snapshot.history].forEach(point => byTimestamp.set(point.timestamp, point));
+      const latest = Math.max(clock.now(), ...byTimestamp.keys());
+      publish({
+        history: [...byTimestamp.values()]
+          .filter(point => point.timestamp >= latest - windowMs)
+          .sort((a, b) => a.timestamp - b.timestamp)
+      });
+    }
+  };
+};
@@ -0,0 +1,62 @@
+
+import { SimulationScenario } from '../types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const SCENARIOS: SimulationScenario[] = [
+  {
+    id: 'steady-discharge',
+    initialLevel: 100,
+    initialTemperature: 31,
+    loop: false,
+    phases: [
+      { id: 'lightUse', durationMs: 10 * HOUR, charging: false, ratePerHour: 12, temperature: 32 }
+    ]
+  },
+  {
+    id: 'fast-charge',
+    initialLevel: 15,
+    initialTemperature: 30,
+    loop: false,
+    phases: [
+      { id: 'fastCharge', durationMs: 2 * HOUR, charging: true, ratePerHour: 90, taperAbove: 80, temperature: 38 }
+    ]
+  },
+  {
+    id: 'overheating',
+    initialLevel: 85,
+    initialTemperature: 32,
+    loop: false,
+    phases: [
+      { id: 'normalUse', durationMs: 30 * MINUTE, charging: false, ratePerHour: 15, temperature: 33 },
+      { id: 'heavyLoad', durationMs: 40 * MINUTE, charging: false, ratePerHour: 45, temperature: 48 },
+      { id: 'coolDown', durationMs: 2 * HOUR, charging: false, ratePerHour: 10, temperature: 31 }
+    ]
+  },
+  {
+    id: 'sudden-drop',
+    initialLevel: 70,
+    initialTemperature: 31,
+    loop: false,
+    phases: [
+      { id: 'normalUse', durationMs: 30 * MINUTE, charging: false, ratePerHour: 12, temperature: 32 },
+      { id: 'gaugeDrop', durationMs: 3 * HOUR, charging: false, ratePerHour: 12, temperature: 32, levelJump: -25 }
+    ]
+  },
+  {
+    id: 'plug-cycles',
+    initialLevel: 60,
+    initialTemperature: 31,
+    loop: true,
+    phases: [
+      { id: 'unplugged', durationMs: 45 * MINUTE, charging: false, ratePerHour: 20, temperature: 32 },
+      { id: 'topUp', durationMs: 20 * MINUTE, charging: true, ratePerHour: 60, taperAbove: 80, temperature: 36 }
+    ]
+  }
+];
+
+export const DEFAULT_SCENARIO = SCENARIOS[0];
+
+export const findScenario = (id: string): SimulationScenario =>
+  SCENARIOS.find(scenario => scenario.id === id) ?? DEFAULT_SCENARIO;
@@ -0,0 +1,33 @@
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000; // Dashboards stay open for days without navigating
+
+export const isServiceWorkerSupported = (): boolean => 'serviceWorker' in navigator;
+
+// Registers sw.js and reports each new version once it is installed and waiting
+// to take over. Returns a function that stops the periodic update checks.
+export const registerServiceWorker = (onUpdateReady: (worker: ServiceWorker) => void): (() => void) => {
+  if (!isServiceWorkerSupported()) return () => {};
+
+  // With no controller this is the first install, not an update
+  const notifyWhenInstalled = (worker: ServiceWorker) => worker.addEventListener('statechange', () => {
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) onUpdateReady(worker);
+  });
+
+  let updateInterval: ReturnType<typeof setInterval> | null = null;
+  navigator.serviceWorker.register('/sw.js')
+    .then(registration => {
+      if (registration.waiting && navigator.serviceWorker.controller) onUpdateReady(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        if (registration.installing) notifyWhenInstalled(registration.installing);
+      });
+      updateInterval = setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_MS);
+    })
+    .catch(err => console.warn('Service worker registration failed:', err));
+
+  return () => {
+    if (updateInterval) clearInterval(updateInterval);
+  };
+};
+
+// Tells the waiting worker to activate; the page reloads on the controller change
+export const activateUpdate = (worker: ServiceWorker) => worker.postMessage({ type: 'skip-waiting' });
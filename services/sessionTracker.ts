@@ -0,0 +1,118 @@
+
+import { BatterySession, SessionSummary, UsageData } from '../types';
+import { STORES, getAllInRange, openDatabase, requestToPromise, transactionDone } from './database';
+import { DAY_MS, DEFAULT_RETENTION, HOUR_MS, querySamples } from './historyStore';
+
+const MAX_GAP_MS = 30 * 60 * 1000;    // A longer gap (app closed) ends the session
+const MIN_DURATION_MS = 2 * 60 * 1000;
+const MIN_DEPTH = 1;                  // % points; shorter blips are noise
+
+const toSession = (points: UsageData[], ongoing: boolean): BatterySession | null => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  const durationMs = last.timestamp - first.timestamp;
+  const depth = Math.abs(last.level - first.level);
+  if (durationMs < MIN_DURATION_MS || depth < MIN_DEPTH) return null;
+
+  return {
+    kind: first.charging ? 'charge' : 'discharge',
+    start: first.timestamp,
+    end: last.timestamp,
+    startLevel: first.level,
+    endLevel: last.level,
+    durationMs,
+    ratePerHour: parseFloat((depth / (durationMs / HOUR_MS)).toFixed(1)),
+    depth,
+    ongoing
+  };
+};
+
+// Splits a sample stream into charge and discharge sessions. A session ends when
+// the charging state flips or when the stream has a gap.
+export const detectSessions = (history: UsageData[]): BatterySession[] => {
+  const sessions: BatterySession[] = [];
+  let run: UsageData[] = [];
+
+  const flush = (ongoing: boolean) => {
+    if (run.length > 1) {
+      const session = toSession(run, ongoing);
+      if (session) sessions.push(session);
+    }
+    run = [];
+  };
+
+  for (const point of history) {
+    const previous = run[run.length - 1];
+    if (previous && (Boolean(previous.charging) !== Boolean(point.charging) || point.timestamp - previous.timestamp > MAX_GAP_MS)) {
+      flush(false);
+    }
+    run.push(point);
+  }
+  flush(true);
+
+  return sessions;
+};
+
+export const countEquivalentCycles = (sessions: BatterySession[]): number =>
+  parseFloat((sessions
+    .filter(session => session.kind === 'discharge')
+    .reduce((sum, session) => sum + session.depth, 0) / 100).toFixed(2));
+
+export const querySessions = (from: number, to = Date.now()): Promise<BatterySession[]> =>
+  getAllInRange<BatterySession>(STORES.sessions, from, to);
+
+// Re-detects sessions from raw samples since the last stored session and upserts
+// them. Must run before compaction so sessions are captured while raw data exists.
+export const syncSessions = async (now = Date.now()): Promise<void> => {
+  const db = await openDatabase();
+  const latest = await requestToPromise(
+    db.transaction(STORES.sessions, 'readonly').objectStore(STORES.sessions).openCursor(null, 'prev')
+  );
+  const last = latest?.value as BatterySession | undefined;
+
+  const from = last ? last.start : now - DEFAULT_RETENTION.rawMs;
+  const detected = detectSessions(await querySamples({ from, to: now }));
+  if (detected.length === 0) return;
+
+  // Raw samples at the start of a long session may already have been compacted
+  if (last && detected[0].kind === last.kind && detected[0].start > last.start) {
+    const merged = { ...detected[0], start: last.start, startLevel: last.startLevel };
+    merged.durationMs = merged.end - merged.start;
+    merged.depth = Math.abs(merged.endLevel - merged.startLevel);
+    merged.ratePerHour = parseFloat((merged.depth / (merged.durationMs / HOUR_MS)).toFixed(1));
+    detected[0] = merged;
+  }
+
+  const tx = db.transaction(STORES.sessions, 'readwrite');
+  const store = tx.objectStore(STORES.sessions);
+  detected.forEach(session => store.put(session));
+  await transactionDone(tx);
+};
+
+const isOvernight = (session: BatterySession) => {
+  const hour = new Date(session.start).getHours();
+  return (hour >= 21 || hour < 5) && session.durationMs >= 3 * HOUR_MS;
+};
+
+const average = (values: number[]) =>
+  values.length ? parseFloat((values.reduce((sum, v) => sum + v, 0) / values.length).toFixed(1)) : null;
+
+// Habit summary over the most recent `windowDays`, for prompts and the sessions panel
+export const summarizeSessions = (sessions: BatterySession[], windowDays = 7, now = Date.now()): SessionSummary => {
+  const recent = sessions.filter(session => session.end >= now - windowDays * DAY_MS);
+  const charges = recent.filter(session => session.kind === 'charge');
+  const discharges = recent.filter(session => session.kind === 'discharge');
+
+  return {
+    windowDays,
+    chargeSessions: charges.length,
+    dischargeSessions: discharges.length,
+    equivalentCycles: countEquivalentCycles(recent),
+    averageChargeEndLevel: average(charges.map(session => session.endLevel)),
+    chargesToFull: charges.filter(session => session.endLevel >= 95).length,
+    overnightCharges: charges.filter(isOvernight).length,
+    averageDepthOfDischarge: average(discharges.map(session => session.depth)),
+    averageDischargeRate: average(discharges.map(session => session.ratePerHour)),
+    averageChargeRate: average(charges.map(session => session.ratePerHour))
+  };
+};
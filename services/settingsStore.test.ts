@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_ENERGY, DEFAULT_SETTINGS, SETTINGS_VERSION, loadSettings } from './settingsStore';
+
+const STORAGE_KEY = 'batterycore.settings';
+
+let stored: Record<string, string>;
+
+const store = (value: unknown) => { stored[STORAGE_KEY] = JSON.stringify(value); };
+
+beforeEach(() => {
+  stored = {};
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored[key] ?? null,
+    setItem: (key: string, value: string) => { stored[key] = value; }
+  });
+  vi.stubGlobal('navigator', { languages: ['pt-BR'], language: 'pt-BR' });
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('settings migrations', () => {
+  it('upgrades an unversioned object through every step', () => {
+    store({ sampleIntervalMs: 10000, autoAnalyze: false, gaugeThresholds: { low: 15, high: 70 } });
+
+    expect(loadSettings()).toMatchObject({
+      version: SETTINGS_VERSION,
+      sampleIntervalMs: 10000,
+      autoAnalyze: false,
+      gaugeThresholds: { low: 15, high: 70 },
+      locale: 'pt-BR',
+      energy: DEFAULT_ENERGY
+    });
+  });
+
+  it('keeps the language chosen in v2 and adds the energy defaults', () => {
+    store({ version: 2, sampleIntervalMs: 1000, locale: 'en' });
+
+    expect(loadSettings()).toMatchObject({ version: SETTINGS_VERSION, sampleIntervalMs: 1000, locale: 'en', energy: DEFAULT_ENERGY });
+  });
+
+  it('leaves current settings alone apart from range checks', () => {
+    store({ ...DEFAULT_SETTINGS, locale: 'en', habitWindowDays: 30, insightDelta: 500 });
+
+    expect(loadSettings()).toEqual({ ...DEFAULT_SETTINGS, locale: 'en', habitWindowDays: 30, insightDelta: 50 });
+  });
+
+  it('falls back to the defaults for unreadable settings', () => {
+    stored[STORAGE_KEY] = '{ not json';
+    expect(loadSettings()).toBe(DEFAULT_SETTINGS);
+
+    store(['not', 'an', 'object']);
+    expect(loadSettings()).toBe(DEFAULT_SETTINGS);
+  });
+});
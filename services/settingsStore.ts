@@ -0,0 +1,112 @@
+
+import { AppSettings, EnergyConfig, HabitWindowDays } from '../types';
+import { detectLocale, isLocale } from './i18n';
+
+const STORAGE_KEY = 'batterycore.settings';
+export const SETTINGS_VERSION = 3;
+
+export const SAMPLE_INTERVAL_OPTIONS = [1000, 5000, 10000, 30000, 60000];
+export const HABIT_WINDOW_OPTIONS: HabitWindowDays[] = [7, 30];
+
+export const DEFAULT_ENERGY: EnergyConfig = {
+  designCapacityMWh: null,
+  nominalVoltage: 3.85,
+  chargerEfficiency: 0.85,
+  tariffPerKWh: null,
+  currency: 'USD',
+  gridIntensity: null
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  version: SETTINGS_VERSION,
+  sampleIntervalMs: 5000,
+  autoAnalyze: true,
+  insightDelta: 5,
+  gaugeThresholds: { low: 20, high: 60 },
+  temperatureUnit: 'celsius',
+  locale: detectLocale(),
+  insightModel: '',
+  habitWindowDays: 7,
+  energy: DEFAULT_ENERGY
+};
+
+// MIGRATIONS[n] upgrades a stored object from version n to n + 1. Add a step
+// here (and bump SETTINGS_VERSION) whenever a field is renamed or reshaped.
+type StoredSettings = Record<string, unknown>;
+
+const MIGRATIONS: Record<number, (stored: StoredSettings) => StoredSettings> = {
+  // Unversioned objects predate the version field but already use the v1 shape
+  0: stored => ({ ...stored, version: 1 }),
+  // v2 added the interface language; existing users start from the browser's
+  1: stored => ({ ...stored, locale: detectLocale(), version: 2 }),
+  2: stored => ({ ...stored, energy: DEFAULT_ENERGY, version: 3 })
+};
+
+const isStoredSettings = (value: unknown): value is StoredSettings =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const migrate = (stored: unknown): StoredSettings => {
+  if (!isStoredSettings(stored)) throw new Error('Stored settings are not an object');
+  let current = stored;
+  for (let version = typeof current.version === 'number' ? current.version : 0; version < SETTINGS_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No settings migration from version ${version}`);
+    current = step(current);
+  }
+  return current;
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+// Like clamp, but keeps decimals and treats anything missing or non-positive as "not entered"
+const optionalPositive = (value: unknown, max: number): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.min(max, value) : null;
+
+const sanitizeEnergy = (energy: Partial<EnergyConfig> = {}): EnergyConfig => ({
+  designCapacityMWh: optionalPositive(energy.designCapacityMWh, 1000000),
+  nominalVoltage: optionalPositive(energy.nominalVoltage, 60) ?? DEFAULT_ENERGY.nominalVoltage,
+  chargerEfficiency: clamp(typeof energy.chargerEfficiency === 'number' ? energy.chargerEfficiency * 100 : undefined, 50, 100,
+    DEFAULT_ENERGY.chargerEfficiency * 100) / 100,
+  tariffPerKWh: optionalPositive(energy.tariffPerKWh, 1000),
+  currency: typeof energy.currency === 'string' && /^[A-Z]{3}$/.test(energy.currency) ? energy.currency : DEFAULT_ENERGY.currency,
+  gridIntensity: optionalPositive(energy.gridIntensity, 2000)
+});
+
+// Fills missing fields and pulls out-of-range values back into range
+export const sanitizeSettings = (settings: Partial<AppSettings>): AppSettings => {
+  const low = clamp(settings.gaugeThresholds?.low, 5, 50, DEFAULT_SETTINGS.gaugeThresholds.low);
+  return {
+    version: SETTINGS_VERSION,
+    sampleIntervalMs: SAMPLE_INTERVAL_OPTIONS.includes(settings.sampleIntervalMs as number)
+      ? settings.sampleIntervalMs as number
+      : DEFAULT_SETTINGS.sampleIntervalMs,
+    autoAnalyze: typeof settings.autoAnalyze === 'boolean' ? settings.autoAnalyze : DEFAULT_SETTINGS.autoAnalyze,
+    insightDelta: clamp(settings.insightDelta, 1, 50, DEFAULT_SETTINGS.insightDelta),
+    gaugeThresholds: {
+      low,
+      high: Math.max(low + 5, clamp(settings.gaugeThresholds?.high, 10, 95, DEFAULT_SETTINGS.gaugeThresholds.high))
+    },
+    temperatureUnit: settings.temperatureUnit === 'fahrenheit' ? 'fahrenheit' : 'celsius',
+    locale: isLocale(settings.locale) ? settings.locale : DEFAULT_SETTINGS.locale,
+    insightModel: typeof settings.insightModel === 'string' ? settings.insightModel.trim() : '',
+    habitWindowDays: HABIT_WINDOW_OPTIONS.includes(settings.habitWindowDays as HabitWindowDays)
+      ? settings.habitWindowDays as HabitWindowDays
+      : DEFAULT_SETTINGS.habitWindowDays,
+    energy: sanitizeEnergy(isStoredSettings(settings.energy) ? settings.energy : undefined)
+  };
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    // Every field is checked again by sanitizeSettings, whatever the stored object held
+    return stored ? sanitizeSettings(migrate(JSON.parse(stored)) as Partial<AppSettings>) : DEFAULT_SETTINGS;
+  } catch (err) {
+    console.warn('Ignoring unreadable settings:', err);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { BatteryStats, UsageData } from '../types';
+import { createVirtualClock } from './clock';
+import { UNKNOWN_HEALTH } from './healthModel';
+import { predictBattery } from './predictor';
+import { createSampler } from './sampler';
+import { findScenario } from './scenarios';
+import { createSimulatedSource, runScenario } from './simulatedSource';
+import { detectSessions } from './sessionTracker';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const START = Date.UTC(2025, 0, 6, 9);
+
+// Runs a scenario headlessly through the real sampler, advancing a virtual clock
+const sampleScenario = (scenarioId: string, durationMs: number, baseIntervalMs = 30 * 1000) => {
+  const clock = createVirtualClock(START);
+  const source = createSimulatedSource({ scenario: findScenario(scenarioId), seed: 7 }, clock);
+  const sampler = createSampler({ source, baseIntervalMs, windowMs: durationMs });
+  const unsubscribe = sampler.subscribe(() => undefined);
+  clock.advance(durationMs);
+  const { reading, history } = sampler.getSnapshot();
+  unsubscribe();
+  return { clock, reading: reading!, history };
+};
+
+const statsFrom = (history: UsageData[]): BatteryStats => {
+  const latest = history[history.length - 1];
+  return {
+    level: latest.level,
+    charging: latest.charging,
+    chargingTime: Infinity,
+    dischargingTime: Infinity,
+    temperature: latest.temperature,
+    voltage: latest.voltage,
+    health: UNKNOWN_HEALTH
+  };
+};
+
+describe('simulated source on a virtual clock', () => {
+  it('samples exactly what runScenario produces for the same seed', () => {
+    const durationMs = 30 * MINUTE;
+    const { history } = sampleScenario('overheating', durationMs);
+    const readings = runScenario(findScenario('overheating'), { seed: 7, durationMs, startAt: START });
+
+    expect(history.length).toBeGreaterThan(50);
+    history.forEach(sample => {
+      const expected = readings.filter(reading => reading.timestamp <= sample.timestamp).pop()!;
+      expect(sample.level).toBe(expected.level);
+      expect(sample.temperature).toBe(expected.temperature);
+    });
+  });
+
+  it('detects one discharge session at the scripted rate', () => {
+    const { history } = sampleScenario('steady-discharge', 2 * HOUR);
+    const sessions = detectSessions(history);
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({ kind: 'discharge', ongoing: true });
+    expect(sessions[0].ratePerHour).toBeGreaterThan(10);
+    expect(sessions[0].ratePerHour).toBeLessThan(14);
+  });
+
+  it('splits plug/unplug cycles into alternating sessions', () => {
+    const { history } = sampleScenario('plug-cycles', 3 * HOUR);
+    const kinds = detectSessions(history).map(session => session.kind);
+
+    expect(kinds.slice(0, 4)).toEqual(['discharge', 'charge', 'discharge', 'charge']);
+  });
+
+  it('predicts the time to empty from the sampled trend and sessions', () => {
+    const { clock, history } = sampleScenario('steady-discharge', 2 * HOUR);
+    const stats = statsFrom(history);
+    const prediction = predictBattery(stats, history, detectSessions(history), clock.now());
+
+    expect(prediction).not.toBeNull();
+    expect(prediction!.direction).toBe('empty');
+    expect(prediction!.basis).toBe('trend+sessions');
+    expect(prediction!.ratePerHour).toBeGreaterThan(10);
+    expect(prediction!.ratePerHour).toBeLessThan(14);
+    // ~76% left at ~12%/h
+    expect(prediction!.etaMs / HOUR).toBeGreaterThan(5);
+    expect(prediction!.etaMs / HOUR).toBeLessThan(8);
+    expect(prediction!.lowMs).toBeLessThanOrEqual(prediction!.etaMs);
+    expect(prediction!.highMs).toBeGreaterThanOrEqual(prediction!.etaMs);
+  });
+
+  it('predicts the time to full while charging', () => {
+    const { clock, history } = sampleScenario('fast-charge', 20 * MINUTE);
+    const prediction = predictBattery(statsFrom(history), history, detectSessions(history), clock.now());
+
+    expect(prediction?.direction).toBe('full');
+    expect(prediction!.etaMs).toBeGreaterThan(0);
+  });
+});
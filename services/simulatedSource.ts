@@ -0,0 +1,138 @@
+
+import { BatteryReading, BatterySource, SimulationScenario } from '../types';
+import { Clock, createScaledClock, systemClock } from './clock';
+import { MessageKey } from './i18n';
+import { createRng } from './random';
+import { DEFAULT_SCENARIO } from './scenarios';
+
+const TICK_MS = 2000;
+const HOUR_MS = 60 * 60 * 1000;
+const THERMAL_TIME_CONSTANT_MS = 5 * 60 * 1000;
+
+export interface SimulationOptions {
+  scenario?: SimulationScenario;
+  seed?: number;
+  speed?: number; // Simulated time runs this many times faster than real time
+}
+
+export interface Simulation {
+  reading(): BatteryReading;
+  phase(): string;
+  step(dtMs: number): BatteryReading;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Pure scenario stepper: the same scenario and seed always yield the same readings
+export const createSimulation = (scenario: SimulationScenario, seed = 1): Simulation => {
+  const rng = createRng(seed);
+  const cycleMs = scenario.phases.reduce((sum, phase) => sum + phase.durationMs, 0);
+  let elapsed = 0;
+  let phaseIndex = -1;
+  let level = scenario.initialLevel;
+  let temperature = scenario.initialTemperature;
+
+  const phaseAt = (time: number) => {
+    let offset = scenario.loop ? time % cycleMs : Math.min(time, cycleMs - 1);
+    for (let i = 0; i < scenario.phases.length; i++) {
+      if (offset < scenario.phases[i].durationMs) return i;
+      offset -= scenario.phases[i].durationMs;
+    }
+    return scenario.phases.length - 1;
+  };
+
+  const enterPhase = (index: number) => {
+    if (index === phaseIndex) return;
+    phaseIndex = index;
+    const jump = scenario.phases[index].levelJump;
+    if (jump) level = clamp(level + jump, 0, 100);
+  };
+
+  const current = () => scenario.phases[phaseIndex];
+
+  const reading = (): BatteryReading => {
+    const phase = current();
+    const rate = Math.max(phase.ratePerHour, 0.1);
+    return {
+      level: Math.round(level),
+      charging: phase.charging,
+      chargingTime: phase.charging ? Math.round(((100 - level) / rate) * 3600) : Infinity,
+      dischargingTime: phase.charging ? Infinity : Math.round((level / rate) * 3600),
+      temperature: parseFloat(temperature.toFixed(1)),
+      voltage: parseFloat((3.4 + (level / 100) * 0.8 + (phase.charging ? 0.1 : 0) + (rng() - 0.5) * 0.02).toFixed(2))
+    };
+  };
+
+  enterPhase(phaseAt(0));
+
+  return {
+    reading,
+    phase: () => current().id,
+    step(dtMs) {
+      elapsed += dtMs;
+      enterPhase(phaseAt(elapsed));
+      const phase = current();
+      const hours = dtMs / HOUR_MS;
+
+      if (phase.charging) {
+        const taper = phase.taperAbove !== undefined && level > phase.taperAbove
+          ? Math.max(0.1, (100 - level) / (100 - phase.taperAbove))
+          : 1;
+        level = clamp(level + phase.ratePerHour * taper * hours, 0, 100);
+      } else {
+        level = clamp(level - phase.ratePerHour * hours, 0, 100);
+      }
+
+      const drift = 1 - Math.exp(-dtMs / THERMAL_TIME_CONSTANT_MS);
+      temperature += (phase.temperature - temperature) * drift + (rng() - 0.5) * 0.1;
+
+      return reading();
+    }
+  };
+};
+
+// Runs a scenario without timers, e.g. for automated tests or pre-generating demo data
+export const runScenario = (
+  scenario: SimulationScenario,
+  { seed = 1, durationMs, stepMs = TICK_MS, startAt = 0 }: { seed?: number; durationMs: number; stepMs?: number; startAt?: number }
+): Array<BatteryReading & { timestamp: number }> => {
+  const simulation = createSimulation(scenario, seed);
+  const readings = [{ ...simulation.reading(), timestamp: startAt }];
+  for (let t = stepMs; t <= durationMs; t += stepMs) {
+    readings.push({ ...simulation.step(stepMs), timestamp: startAt + t });
+  }
+  return readings;
+};
+
+// Synthetic battery driven by a scripted scenario. Every value it produces is
+// made up, so the UI must label it as simulated.
+export const createSimulatedSource = (
+  { scenario = DEFAULT_SCENARIO, seed = 1, speed = 1 }: SimulationOptions = {},
+  clock: Clock = speed === 1 ? systemClock : createScaledClock(speed)
+): BatterySource => {
+  let cancel: (() => void) | null = null;
+
+  return {
+    kind: 'simulated',
+    describe: t => t(speed !== 1 ? 'source.label.simulatedFast' : 'source.label.simulated', {
+      scenario: t(`scenario.${scenario.id}.name` as MessageKey), speed
+    }),
+    clock,
+
+    start(onReading) {
+      const simulation = createSimulation(scenario, seed);
+      let last = clock.now();
+      onReading(simulation.reading());
+      cancel = clock.every(TICK_MS, () => {
+        const now = clock.now();
+        onReading(simulation.step(now - last));
+        last = now;
+      });
+    },
+
+    stop() {
+      cancel?.();
+      cancel = null;
+    }
+  };
+};
@@ -0,0 +1,57 @@
+
+import { AlertRule, BatterySession, SmartChargeConfig, SmartChargeStats } from '../types';
+
+const STORAGE_KEY = 'batterycore.smartCharge';
+const CEILING_TOLERANCE = 2; // % points a charge may overshoot and still count as respected
+
+export const DEFAULT_SMART_CHARGE: SmartChargeConfig = {
+  enabled: false,
+  ceiling: 80,
+  floor: 20,
+  enabledAt: null
+};
+
+export const loadSmartCharge = (): SmartChargeConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SMART_CHARGE, ...JSON.parse(stored) } : DEFAULT_SMART_CHARGE;
+  } catch {
+    return DEFAULT_SMART_CHARGE;
+  }
+};
+
+export const saveSmartCharge = (config: SmartChargeConfig) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+
+// Smart charge is delivered through the regular alert pipeline
+export const smartChargeRules = (config: SmartChargeConfig): AlertRule[] =>
+  config.enabled
+    ? [
+        { id: 'smartChargeCeiling', enabled: true, threshold: config.ceiling },
+        { id: 'smartChargeFloor', enabled: true, threshold: config.floor }
+      ]
+    : [];
+
+export const computeSmartChargeStats = (sessions: BatterySession[], config: SmartChargeConfig): SmartChargeStats => {
+  const charges = sessions.filter(session =>
+    session.kind === 'charge' && !session.ongoing && config.enabledAt !== null && session.start >= config.enabledAt
+  );
+  const overshoots = charges
+    .map(session => session.endLevel - config.ceiling)
+    .filter(overshoot => overshoot > CEILING_TOLERANCE);
+  const respected = charges.length - overshoots.length;
+
+  return {
+    chargeSessions: charges.length,
+    respected,
+    respectRate: charges.length ? respected / charges.length : null,
+    averageOvershoot: overshoots.length
+      ? parseFloat((overshoots.reduce((sum, o) => sum + o, 0) / overshoots.length).toFixed(1))
+      : null
+  };
+};
+
+export const describeSmartCharge = (config?: SmartChargeConfig): string =>
+  config?.enabled
+    ? `on — the user aims to keep the battery between ${config.floor}% and ${config.ceiling}%`
+    : 'off';
@@ -0,0 +1,62 @@
+
+import { BatteryReading, BatterySource } from '../types';
+
+// Subset of the Battery Status API we rely on (not part of lib.dom)
+interface BatteryManager extends EventTarget {
+  readonly level: number;
+  readonly charging: boolean;
+  readonly chargingTime: number;
+  readonly dischargingTime: number;
+}
+
+type NavigatorWithBattery = Navigator & { getBattery?: () => Promise<BatteryManager> };
+
+const BATTERY_EVENTS = ['levelchange', 'chargingchange', 'chargingtimechange', 'dischargingtimechange'];
+
+export const isSystemBatterySupported = (): boolean =>
+  typeof (navigator as NavigatorWithBattery).getBattery === 'function';
+
+export const createSystemSource = (): BatterySource => {
+  let battery: BatteryManager | null = null;
+  let handleChange: (() => void) | null = null;
+  let stopped = false;
+
+  return {
+    kind: 'system',
+    describe: t => t('source.label.system'),
+
+    start(onReading) {
+      stopped = false;
+      const getBattery = (navigator as NavigatorWithBattery).getBattery;
+      if (!getBattery) return;
+
+      getBattery.call(navigator).then(manager => {
+        if (stopped) return;
+        battery = manager;
+
+        // The Battery Status API exposes neither temperature nor voltage
+        const read = (): BatteryReading => ({
+          level: Math.round(manager.level * 100),
+          charging: manager.charging,
+          chargingTime: manager.chargingTime,
+          dischargingTime: manager.dischargingTime,
+          temperature: null,
+          voltage: null
+        });
+
+        handleChange = () => onReading(read());
+        BATTERY_EVENTS.forEach(type => manager.addEventListener(type, handleChange!));
+        onReading(read());
+      }).catch(err => console.warn('Battery Status API unavailable:', err));
+    },
+
+    stop() {
+      stopped = true;
+      if (battery && handleChange) {
+        BATTERY_EVENTS.forEach(type => battery!.removeEventListener(type, handleChange!));
+      }
+      battery = null;
+      handleChange = null;
+    }
+  };
+};
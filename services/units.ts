@@ -0,0 +1,17 @@
+
+import { TemperatureUnit } from '../types';
+
+// Measurements are stored and sent to the model in Celsius; only the display converts
+
+export const TEMPERATURE_SYMBOLS: Record<TemperatureUnit, string> = {
+  celsius: '°C',
+  fahrenheit: '°F'
+};
+
+export const toDisplayTemperature = (celsius: number | null, unit: TemperatureUnit): number | null => {
+  if (celsius === null || celsius === undefined) return null;
+  return unit === 'fahrenheit' ? parseFloat((celsius * 9 / 5 + 32).toFixed(1)) : celsius;
+};
+
+export const fromDisplayTemperature = (value: number, unit: TemperatureUnit): number =>
+  unit === 'fahrenheit' ? parseFloat(((value - 32) * 5 / 9).toFixed(1)) : value;
@@ -1,43 +1,198 @@
+// Both values are injected at build time by the service worker plugin in
+// vite.config.ts. In dev the file is served as-is and caching is disabled.
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST__ || [];
+const CACHE_VERSION = self.__CACHE_VERSION__ || 'dev';
 
-const CACHE_NAME = 'batterycore-v1';
-const urlsToCache = [
-  '/',
-  '/index.html',
-  '/index.tsx',
-  '/manifest.json',
+const CACHE_PREFIX = 'batterycore-';
+const STATIC_CACHE = `${CACHE_PREFIX}static-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime`;
+
+// Third-party static assets loaded by index.html
+const STATIC_HOSTS = [
+  'cdn.tailwindcss.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+  'esm.sh',
+  'cdn-icons-png.flaticon.com'
+];
+const RUNTIME_PRECACHE = [
   'https://cdn.tailwindcss.com',
   'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&family=JetBrains+Mono:wght@400;700&display=swap'
 ];
 
+const DB_NAME = 'batterycore';
+const QUEUE_STORE = 'analysisQueue';
+const SYNC_TAG = 'deep-analyze';
+
+const isDev = CACHE_VERSION === 'dev';
+
 self.addEventListener('install', (event) => {
+  if (isDev) return;
+  event.waitUntil(Promise.all([
+    caches.open(STATIC_CACHE).then((cache) => cache.addAll(PRECACHE_MANIFEST)),
+    // Best effort: the dashboard still works unstyled if a CDN is unreachable
+    caches.open(RUNTIME_CACHE).then((cache) => cache.addAll(RUNTIME_PRECACHE)).catch(() => undefined)
+  ]));
+  // The new version waits until the page accepts the update prompt
+});
+
+self.addEventListener('activate', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => {
-        return cache.addAll(urlsToCache);
-      })
+    caches.keys()
+      .then((cacheNames) => Promise.all(
+        cacheNames
+          .filter((name) => name.startsWith(CACHE_PREFIX) && name !== STATIC_CACHE && name !== RUNTIME_CACHE)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
   );
 });
 
+// API keys for replaying queued analyses, by provider kind. Only held in memory:
+// queued requests are stored without them (see services/analysisQueue.ts).
+const replayCredentials = new Map();
+let replayNotification = null; // Worded by the page in its language
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'skip-waiting') self.skipWaiting();
+  if (event.data && event.data.type === 'replay-credentials') {
+    replayCredentials.set(event.data.providerKind, event.data.headers);
+    replayNotification = event.data.notification;
+  }
+});
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// The app shell is versioned with the build, so fresh HTML is preferred
+const networkFirstNavigation = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    const cached = await caches.match('/index.html') || await caches.match('/');
+    if (cached) return cached;
+    throw err;
+  }
+};
+
 self.addEventListener('fetch', (event) => {
-  // Network first for API calls or dynamic content, fallback to cache
-  event.respondWith(
-    fetch(event.request).catch(() => {
-      return caches.match(event.request);
-    })
-  );
+  const { request } = event;
+  if (isDev || request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstNavigation(request));
+  } else if (url.origin === self.location.origin && (url.pathname.startsWith('/assets/') || PRECACHE_MANIFEST.includes(url.pathname))) {
+    // Hashed build assets never change under the same URL
+    event.respondWith(cacheFirst(request, STATIC_CACHE));
+  } else if (STATIC_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, RUNTIME_CACHE));
+  }
+  // Anything else (model APIs, relays) goes straight to the network
 });
 
-self.addEventListener('activate', (event) => {
-  const cacheWhitelist = [CACHE_NAME];
+// --- Background sync of offline Deep Analyze requests (see services/analysisQueue.ts)
+
+const promisify = (request) => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Opens the page's database without upgrading it; resolves null before the page has created it
+const openQueueDatabase = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME);
+  request.onupgradeneeded = () => request.transaction.abort();
+  request.onsuccess = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+      db.close();
+      resolve(null);
+      return;
+    }
+    db.onversionchange = () => db.close();
+    resolve(db);
+  };
+  request.onerror = () => resolve(null);
+  request.onblocked = () => reject(new Error('Database upgrade in progress'));
+});
+
+const replayQueuedAnalyses = async () => {
+  const db = await openQueueDatabase();
+  if (!db) return;
+
+  let replayed = 0;
+  let networkError = null;
+  try {
+    const entries = await promisify(db.transaction(QUEUE_STORE, 'readonly').objectStore(QUEUE_STORE).getAll());
+    // Without the key (the worker restarted since the page shared it) entries stay
+    // pending; the page shares it again and re-registers the sync when it next opens
+    const pending = entries.filter((entry) => entry.status === 'pending' && replayCredentials.has(entry.providerKind));
+    if (pending.length === 0) return;
+
+    // Each reply is stored as soon as it arrives, so a later failure never costs a paid request twice
+    for (const entry of pending) {
+      const { url, headers, ...init } = entry.request;
+      let response;
+      let responseText;
+      try {
+        response = await fetch(url, { ...init, headers: { ...headers, ...replayCredentials.get(entry.providerKind) } });
+        responseText = await response.text();
+      } catch (err) {
+        networkError = err;
+        break;
+      }
+      await promisify(db.transaction(QUEUE_STORE, 'readwrite').objectStore(QUEUE_STORE).put({
+        ...entry,
+        status: response.ok ? 'done' : 'failed',
+        responseText,
+        error: response.ok ? undefined : `HTTP ${response.status}`
+      }));
+      replayed++;
+    }
+  } finally {
+    db.close();
+  }
+  // Nothing arrived before the network failed: just let the browser retry
+  if (networkError && replayed === 0) throw networkError;
+
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clients.forEach((client) => client.postMessage({ type: 'analysis-synced' }));
+  if (clients.length === 0 && replayNotification && self.Notification && Notification.permission === 'granted') {
+    await self.registration.showNotification(replayNotification.title, {
+      body: replayNotification.body,
+      tag: 'batterycore-analysis',
+      icon: 'https://cdn-icons-png.flaticon.com/512/3103/3103463.png'
+    });
+  }
+  // A network error rejects the sync so the browser retries the rest later
+  if (networkError) throw networkError;
+};
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) event.waitUntil(replayQueuedAnalyses());
+});
+
+// Alert notifications: "snooze" is forwarded to the page, a plain click focuses it
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const rule = event.notification.data && event.notification.data.rule;
+
   event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheWhitelist.indexOf(cacheName) === -1) {
-            return caches.delete(cacheName);
-          }
-        })
-      );
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      if (event.action === 'snooze') {
+        clients.forEach((client) => client.postMessage({ type: 'alert-snooze', rule }));
+        return;
+      }
+      if (clients.length > 0) return clients[0].focus();
+      return self.clients.openWindow('/');
     })
   );
 });
@@ -1,12 +1,67 @@
 
+import type { Clock } from './services/clock';
+import type { Translator } from './services/i18n';
+
 export interface BatteryStats {
   level: number;
   charging: boolean;
   chargingTime: number;
   dischargingTime: number;
-  temperature: number; // Simulated or browser might not provide
-  voltage: number;     // Simulated
-  health: 'Good' | 'Fair' | 'Poor';
+  temperature: number | null; // null when the active source does not measure it
+  voltage: number | null;
+  health: BatteryHealth;
+}
+
+export type HealthGrade = 'Good' | 'Fair' | 'Poor' | 'Unknown';
+
+export interface HealthFactor {
+  id: 'cycles' | 'dischargeRate' | 'chargeRate' | 'highTemperature' | 'highCharge';
+  impact: number; // Points deducted from the score
+  values: Record<string, number>; // Placeholders of the `health.detail.<id>` message
+}
+
+export interface BatteryHealth {
+  grade: HealthGrade;
+  score: number; // 0-100
+  factors: HealthFactor[];
+  confidence: 'low' | 'medium' | 'high';
+  equivalentCycles: number;
+}
+
+export type BatterySourceKind = 'system' | 'simulated' | 'replay';
+
+export type BatteryReading = Omit<BatteryStats, 'health'>;
+
+export interface BatterySource {
+  readonly kind: BatterySourceKind;
+  describe(t: Translator): string; // Human-readable name, e.g. the scenario being simulated
+  readonly clock?: Clock; // Present when the source runs on its own (e.g. accelerated) time
+  start(onReading: (reading: BatteryReading) => void): void;
+  stop(): void;
+}
+
+export interface ScenarioPhase {
+  id: string;            // Named by the `scenario.phase.<id>` message
+  durationMs: number;
+  charging: boolean;
+  ratePerHour: number;   // Level change in % per hour (magnitude)
+  taperAbove?: number;   // Charging slows down linearly above this level
+  temperature: number;   // °C the cell drifts towards during the phase
+  levelJump?: number;    // Instant level change when the phase starts
+}
+
+export interface SimulationScenario {
+  id: string;            // Named and described by the `scenario.<id>.name` / `.description` messages
+  initialLevel: number;
+  initialTemperature: number;
+  phases: ScenarioPhase[];
+  loop: boolean;
+}
+
+export interface RecordedSession {
+  version: 1;
+  name?: string;
+  samples: BatterySample[];
 }
 
 export interface BatteryInsight {
@@ -16,7 +71,347 @@ export interface BatteryInsight {
   optimizationTips: string[];
 }
 
+export type InsightOrigin = 'ai' | 'local';
+
+export interface InsightReport {
+  createdAt: number;
+  stats: BatteryStats;   // Snapshot the report was generated from
+  insight: BatteryInsight;
+  origin: InsightOrigin;
+  provider?: string;
+  locale?: Locale;       // Absent on reports saved before localization (English)
+}
+
+export interface DataBundle {
+  format: 'batterycore-bundle';
+  version: 1;
+  exportedAt: number;
+  deviceLabel: string;
+  samples: BatterySample[];
+  hourly: HistoryAggregate[];
+  daily: HistoryAggregate[];
+  sessions: BatterySession[];
+  reports: InsightReport[];
+}
+
+export type InsightProviderKind = 'gemini' | 'openai';
+
+export interface InsightProviderConfig {
+  kind: InsightProviderKind;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible endpoint root, e.g. http://localhost:11434/v1
+}
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatTurn {
+  role: ChatRole;
+  content: string;
+}
+
+// Why a time range was retrieved for an assistant question
+export type AssistantRangeReason = 'asked' | 'recent' | 'habits';
+
+export interface AssistantCitation {
+  id: string; // Marker the reply used, e.g. "R1"
+  from: number;
+  to: number;
+  reason: AssistantRangeReason;
+}
+
+export interface AssistantMessage {
+  id: number;
+  role: ChatRole;
+  content: string;
+  status: 'streaming' | 'done' | 'error';
+  citations: AssistantCitation[];
+  error?: InsightError;
+}
+
+export interface InsightProvider {
+  readonly kind: InsightProviderKind;
+  readonly label: string;
+  isConfigured(): boolean;
+  // Returns the raw model reply; validation happens in the caller
+  complete(prompt: string, signal: AbortSignal): Promise<string>;
+  // Free-text reply to a conversation, yielded in chunks as the model produces it
+  chat(system: string, turns: ChatTurn[], signal: AbortSignal): AsyncIterable<string>;
+  // Same call as plain HTTP, so sw.js can replay it without the provider code.
+  // The request is stored, so it leaves out the API key: whoever sends it adds
+  // credentialHeaders() at that point.
+  toReplayableRequest(prompt: string): ReplayableRequest;
+  credentialHeaders(): Record<string, string>;
+}
+
+export interface ReplayableRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// A Deep Analyze request made while offline, replayed through Background Sync
+export interface QueuedAnalysis {
+  queuedAt: number;
+  stats: BatteryStats;
+  providerKind: InsightProviderKind;
+  providerLabel: string;
+  locale?: Locale;       // Language the prompt asked for
+  request: ReplayableRequest;
+  status: 'pending' | 'done' | 'failed';
+  responseText?: string; // Raw HTTP body, set by the replay
+  error?: string;
+}
+
+export type InsightErrorKind = 'not-configured' | 'timeout' | 'aborted' | 'network' | 'provider' | 'invalid-response';
+
+export interface InsightError {
+  kind: InsightErrorKind;
+  message: string;
+}
+
+export type InsightResult =
+  | { status: 'ok'; insight: BatteryInsight; provider: string }
+  | { status: 'error'; error: InsightError };
+
 export interface UsageData {
-  time: string;
+  timestamp: number;   // epoch ms
   level: number;
+  charging?: boolean;
+  temperature?: number | null;
+  voltage?: number | null;
+  visible?: boolean;   // Page was visible when sampled, a proxy for the screen being on; unknown for old data
+}
+
+export type AnomalyKind = 'fastDrain' | 'levelJump' | 'chargeStall' | 'temperature';
+
+export type TimeBlock = 'night' | 'morning' | 'afternoon' | 'evening';
+
+export type ScreenState = 'on' | 'off' | 'unknown';
+
+// A stretch of history that deviates from the device's learned baseline
+export interface BatteryAnomaly {
+  kind: AnomalyKind;
+  start: number;
+  end: number;
+  level: number;             // Level at the end of the stretch
+  observed: number;          // %/h for rates, % points for jumps, °C for temperature
+  expected: number | null;   // Baseline for the same conditions, when enough was learned
+  deviation: number | null;  // Standard deviations above (or below, for stalls) the baseline
+  fromLevel?: number;        // Level before a jump
+  timeBlock?: TimeBlock;     // Baseline slot a drain was compared against
+  screen?: ScreenState;
+}
+
+export interface BatterySession {
+  kind: 'charge' | 'discharge';
+  start: number;
+  end: number;
+  startLevel: number;
+  endLevel: number;
+  durationMs: number;
+  ratePerHour: number; // Average % per hour (magnitude)
+  depth: number;       // % points gained or lost
+  ongoing: boolean;
+}
+
+export interface SessionSummary {
+  windowDays: number;
+  chargeSessions: number;
+  dischargeSessions: number;
+  equivalentCycles: number;
+  averageChargeEndLevel: number | null;
+  chargesToFull: number;        // Charges ending at >= 95%
+  overnightCharges: number;     // Long charges started in the evening/night
+  averageDepthOfDischarge: number | null;
+  averageDischargeRate: number | null;
+  averageChargeRate: number | null;
+}
+
+export interface InsightContext {
+  history?: UsageData[];
+  sessions?: BatterySession[];
+  smartCharge?: SmartChargeConfig;
+  habitWindowDays?: number; // Days of sessions summarised as charging habits (default 7)
+  locale?: Locale;          // Language the report text is written in (default 'en')
+  events?: BatteryEvent[];  // Timeline entries, summarised for the model
+  calibration?: CalibrationReport; // Latest completed calibration run
+  now?: number;             // Current time on the source's clock (default: the latest sample or event)
+}
+
+export type BatteryEventKind =
+  | 'plugged' | 'unplugged' | 'levelCrossed' | 'temperatureSpike' | 'sourceChanged'
+  | 'offline' | 'online' | 'wakeLockAcquired' | 'wakeLockLost' | 'analysis' | 'calibration';
+
+export interface BatteryEvent {
+  timestamp: number;
+  kind: BatteryEventKind;
+  level: number | null;       // Battery level when it happened, if known
+  value?: number;             // Mark crossed (%) or peak temperature (°C)
+  direction?: 'up' | 'down';  // For level crossings
+  detail?: string;            // Source label, status line of an analysis, or calibration step
+  origin?: InsightOrigin;     // For analysis runs
+}
+
+// Guided deep cycle: charge to 100%, discharge to the floor under steady load, recharge to 100%
+export type CalibrationStep = 'charge' | 'discharge' | 'recharge' | 'complete';
+
+export type CalibrationAnomalyKind = 'levelJump' | 'plateau' | 'pluggedIn' | 'wakeLockLost' | 'highTemperature';
+
+export interface CalibrationAnomaly {
+  kind: CalibrationAnomalyKind;
+  timestamp: number;
+  level: number;
+}
+
+export interface CalibrationReport {
+  floor: number;
+  dischargeDurationMs: number;
+  dischargeRatePerHour: number;
+  relativeCapacity: number | null; // Minutes per % against the average of earlier runs; null on the first run
+  previousRuns: number;
+  linearity: number;               // R² of level against time over the discharge
+  taperStartLevel: number | null;  // Level where the charge rate fell below half the bulk rate
+  rechargeDurationMs: number;
+  anomalies: CalibrationAnomaly[];
+}
+
+export interface CalibrationRun {
+  startedAt: number;                                  // Store key
+  floor: number;                                      // Discharge target (%)
+  step: CalibrationStep;
+  stepStartedAt: Partial<Record<CalibrationStep, number>>;
+  status: 'running' | 'completed' | 'aborted';
+  discharge: UsageData[];                             // Samples from unplugging at 100% down to the floor
+  recharge: UsageData[];                              // Samples from the floor back to 100%
+  interruptions: number[];                            // Times the wake lock was lost while discharging
+  report: CalibrationReport | null;
+}
+
+export type AlertRuleId =
+  | 'lowBattery' | 'chargeTarget' | 'highTemperature' | 'fastDrain'
+  | 'smartChargeCeiling' | 'smartChargeFloor';
+
+export interface AlertRule {
+  id: AlertRuleId;
+  enabled: boolean;
+  threshold: number; // % for level rules, °C for temperature, %/h for drain
+}
+
+export interface AlertConfig {
+  rules: AlertRule[];
+  systemNotifications: boolean;
+  quietHours: { enabled: boolean; start: number; end: number }; // Local hours, may wrap midnight
+  snoozeMinutes: number;
+}
+
+export interface BatteryAlert {
+  createdAt: number;
+  rule: AlertRuleId;
+  severity: 'info' | 'warning' | 'critical';
+  title: string;
+  message: string;
+  notified: boolean; // Also delivered as a system notification
+}
+
+export interface SmartChargeConfig {
+  enabled: boolean;
+  ceiling: number;          // % at which to unplug
+  floor: number;            // % at which to plug in
+  enabledAt: number | null; // Only sessions after this count towards the statistics
+}
+
+export interface SmartChargeStats {
+  chargeSessions: number;
+  respected: number;         // Charges that stopped at or below the ceiling (+ tolerance)
+  respectRate: number | null;
+  averageOvershoot: number | null; // % points above the ceiling when not respected
+}
+
+export interface BatterySample {
+  timestamp: number;
+  level: number;
+  charging: boolean;
+  temperature: number | null;
+  voltage: number | null;
+  visible?: boolean;
+  source?: BatterySourceKind;
+}
+
+export type AggregateResolution = 'hour' | 'day';
+
+export interface HistoryAggregate {
+  bucketStart: number;
+  resolution: AggregateResolution;
+  sampleCount: number;
+  avgLevel: number;
+  minLevel: number;
+  maxLevel: number;
+  chargingRatio: number; // Share of samples taken while charging (0-1)
+  avgTemperature: number | null;
+  avgVoltage: number | null;
+  visibleRatio?: number | null; // Share of samples taken while the page was visible; absent before it was recorded
+}
+
+export interface RetentionPolicy {
+  rawMs: number;    // Raw samples kept before rolling into hourly buckets
+  hourlyMs: number; // Hourly buckets kept before rolling into daily buckets
+  dailyMs: number;  // Daily buckets kept before being dropped
+}
+
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+
+export type Locale = 'en' | 'pt-BR';
+
+export interface EnergyConfig {
+  designCapacityMWh: number | null; // Null until the user enters it; energy figures stay hidden
+  nominalVoltage: number;           // V, used to express energy as charge (mAh)
+  chargerEfficiency: number;        // 0-1, share of wall energy that ends up in the battery
+  tariffPerKWh: number | null;
+  currency: string;                 // ISO 4217 code
+  gridIntensity: number | null;     // g CO₂ per kWh
+}
+
+export type HabitWindowDays = 7 | 30;
+
+export interface AppSettings {
+  version: number;
+  sampleIntervalMs: number;
+  autoAnalyze: boolean;
+  insightDelta: number;        // % level change that triggers an automatic analysis
+  gaugeThresholds: {
+    low: number;               // At or below: red
+    high: number;              // Above: green; in between: amber
+  };
+  temperatureUnit: TemperatureUnit;
+  locale: Locale;
+  insightModel: string;        // Empty uses the build-time model
+  habitWindowDays: HabitWindowDays; // Days of sessions summarised for insights
+  energy: EnergyConfig;
+}
+
+export interface RelayConfig {
+  url: string;
+  deviceName: string;
+  deviceId: string | null; // Set once paired
+  token: string | null;
+}
+
+// What a device pushes to the relay
+export interface FleetReport {
+  stats: BatteryStats;
+  summary: SessionSummary;
+  sourceKind: BatterySourceKind;
+  history: UsageData[]; // Points recorded since the previous push
+}
+
+export interface FleetDevice {
+  id: string;
+  name: string;
+  pairedAt: number;
+  lastSeen: number | null;
+  sourceKind: BatterySourceKind | null;
+  stats: BatteryStats | null;   // Null until the first push
+  summary: SessionSummary | null;
 }
@@ -1,7 +1,31 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits sw.js with the hashed build output as its precache list and a cache
+// version derived from the output's contents, so every deploy gets a new cache
+const serviceWorker = (): Plugin => ({
+  name: 'batterycore-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const hash = createHash('sha256');
+    const files = Object.values(bundle)
+      .map(output => {
+        hash.update(output.type === 'chunk' ? output.code : output.source);
+        return `/${output.fileName}`;
+      })
+      .sort();
+
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+      .replace('self.__PRECACHE_MANIFEST__', JSON.stringify([...new Set(['/', '/index.html', ...files])]))
+      .replace('self.__CACHE_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)));
+
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +33,14 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.INSIGHT_PROVIDER': JSON.stringify(env.INSIGHT_PROVIDER),
+        'process.env.INSIGHT_MODEL': JSON.stringify(env.INSIGHT_MODEL),
+        'process.env.INSIGHT_BASE_URL': JSON.stringify(env.INSIGHT_BASE_URL),
+        'process.env.INSIGHT_API_KEY': JSON.stringify(env.INSIGHT_API_KEY)
       },
       resolve: {
         alias: {